@@ -1,4 +1,5 @@
-import { join } from 'path';
+import { writeFileSync } from 'fs';
+import { join, resolve } from 'path';
 
 import {
   CanActivate,
@@ -7,16 +8,23 @@ import {
   ExceptionFilter,
   ForwardReference,
   INestApplication,
+  InjectionToken,
   Logger,
   Module,
+  NestApplicationOptions,
+  NestHybridApplicationOptions,
   NestInterceptor,
+  OnApplicationShutdown,
   PipeTransform,
   Type,
+  ValidationError,
   ValidationPipe,
   ValidationPipeOptions,
   VersioningOptions,
+  VersioningType,
 } from '@nestjs/common';
 import { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
+import { HttpsOptions } from '@nestjs/common/interfaces/external/https-options.interface';
 import { Provider } from '@nestjs/common/interfaces/modules/provider.interface';
 import { ConfigModule } from '@nestjs/config';
 import {
@@ -30,21 +38,79 @@ import {
 } from '@nestjs/core';
 import {
   DocumentBuilder,
+  OpenAPIObject,
   SwaggerCustomOptions,
   SwaggerDocumentOptions,
   SwaggerModule,
 } from '@nestjs/swagger';
+import type { MicroserviceOptions } from '@nestjs/microservices';
+import type { FastifyInstance } from 'fastify';
 import compression from 'compression';
 import helmet from 'helmet';
+import { DataSource } from 'typeorm';
 
 import { discoverComponents } from './auto-discovery.helper';
-import { validateConfig } from './config-validator.helper';
+import {
+  ClusterOptions,
+  isClusterPrimary,
+  resolveWorkerCount,
+  startClusterPrimary,
+} from './cluster.helper';
+import {
+  CONFIG_FILE_NAMES,
+  findConfigFile,
+  InitializerConfigFile,
+  loadConfigFile,
+} from './config-file.helper';
+import { ConfigSchema, validateConfig } from './config-validator.helper';
+import {
+  GracefulShutdownOptions,
+  registerGracefulShutdown,
+} from './graceful-shutdown.helper';
+import { getHttpPlatform, registerFastifyPlugin } from './http-platform.helper';
+import { HttpsCertificateOptions, loadHttpsOptions } from './https.helper';
+import {
+  createManagementModule,
+  ManagementServerOptions,
+} from './management-server.helper';
+import { describeTransport } from './microservice.helper';
+import { getPluginName, sortPlugins } from './plugin-sorter.helper';
+import {
+  collectGlobalComponents,
+  collectRoutes,
+  describeVersioning,
+  formatStartupReport,
+  StartupPhaseTiming,
+  StartupReport,
+  StartupReportOptions,
+} from './startup-report.helper';
+import { getProfileEnvFilePaths, resolveActiveProfile } from './profile.helper';
+import { applySwaggerEnvelope } from './swagger-envelope.helper';
+import { resolveSecretFiles, SecretFilesOptions } from './secret-files.helper';
 import {
   MetricsModule,
+  ReadinessModule,
+  ReadinessState,
+  SecretsManager,
+  SecretsModule,
+  SecretsProvider,
+  SecretsProviderOptions,
+  StructuredLogger,
+  StructuredLoggingOptions,
   TerminusHealthCheckModule,
   TerminusHealthCheckOptions,
 } from '../features';
-import { RateLimiterPlugin, RequestLoggerPlugin } from '../plugins';
+import { MetricsController } from '../features/metrics/metrics.controller';
+import { METRICS_REGISTRY } from '../features/metrics/metrics.tokens';
+import {
+  HttpsRedirectPlugin,
+  RateLimiterOptions,
+  RateLimiterPlugin,
+  RequestContextOptions,
+  RequestContextPlugin,
+  RequestLoggerOptions,
+  RequestLoggerPlugin,
+} from '../plugins';
 import {
   CachingStarterOptions,
   createCachingStarter,
@@ -55,27 +121,134 @@ import {
 } from '../starters';
 import {
   ResponseMapper,
+  ResponseMapperOptions,
   ResponsePatternInterceptor,
 } from '../interceptors/response-pattern.interceptor';
+import {
+  ProblemDetailsFilter,
+  ProblemDetailsOptions,
+} from '../filters/problem-details.filter';
+import { ValidationException } from '../filters/validation.exception';
 
-type AnyModule =
+export type AnyModule =
   | Type
   | DynamicModule
   | Promise<DynamicModule>
   | ForwardReference;
 
+/**
+ * Contexto entregue aos hooks de ciclo de vida dos plugins.
+ * Expõe o estado do builder e, conforme a fase, a instância da aplicação.
+ */
+export interface AppInitializerPluginContext {
+  /**
+   * A instância do builder que está inicializando a aplicação.
+   */
+  readonly initializer: AppInitializer<any>;
+  /**
+   * Composição do módulo raiz. Pode ser modificada no hook `configureModule`
+   * para adicionar imports, providers e controllers.
+   */
+  readonly rootModule: {
+    imports: AnyModule[];
+    providers: Provider[];
+    controllers: Type[];
+  };
+  readonly port: number;
+  readonly globalPrefix?: string;
+  readonly versioningOptions?: VersioningOptions;
+  readonly swaggerOptions?: SwaggerOptions;
+  /**
+   * Opções do logger estruturado, quando habilitado com `.withStructuredLogging()`.
+   * Plugins podem usá-las para emitir logs em JSON.
+   */
+  readonly structuredLogging?: StructuredLoggingOptions;
+  /**
+   * A instância da aplicação. Disponível a partir do hook `afterCreate`.
+   */
+  app?: INestApplication;
+  /**
+   * A URL em que a aplicação está escutando. Disponível no hook `afterListen`.
+   */
+  url?: string;
+}
+
 /**
  * Interface que todos os plugins do AppInitializer devem implementar.
+ * Todos os hooks são opcionais e executados na ordem:
+ * `configureModule` → `beforeCreate` → `afterCreate` → `apply` → `beforeListen` → `afterListen`.
+ * O hook `onShutdown` é executado quando a aplicação é encerrada.
  */
 export interface AppInitializerPlugin {
+  /**
+   * Nome estável do plugin. Usado para de-duplicação e como referência
+   * nas dependências `before`/`after` de outros plugins.
+   */
+  readonly name?: string;
+  /**
+   * Nomes dos plugins que devem ser executados depois deste.
+   * Referências a plugins não registrados são ignoradas.
+   */
+  readonly before?: string[];
+  /**
+   * Nomes dos plugins dos quais este depende e que devem ser executados antes dele.
+   * A inicialização falha se algum deles não estiver registrado.
+   */
+  readonly after?: string[];
+  /**
+   * Política aplicada quando um plugin com o mesmo nome já está registrado:
+   * `replace` substitui o plugin existente (padrão) e `reject` lança um erro.
+   */
+  readonly onDuplicate?: 'replace' | 'reject';
+  /**
+   * Executado antes da criação do módulo raiz. Permite adicionar imports,
+   * providers e controllers através de `context.rootModule`.
+   */
+  configureModule?(context: AppInitializerPluginContext): Promise<void> | void;
+  /**
+   * Executado imediatamente antes do `NestFactory.create`.
+   */
+  beforeCreate?(context: AppInitializerPluginContext): Promise<void> | void;
+  /**
+   * Executado imediatamente após a criação da aplicação, antes das configurações do builder.
+   */
+  afterCreate?(context: AppInitializerPluginContext): Promise<void> | void;
   /**
    * Método que será executado durante a inicialização para aplicar a lógica do plugin.
    * Pode ser síncrono ou assíncrono.
    * @param app A instância da aplicação NestJS (INestApplication).
    */
-  apply(app: INestApplication): Promise<void> | void;
+  apply?(app: INestApplication): Promise<void> | void;
+  /**
+   * Executado após todas as configurações, imediatamente antes do `app.listen`.
+   */
+  beforeListen?(context: AppInitializerPluginContext): Promise<void> | void;
+  /**
+   * Executado após o `app.listen`, com a URL da aplicação disponível no contexto.
+   */
+  afterListen?(context: AppInitializerPluginContext): Promise<void> | void;
+  /**
+   * Executado no encerramento da aplicação (`app.close()` ou sinais com `withGracefulShutdown`).
+   * @param context O contexto do plugin.
+   * @param signal O sinal que originou o encerramento, se houver.
+   */
+  onShutdown?(
+    context: AppInitializerPluginContext,
+    signal?: string,
+  ): Promise<void> | void;
 }
 
+/**
+ * Hooks de ciclo de vida que recebem apenas o contexto do plugin.
+ */
+type PluginLifecycleHook =
+  | 'configureModule'
+  | 'beforeCreate'
+  | 'afterCreate'
+  | 'beforeListen'
+  | 'afterListen'
+  | 'onShutdown';
+
 /**
  * Representa uma tag na documentação Swagger (OpenAPI).
  */
@@ -97,13 +270,52 @@ export type SwaggerOptions = {
   customOptions?: SwaggerCustomOptions;
 };
 
+/**
+ * Substituição de um provider na aplicação de testes.
+ * Segue o mesmo formato dos providers do NestJS (`useValue`, `useClass` ou `useFactory`).
+ */
+export type ProviderOverride =
+  | { provide: InjectionToken; useValue: unknown }
+  | { provide: InjectionToken; useClass: Type }
+  | {
+      provide: InjectionToken;
+      useFactory: (...args: any[]) => unknown;
+      inject?: InjectionToken[];
+    };
+
+/**
+ * Opções para a criação de uma aplicação de testes via `AppInitializer.createTestingApp`.
+ */
+export type TestingAppOptions = {
+  /**
+   * Providers a serem substituídos no TestingModule (ex: repositórios, clientes HTTP).
+   */
+  overrides?: ProviderOverride[];
+  /**
+   * Adaptador HTTP opcional (ex: FastifyAdapter). Padrão: Express.
+   */
+  adapter?: AbstractHttpAdapter;
+};
+
+/**
+ * Opções do sistema de perfis de ambiente.
+ */
+export type ProfileOptions = {
+  /**
+   * Perfil usado quando `APP_PROFILE` e `NODE_ENV` não estão definidos.
+   * (Padrão: 'development')
+   */
+  defaultProfile?: string;
+};
+
 /**
  * Assinatura da função de callback usada para configurar o inicializador.
+ * Pode ser assíncrona (ex: para aguardar o `withConfigFile`).
  * @param app A instância do AppInitializer a ser configurada.
  */
 type AppConfigurator<T extends INestApplication> = (
   app: AppInitializer<T>,
-) => void;
+) => unknown;
 
 /**
  * Uma classe fluente (Builder) para inicializar uma aplicação NestJS de forma declarativa.
@@ -119,7 +331,10 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
   private versioningOptions?: VersioningOptions;
   private corsOptions?: CorsOptions;
   private swaggerOptions?: SwaggerOptions;
-  private readonly setupFunctions: ((app: INestApplication) => void)[] = [];
+  private swaggerEnvelope?: Type;
+  private readonly setupFunctions: ((
+    app: INestApplication,
+  ) => Promise<void> | void)[] = [];
   private readonly plugins: AppInitializerPlugin[] = [];
   private readonly featureModules: AnyModule[] = [];
   private advancedSwaggerUiOptions?: {
@@ -130,6 +345,31 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
   private readonly globalProviders: Provider[] = [];
   private readonly globalInterceptors: NestInterceptor[] = [];
   private readonly factoryGeneratedControllers: Type[] = [];
+  private pluginContext?: AppInitializerPluginContext;
+  private activeProfile?: string;
+  private configSchema?: ConfigSchema;
+  private secretFilesOptions?: SecretFilesOptions;
+  private secretsManager?: SecretsManager;
+  private gracefulShutdownOptions?: GracefulShutdownOptions;
+  private removeShutdownHandlers?: () => void;
+  private structuredLoggingOptions?: StructuredLoggingOptions;
+  private structuredLogger?: StructuredLogger;
+  private startupReportOptions?: StartupReportOptions;
+  private readonly starters: string[] = [];
+  private readonly phaseTimings: StartupPhaseTiming[] = [];
+  private readonly microservices: {
+    options: MicroserviceOptions;
+    hybridOptions: NestHybridApplicationOptions;
+  }[] = [];
+  private readonly microserviceDescriptions: string[] = [];
+  private httpsCertificateOptions?: HttpsCertificateOptions;
+  private healthCheckOptions?: TerminusHealthCheckOptions;
+  private metricsEnabled = false;
+  private managementOptions?: ManagementServerOptions;
+  private managementApp?: INestApplication;
+  private swaggerDocument?: OpenAPIObject;
+  private isTestingApp = false;
+  private clusterOptions?: ClusterOptions;
 
   private constructor(module: Type, adapter?: AbstractHttpAdapter) {
     this.module = module;
@@ -145,7 +385,7 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
     swaggerOptions: Omit<SwaggerOptions, 'path'>,
   ): this {
     this.withSwagger({ ...swaggerOptions, path: 'docs' });
-    this.withPlugin(new RequestLoggerPlugin());
+    this.withDefaultPlugin(new RequestLoggerPlugin());
     return this;
   }
 
@@ -157,7 +397,7 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
     this.useHelmet();
     this.enableCompression();
     this.withGracefulShutdown();
-    this.withPlugin(new RateLimiterPlugin());
+    this.withDefaultPlugin(new RateLimiterPlugin());
     return this;
   }
 
@@ -174,7 +414,7 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
   }
 
   public withHealthCheck(options: TerminusHealthCheckOptions): this {
-    this.featureModules.push(TerminusHealthCheckModule.forRoot(options));
+    this.healthCheckOptions = options;
     return this;
   }
 
@@ -184,7 +424,26 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
    * e métricas de latência de requisições HTTP.
    */
   public withMetrics(): this {
-    this.featureModules.push(MetricsModule.forRoot());
+    this.metricsEnabled = true;
+    return this;
+  }
+
+  /**
+   * Serve o health check, as métricas, o Swagger UI e endpoints administrativos em
+   * uma segunda porta. Essas rotas deixam de existir na aplicação pública, não recebem
+   * o prefixo global e não são registradas pelo MetricsInterceptor.
+   * Em `createTestingApp`, o servidor de gerenciamento não é iniciado e as rotas
+   * permanecem na aplicação de testes.
+   * @param options Porta, prefixo, módulos administrativos e adaptador HTTP opcional.
+   */
+  public withManagementServer(options: ManagementServerOptions): this {
+    this.managementOptions = {
+      ...options,
+      prefix:
+        options.prefix && !options.prefix.startsWith('/')
+          ? `/${options.prefix}`
+          : options.prefix,
+    };
     return this;
   }
 
@@ -222,10 +481,16 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
 
     const initializer = new AppInitializer<T>(module, adapter);
     try {
+      await finalConfigurator(initializer);
       initializer.logger.log(
         'Iniciando o processo de bootstrap da aplicação...',
       );
-      finalConfigurator(initializer);
+
+      if (initializer.clusterOptions && isClusterPrimary()) {
+        startClusterPrimary(initializer.clusterOptions, initializer.logger);
+        return;
+      }
+
       await initializer.listen();
     } catch (error) {
       if (error instanceof Error) {
@@ -243,6 +508,127 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
     }
   }
 
+  /**
+   * Cria e inicializa a aplicação para testes (ex: Jest + supertest) sem abrir
+   * uma porta e sem encerrar o processo em caso de erro.
+   * Aplica a mesma composição de módulos, plugins, providers globais e Swagger do `bootstrap`.
+   * @param module O módulo raiz da aplicação (ex: AppModule).
+   * @param configurator Uma função de callback que recebe o builder para aplicar as configurações.
+   * @param options Overrides de providers e adaptador HTTP opcional.
+   * @returns A instância inicializada da aplicação NestJS.
+   */
+  public static async createTestingApp<
+    T extends INestApplication = INestApplication,
+  >(
+    module: Type,
+    configurator: AppConfigurator<T>,
+    options: TestingAppOptions = {},
+  ): Promise<T> {
+    const initializer = new AppInitializer<T>(module, options.adapter);
+    await configurator(initializer);
+    return initializer.createTestingApplication(options);
+  }
+
+  /**
+   * Cria uma função de configuração a partir de um arquivo declarativo
+   * (`nest-initializer.config.json|yaml|js`), para uso direto no `bootstrap`.
+   * @param filePath O caminho do arquivo. Se omitido, o arquivo é procurado no diretório atual.
+   * @example AppInitializer.bootstrap(AppModule, AppInitializer.fromConfigFile())
+   */
+  public static fromConfigFile<T extends INestApplication = INestApplication>(
+    filePath?: string,
+  ): AppConfigurator<T> {
+    return async (app) => {
+      await app.withConfigFile(filePath);
+    };
+  }
+
+  /**
+   * Aplica as configurações de um arquivo declarativo (`nest-initializer.config.json|yaml|js`),
+   * mapeando-as para os métodos do builder (`withCors`, `withSwagger`, `withHealthCheck`, `withTypeOrm`...).
+   * O arquivo é validado e chaves desconhecidas são reportadas com o caminho e a linha.
+   * Assíncrono porque arquivos JavaScript são carregados com `import()`; use-o com `await`
+   * em uma função de configuração `async`.
+   * @param filePath O caminho do arquivo. Se omitido, o arquivo é procurado no diretório atual.
+   * @throws Error se o arquivo não for encontrado ou for inválido.
+   */
+  public async withConfigFile(filePath?: string): Promise<this> {
+    const resolvedPath = filePath ?? findConfigFile();
+
+    if (!resolvedPath) {
+      throw new Error(
+        `[Arquivo de Configuração] Nenhum arquivo encontrado em ${process.cwd()}. Esperado um de: ${CONFIG_FILE_NAMES.join(', ')}`,
+      );
+    }
+
+    this.logger.log(`Carregando configurações de: ${resolvedPath}`);
+    this.applyConfigFile(await loadConfigFile(resolvedPath));
+    return this;
+  }
+
+  private applyConfigFile(config: InitializerConfigFile): void {
+    if (config.port !== undefined) this.onPort(config.port);
+    if (config.globalPrefix) this.withGlobalPrefix(config.globalPrefix);
+
+    if (config.cors) {
+      this.withCors(config.cors === true ? {} : (config.cors as CorsOptions));
+    }
+
+    if (config.versioning) {
+      const { defaultVersion } = config.versioning;
+      switch (config.versioning.type) {
+        case 'uri':
+          this.withVersioning({
+            type: VersioningType.URI,
+            prefix: config.versioning.prefix,
+            defaultVersion,
+          });
+          break;
+        case 'header':
+          this.withVersioning({
+            type: VersioningType.HEADER,
+            header: config.versioning.header,
+            defaultVersion,
+          });
+          break;
+        case 'media-type':
+          this.withVersioning({
+            type: VersioningType.MEDIA_TYPE,
+            key: config.versioning.key,
+            defaultVersion,
+          });
+          break;
+      }
+    }
+
+    if (config.swagger) {
+      const { advancedUi, ...swaggerOptions } = config.swagger;
+      this.withSwagger(swaggerOptions);
+      if (advancedUi) this.withAdvancedSwaggerUI();
+    }
+
+    if (config.healthCheck) this.withHealthCheck(config.healthCheck);
+    if (config.metrics) this.withMetrics();
+
+    if (config.validationPipe) {
+      this.withValidationPipe(
+        config.validationPipe === true
+          ? {}
+          : (config.validationPipe as ValidationPipeOptions),
+      );
+    }
+
+    if (config.classSerializer) this.withClassSerializer();
+    if (config.gracefulShutdown) this.withGracefulShutdown();
+    if (config.helmet) this.useHelmet();
+    if (config.compression) this.enableCompression();
+
+    const { typeorm, mongoose, caching } = config.starters ?? {};
+    if (typeorm) this.withTypeOrm(typeorm as TypeOrmStarterOptions);
+    if (mongoose) this.withMongoose(mongoose as MongooseStarterOptions);
+    if (caching) this.withCaching(caching);
+  }
+
   /**
    * Define a porta em que a aplicação vai rodar.
    * @param port O número da porta.
@@ -254,13 +640,48 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
 
   /**
    * Registra um plugin para ser executado durante a inicialização.
+   * Plugins nomeados são de-duplicados conforme a política `onDuplicate` do novo plugin
+   * e ordenados pelas dependências `before`/`after` antes da inicialização.
    * @param plugin Uma instância de um objeto que implementa a interface AppInitializerPlugin.
+   * @throws Error se um plugin com o mesmo nome já estiver registrado e a política for `reject`.
    */
   public withPlugin(plugin: AppInitializerPlugin): this {
-    this.plugins.push(plugin);
+    const index = this.findPluginIndex(plugin);
+
+    if (index === -1) {
+      this.plugins.push(plugin);
+      return this;
+    }
+
+    if (plugin.onDuplicate === 'reject') {
+      throw new Error(
+        `[Plugins] O plugin '${plugin.name}' já está registrado e não pode ser duplicado.`,
+      );
+    }
+
+    this.logger.warn(
+      `O plugin '${plugin.name}' já estava registrado e foi substituído.`,
+    );
+    this.plugins[index] = plugin;
     return this;
   }
 
+  /**
+   * Registra um plugin dos presets apenas se nenhum plugin com o mesmo nome
+   * tiver sido registrado explicitamente.
+   * @param plugin O plugin padrão do preset.
+   */
+  private withDefaultPlugin(plugin: AppInitializerPlugin): void {
+    if (this.findPluginIndex(plugin) === -1) {
+      this.plugins.push(plugin);
+    }
+  }
+
+  private findPluginIndex(plugin: AppInitializerPlugin): number {
+    if (!plugin.name) return -1;
+    return this.plugins.findIndex((p) => p.name === plugin.name);
+  }
+
   /**
    * Habilita e configura o versionamento da API.
    * @param options As opções de versionamento do NestJS.
@@ -299,6 +720,12 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
       forbidNonWhitelisted: true,
       transform: true,
       transformOptions: { enableImplicitConversion: true },
+      // Com `disableErrorMessages`, o ValidationPipe só omite as mensagens sem uma
+      // `exceptionFactory`.
+      ...(!options.disableErrorMessages && {
+        exceptionFactory: (errors: ValidationError[]) =>
+          new ValidationException(errors, options.errorHttpStatusCode),
+      }),
     };
     const finalOptions = { ...defaultOptions, ...options };
 
@@ -309,6 +736,26 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
     return this;
   }
 
+  /**
+   * Registra um filtro global que responde os erros no formato RFC 7807
+   * (`application/problem+json`), incluindo os erros por campo do ValidationPipe, os erros
+   * do TypeORM e o ID da requisição (com `.withRequestContext()`). No perfil 'production',
+   * as mensagens dos erros internos são omitidas.
+   * @param options A base das URIs de `type` e a inclusão do stack trace.
+   */
+  public withProblemDetails(options: ProblemDetailsOptions = {}): this {
+    this.globalProviders.push({
+      provide: APP_FILTER,
+      // Criado com o módulo, para usar o perfil do `.withProfiles()` mesmo se chamado depois.
+      useFactory: () =>
+        new ProblemDetailsFilter(
+          options,
+          this.activeProfile ?? resolveActiveProfile(),
+        ),
+    });
+    return this;
+  }
+
   /**
    * Registra um Pipe global customizado (ex: um pipe de parsing).
    * O pipe participará da Injeção de Dependência.
@@ -408,52 +855,227 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
   }
 
   /**
-   * Habilita os 'shutdown hooks' do NestJS para um desligamento gracioso.
+   * Habilita o desligamento gracioso: ao receber SIGTERM/SIGINT, marca a instância como
+   * não pronta (o health check responde 503), aguarda o pre-stop delay, para de aceitar
+   * conexões aguardando as requisições em andamento, encerra as conexões do TypeORM,
+   * do Mongoose e do Redis e finaliza o processo. Cada etapa é registrada com a sua duração.
+   * @param options Opções do graceful shutdown (ex: `{ preStopDelayMs: 5000 }`).
+   */
+  public withGracefulShutdown(options: GracefulShutdownOptions = {}): this {
+    const registered = !!this.gracefulShutdownOptions;
+    this.gracefulShutdownOptions = {
+      ...this.gracefulShutdownOptions,
+      ...options,
+    };
+    if (registered) return this;
+
+    this.setupFunctions.push((app) => {
+      this.removeShutdownHandlers = registerGracefulShutdown(
+        app,
+        this.gracefulShutdownOptions!,
+        this.logger,
+      );
+    });
+    return this;
+  }
+
+  /**
+   * Instala na aplicação, ao criá-la, um logger estruturado que emite uma linha JSON por
+   * entrada (inclusive os logs do próprio AppInitializer e do RequestLoggerPlugin),
+   * mascarando cabeçalhos sensíveis como `authorization` e `cookie`. Os logs emitidos
+   * durante a criação ficam guardados (`bufferLogs`) até o logger ser instalado.
+   * Com `.withRequestContext()`, o ID da requisição é incluído em cada entrada.
+   * @param options Opções do logger (ex: `{ level: 'debug', base: { service: 'orders' } }`).
    */
-  public withGracefulShutdown(): this {
-    this.setupFunctions.push((app) => app.enableShutdownHooks());
+  public withStructuredLogging(options: StructuredLoggingOptions = {}): this {
+    this.structuredLoggingOptions = options;
+    this.structuredLogger = new StructuredLogger(options);
     return this;
   }
 
+  /**
+   * Habilita o contexto de requisição: lê (ou gera) um ID por requisição a partir do
+   * cabeçalho informado, devolve-o na resposta e o disponibiliza no `RequestContext`
+   * injetável. Com `logger: true`, o ID também é incluído nas linhas do `Logger` do NestJS.
+   * @param options Opções do contexto (ex: `{ header: 'x-correlation-id' }`).
+   */
+  public withRequestContext(options: RequestContextOptions = {}): this {
+    return this.withPlugin(new RequestContextPlugin(options));
+  }
+
+  /**
+   * Limita as requisições por cliente, substituindo o rate limiter padrão do
+   * `useProductionDefaults`. Com `store: { type: 'redis' }`, os contadores são
+   * compartilhados entre as réplicas, reusando a conexão do `.withCaching()`.
+   * @param options Opções do rate limiter (ex: `{ limit: 50, store: { type: 'redis' } }`).
+   */
+  public withRateLimit(options: RateLimiterOptions = {}): this {
+    return this.withPlugin(new RateLimiterPlugin(options));
+  }
+
+  /**
+   * Registra cada requisição concluída no `Logger` do NestJS, substituindo o log de
+   * requisições padrão do `useDevelopmentDefaults`. Por padrão, as sondas de health
+   * check e a coleta de métricas não são registradas.
+   * @param options Opções do log (ex: `{ format: 'combined', slowThresholdMs: 1000 }`).
+   */
+  public withRequestLogger(options: RequestLoggerOptions = {}): this {
+    return this.withPlugin(new RequestLoggerPlugin(options));
+  }
+
   /**
    * Adiciona o middleware de segurança Helmet com configurações padrão.
+   * Com Fastify, registra o plugin `@fastify/helmet`.
    */
   public useHelmet(): this {
-    this.setupFunctions.push((app) => app.use(helmet()));
+    this.setupFunctions.push(async (app) => {
+      if (getHttpPlatform(app, 'useHelmet') === 'fastify') {
+        await registerFastifyPlugin(app, '@fastify/helmet', 'useHelmet');
+      } else {
+        app.use(helmet());
+      }
+    });
     return this;
   }
 
   /**
    * Adiciona o middleware de compressão (gzip) para as respostas.
+   * Com Fastify, registra o plugin `@fastify/compress`.
    */
   public enableCompression(): this {
-    this.setupFunctions.push((app) => app.use(compression()));
+    this.setupFunctions.push(async (app) => {
+      if (getHttpPlatform(app, 'enableCompression') === 'fastify') {
+        await registerFastifyPlugin(
+          app,
+          '@fastify/compress',
+          'enableCompression',
+        );
+      } else {
+        app.use(compression());
+      }
+    });
     return this;
   }
 
   /**
    * Carrega e valida as variáveis de ambiente na inicialização
-   * usando um schema de validação (classe com decoradores class-validator).
+   * usando um schema de validação (classe com decoradores class-validator ou schema do Zod).
    * Se a validação falhar, a aplicação não será iniciada.
-   * @param schema A classe de schema para validar (ex: EnvironmentVariables).
+   * Use `TypedConfigService<typeof schema>` para acessar a configuração tipada.
+   * @param schema A classe de schema (ex: EnvironmentVariables) ou o schema do Zod.
    */
-  public withValidatedConfig<T extends object>(schema: Type<T>): this {
-    const configModule = ConfigModule.forRoot({
-      isGlobal: true,
+  public withValidatedConfig(schema: ConfigSchema): this {
+    this.configSchema = schema;
+    return this;
+  }
 
-      validate: (config) => validateConfig(config, schema),
-    });
+  /**
+   * Resolve segredos montados como arquivos (Docker/Kubernetes secrets) antes da validação:
+   * `FOO_FILE=/run/secrets/foo` preenche `FOO` com o conteúdo do arquivo.
+   * Registra o ConfigModule global mesmo sem `.withValidatedConfig`.
+   * @param options Opções de resolução (ex: `{ directory: '/run/secrets' }`).
+   */
+  public withSecretFiles(options: SecretFilesOptions = {}): this {
+    this.secretFilesOptions = options;
+    return this;
+  }
+
+  /**
+   * Carrega segredos de um provedor externo (ex: arquivo JSON ou API no estilo do Vault)
+   * no ConfigService, validados com o restante da configuração, sem escrevê-los em
+   * `process.env`. Com `refreshIntervalMs`, os segredos são recarregados periodicamente;
+   * as alterações válidas atualizam o ConfigService, são notificadas pelo `SecretsManager`
+   * (disponível para injeção) e reconectam os starters de banco de dados e cache.
+   * Registra o ConfigModule global mesmo sem `.withValidatedConfig`.
+   * Pode ser chamado mais de uma vez; provedores registrados depois têm prioridade.
+   * @param provider O provedor de segredos (ex: `new HttpSecretsProvider({ url, token })`).
+   * @param options As chaves obrigatórias e o intervalo de recarga.
+   */
+  public withSecretsProvider(
+    provider: SecretsProvider,
+    options: SecretsProviderOptions = {},
+  ): this {
+    this.secretsManager ??= new SecretsManager();
+    this.secretsManager.addProvider(provider, options);
+    return this;
+  }
 
-    this.featureModules.push(configModule);
+  /**
+   * Aplica as configurações do perfil ativo, definido por `APP_PROFILE` ou `NODE_ENV`.
+   * Quando combinado com `.withValidatedConfig`, o arquivo `.env.<perfil>` também é
+   * carregado, com prioridade sobre o `.env`.
+   * @param profiles Um mapa de perfil para a função que configura o builder.
+   * @param options Opções do sistema de perfis.
+   */
+  public withProfiles(
+    profiles: Record<string, (builder: this) => void>,
+    options: ProfileOptions = {},
+  ): this {
+    this.activeProfile = resolveActiveProfile(
+      process.env,
+      options.defaultProfile,
+    );
+
+    profiles[this.activeProfile]?.(this);
     return this;
   }
 
+  /**
+   * Retorna o perfil ativo definido via `.withProfiles`, se houver.
+   */
+  public getActiveProfile(): string | undefined {
+    return this.activeProfile;
+  }
+
+  /**
+   * Cria o ConfigModule global que carrega o(s) arquivo(s) .env, resolve os
+   * segredos de `.withSecretFiles`, inclui os segredos de `.withSecretsProvider` e
+   * valida as variáveis de ambiente contra o schema de `.withValidatedConfig`.
+   */
+  private createConfigModule(): Promise<DynamicModule> {
+    const { configSchema: schema, secretFilesOptions, secretsManager } = this;
+    const validate = (config: Record<string, unknown>) => {
+      const resolved = secretFilesOptions
+        ? resolveSecretFiles(config, secretFilesOptions)
+        : config;
+      return (schema ? validateConfig(resolved, schema) : resolved) as Record<
+        string,
+        unknown
+      >;
+    };
+
+    return ConfigModule.forRoot({
+      isGlobal: true,
+      ...(this.activeProfile && {
+        envFilePath: getProfileEnvFilePaths(this.activeProfile),
+      }),
+      // Os segredos dos provedores entram no ConfigService pelo `load`, e não pela
+      // configuração validada, que o ConfigModule copia para `process.env`.
+      ...(secretsManager && { load: [() => secretsManager.getConfig()] }),
+      validate: (config) => {
+        if (!secretsManager) return validate(config);
+
+        secretsManager.setValidator((secrets) =>
+          validate({ ...config, ...secrets }),
+        );
+        const validated = secretsManager.validate();
+        const secretKeys = Object.keys(secretsManager.getConfig());
+        return Object.fromEntries(
+          Object.entries(validated).filter(
+            ([key]) => !secretKeys.includes(key),
+          ),
+        );
+      },
+    });
+  }
+
   /**
    * Configura e registra automaticamente o TypeOrmModule (Estilo "Starter").
    * @param options Opções para o "Starter" de TypeORM.
    */
   public withTypeOrm(options: TypeOrmStarterOptions = {}): this {
     const starter = createTypeOrmStarter(options);
+    this.starters.push('TypeORM');
 
     this.featureModules.push(starter.module);
 
@@ -473,6 +1095,7 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
    */
   public withMongoose(options: MongooseStarterOptions = {}): this {
     const starter = createMongooseStarter(options);
+    this.starters.push('Mongoose');
 
     this.featureModules.push(starter.module);
 
@@ -488,12 +1111,76 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
    */
   public withCaching(options: CachingStarterOptions = {}): this {
     const cacheDynamicModule = createCachingStarter(options);
+    this.starters.push('Cache');
 
     this.featureModules.push(cacheDynamicModule);
 
     return this;
   }
 
+  /**
+   * Conecta um transporte de microservice (TCP, Redis...) à aplicação HTTP (aplicação híbrida).
+   * Pode ser chamado várias vezes. Os microservices são iniciados antes do `listen` HTTP.
+   * Requer o pacote `@nestjs/microservices`.
+   * @param options As opções do microservice (ex: `{ transport: Transport.TCP, options: { port: 3001 } }`).
+   * @param hybridOptions Opções da aplicação híbrida. Por padrão, herda pipes, filtros,
+   * guards e interceptors globais da aplicação HTTP (`inheritAppConfig: true`).
+   */
+  public withMicroservice(
+    options: MicroserviceOptions,
+    hybridOptions: NestHybridApplicationOptions = { inheritAppConfig: true },
+  ): this {
+    this.microservices.push({ options, hybridOptions });
+    return this;
+  }
+
+  /**
+   * Habilita o modo cluster: o `bootstrap` passa a criar workers com o módulo `cluster`
+   * do Node, cada um executando a função de configuração completa e iniciando a aplicação.
+   * O primary reinicia workers que encerrarem inesperadamente, encerra-se após um crash loop
+   * e repassa SIGTERM/SIGINT aos workers (use com `.withGracefulShutdown`).
+   * Não tem efeito em `createTestingApp`.
+   * @param options Quantidade de workers, política de reinício e timeout do desligamento.
+   */
+  public withCluster(options: ClusterOptions = {}): this {
+    resolveWorkerCount(options.workers);
+    this.clusterOptions = options;
+    return this;
+  }
+
+  /**
+   * Habilita HTTPS/TLS. A chave, o certificado e a CA são lidos na inicialização,
+   * a partir de arquivos ou de variáveis de ambiente, e repassados ao `NestFactory.create`
+   * (Express) ou ao `FastifyAdapter`.
+   * @param options Origem dos certificados, mTLS, redirecionamento HTTP → HTTPS opcional e,
+   * com Fastify, as opções do adaptador.
+   */
+  public withHttps(options: HttpsCertificateOptions): this {
+    this.httpsCertificateOptions = options;
+
+    if (options.redirectHttpPort !== undefined) {
+      this.withPlugin(
+        new HttpsRedirectPlugin(options.redirectHttpPort, {
+          host: options.redirectHost,
+          allowedHosts: options.redirectAllowedHosts,
+        }),
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Emite, após o `listen`, um relatório da inicialização com as fases e suas durações,
+   * starters, plugins (em ordem de execução), pipes, guards, filtros e interceptors globais,
+   * versionamento, prefixo e todas as rotas mapeadas.
+   * @param options Formato do relatório (`table` ou `json`) e arquivo de saída opcional.
+   */
+  public withStartupReport(options: StartupReportOptions = {}): this {
+    this.startupReportOptions = options;
+    return this;
+  }
+
   /**
    * Retorna a instância da aplicação NestJS (INestApplication) após a inicialização.
    * @throws Error se a aplicação ainda não foi inicializada.
@@ -528,40 +1215,225 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
 
   /**
    * Adiciona um ResponseMapper global para padronizar respostas.
-   * @param mapper
+   * Arquivos e streams, respostas escritas com `@Res()`, SSE, redirecionamentos e rotas
+   * com `@RawResponse()` não são mapeados.
+   * @param mapper Recebe os dados, o contexto de execução e o status/timestamp da resposta.
+   * @param options Um predicado `skip` para manter outras respostas sem mapeamento.
    */
-  public withResponseMapper<T>(mapper: ResponseMapper<T>): this {
-    this.globalInterceptors.push(new ResponsePatternInterceptor(mapper));
+  public withResponseMapper<T>(
+    mapper: ResponseMapper<T>,
+    options: ResponseMapperOptions = {},
+  ): this {
+    this.globalInterceptors.push(
+      new ResponsePatternInterceptor(mapper, options),
+    );
+    if (options.swaggerEnvelope) {
+      this.swaggerEnvelope = options.swaggerEnvelope;
+    }
 
     return this;
   }
 
-  private async listen(): Promise<void> {
-    this.logger.log('Criando a instância da aplicação NestJS...');
+  /**
+   * Monta o módulo raiz dinâmico com o módulo da aplicação, os módulos de features,
+   * os componentes descobertos e os providers globais.
+   * Executa o hook `configureModule` dos plugins antes de criar o módulo.
+   */
+  private async createRootModule(): Promise<Type> {
+    const sortedPlugins = sortPlugins(this.plugins);
+    this.plugins.splice(0, this.plugins.length, ...sortedPlugins);
+
+    if (this.plugins.length > 0) {
+      this.logger.log(
+        `Ordem de execução dos plugins: ${this.plugins.map(getPluginName).join(' → ')}`,
+      );
+    }
 
-    const rootImports: AnyModule[] = [this.module, ...this.featureModules];
+    await this.secretsManager?.load();
+
+    const context: AppInitializerPluginContext = {
+      initializer: this,
+      rootModule: {
+        imports: [
+          ...(this.configSchema ||
+          this.secretFilesOptions ||
+          this.secretsManager
+            ? [this.createConfigModule()]
+            : []),
+          ...(this.secretsManager
+            ? [SecretsModule.forRoot(this.secretsManager)]
+            : []),
+          ...(this.gracefulShutdownOptions ? [ReadinessModule] : []),
+          this.module,
+          ...this.featureModules,
+          ...this.createObservabilityModules(),
+        ],
+        providers: [
+          ...(this.autoDiscoveredComponents?.providers ?? []),
+          ...this.globalProviders,
+        ],
+        controllers: [
+          ...(this.autoDiscoveredComponents?.controllers ?? []),
+          ...this.factoryGeneratedControllers,
+        ],
+      },
+      port: this.port,
+      globalPrefix: this.globalPrefix,
+      versioningOptions: this.versioningOptions,
+      swaggerOptions: this.swaggerOptions,
+      structuredLogging: this.structuredLoggingOptions,
+    };
+    this.pluginContext = context;
 
-    const allProviders: Provider[] = [
-      ...(this.autoDiscoveredComponents?.providers ?? []),
-      ...this.globalProviders,
-    ];
+    await this.runPluginHook('configureModule');
 
-    const allControllers = [
-      ...(this.autoDiscoveredComponents?.controllers ?? []),
-      ...this.factoryGeneratedControllers,
-    ];
+    const onShutdown = async (signal?: string) => {
+      // Sem isso, os handlers dos sinais manteriam a aplicação encerrada na memória.
+      this.removeShutdownHandlers?.();
+      await this.managementApp?.close();
+      await this.runPluginHook('onShutdown', signal);
+    };
 
     @Module({
-      imports: rootImports,
-      controllers: allControllers,
-      providers: allProviders,
+      imports: context.rootModule.imports,
+      controllers: context.rootModule.controllers,
+      providers: context.rootModule.providers,
     })
-    class DynamicRootModule {}
+    class DynamicRootModule implements OnApplicationShutdown {
+      async onApplicationShutdown(signal?: string): Promise<void> {
+        await onShutdown(signal);
+      }
+    }
 
-    this.app = this.adapter
-      ? await NestFactory.create<T>(DynamicRootModule, this.adapter)
-      : await NestFactory.create<T>(DynamicRootModule);
+    return DynamicRootModule;
+  }
+
+  /**
+   * Indica se as rotas de observabilidade são servidas pelo servidor de gerenciamento.
+   */
+  private usesManagementServer(): boolean {
+    return !!this.managementOptions && !this.isTestingApp;
+  }
+
+  /**
+   * Retorna os módulos de health check e métricas da aplicação pública.
+   * Com o servidor de gerenciamento, o health check é movido para ele e o MetricsModule
+   * mantém apenas o registry e o interceptor (sem o endpoint /metrics).
+   */
+  private createObservabilityModules(): DynamicModule[] {
+    const management = this.usesManagementServer();
+
+    return [
+      ...(this.healthCheckOptions && !management
+        ? [TerminusHealthCheckModule.forRoot(this.healthCheckOptions)]
+        : []),
+      ...(this.metricsEnabled
+        ? [MetricsModule.forRoot({ controller: !management })]
+        : []),
+    ];
+  }
+
+  /**
+   * Cria e inicia o servidor de gerenciamento com o health check, o endpoint de métricas
+   * (compartilhando o registry da aplicação pública), o Swagger UI e os módulos administrativos.
+   */
+  private async startManagementServer(
+    options: ManagementServerOptions,
+  ): Promise<string> {
+    const imports: AnyModule[] = [...(options.modules ?? [])];
+    const controllers: Type[] = [];
+    const sharedTokens: InjectionToken[] = [];
+
+    if (this.healthCheckOptions) {
+      imports.push(TerminusHealthCheckModule.forRoot(this.healthCheckOptions));
+      if (this.healthCheckOptions.database) sharedTokens.push(DataSource);
+    }
+
+    if (this.metricsEnabled) {
+      controllers.push(MetricsController);
+      sharedTokens.push(METRICS_REGISTRY);
+    }
+
+    if (this.gracefulShutdownOptions) sharedTokens.push(ReadinessState);
+
+    const ManagementRootModule = createManagementModule(this.app, {
+      imports,
+      controllers,
+      sharedTokens,
+    });
+
+    const adapter = options.adapter ?? (await this.createManagementAdapter());
+    const managementApp = adapter
+      ? await NestFactory.create(ManagementRootModule, adapter)
+      : await NestFactory.create(ManagementRootModule);
+    this.managementApp = managementApp;
+
+    if (options.prefix) managementApp.setGlobalPrefix(options.prefix);
+
+    if (this.swaggerOptions && this.swaggerDocument) {
+      SwaggerModule.setup(
+        this.swaggerOptions.path ?? 'docs',
+        managementApp,
+        this.swaggerDocument,
+        this.swaggerOptions.customOptions,
+      );
+    }
+
+    await managementApp.listen(options.port);
+    return managementApp.getUrl();
+  }
+
+  /**
+   * Usa a mesma plataforma da aplicação pública no servidor de gerenciamento.
+   */
+  private async createManagementAdapter(): Promise<
+    AbstractHttpAdapter | undefined
+  > {
+    if (getHttpPlatform(this.app, 'withManagementServer') !== 'fastify') {
+      return undefined;
+    }
+
+    const { FastifyAdapter } = await import('@nestjs/platform-fastify');
+    return new FastifyAdapter();
+  }
+
+  /**
+   * Executa um hook de ciclo de vida em todos os plugins que o implementam,
+   * na ordem de execução resolvida.
+   * @param hook O nome do hook a ser executado.
+   * @param signal O sinal de encerramento (apenas para `onShutdown`).
+   */
+  private async runPluginHook(
+    hook: PluginLifecycleHook,
+    signal?: string,
+  ): Promise<void> {
+    const context = this.pluginContext;
+    if (!context) return;
+
+    for (const plugin of this.plugins) {
+      const handler = plugin[hook];
+      if (!handler) continue;
+
+      this.logger.log(
+        `Executando o hook '${hook}' do plugin: ${getPluginName(plugin)}`,
+      );
+      await handler.call(plugin, context, signal);
+    }
+  }
 
+  /**
+   * Registra a aplicação criada no contexto dos plugins e executa o hook `afterCreate`.
+   */
+  private async onAppCreated(): Promise<void> {
+    if (this.pluginContext) this.pluginContext.app = this.app;
+    await this.runPluginHook('afterCreate');
+  }
+
+  /**
+   * Aplica as configurações do builder (prefixo, CORS, versionamento, middlewares,
+   * plugins, interceptors e Swagger) na instância já criada da aplicação.
+   */
+  private async configureApp(): Promise<void> {
     if (this.globalPrefix) this.app.setGlobalPrefix(this.globalPrefix);
     if (this.corsOptions) this.app.enableCors(this.corsOptions);
 
@@ -570,11 +1442,13 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
     }
 
     for (const setup of this.setupFunctions) {
-      setup(this.app);
+      await setup(this.app);
     }
 
     for (const plugin of this.plugins) {
-      this.logger.log(`Aplicando o plugin: ${plugin.constructor.name}`);
+      if (!plugin.apply) continue;
+
+      this.logger.log(`Aplicando o plugin: ${getPluginName(plugin)}`);
       await plugin.apply(this.app);
     }
 
@@ -593,11 +1467,28 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
       }
 
       const config = documentBuilder.build();
+      const { documentOptions } = this.swaggerOptions;
       const document = SwaggerModule.createDocument(
         this.app,
         config,
-        this.swaggerOptions.documentOptions,
+        this.swaggerEnvelope
+          ? {
+              ...documentOptions,
+              extraModels: [
+                ...(documentOptions?.extraModels ?? []),
+                this.swaggerEnvelope,
+              ],
+            }
+          : documentOptions,
       );
+      if (this.swaggerEnvelope) {
+        applySwaggerEnvelope(document, this.swaggerEnvelope);
+      }
+
+      if (this.usesManagementServer()) {
+        this.swaggerDocument = document;
+        return;
+      }
 
       SwaggerModule.setup(
         this.swaggerOptions.path ?? 'docs',
@@ -606,16 +1497,228 @@ export class AppInitializer<T extends INestApplication = INestApplication> {
         this.swaggerOptions.customOptions,
       );
     }
+  }
+
+  /**
+   * Cria a aplicação a partir de um TestingModule do `@nestjs/testing`,
+   * aplicando os overrides de providers, e a inicializa sem abrir porta.
+   */
+  private async createTestingApplication(
+    options: TestingAppOptions,
+  ): Promise<T> {
+    const { Test } = await import('@nestjs/testing');
+    this.isTestingApp = true;
+
+    const builder = Test.createTestingModule({
+      imports: [await this.createRootModule()],
+    });
+
+    for (const override of options.overrides ?? []) {
+      const overrideBy = builder.overrideProvider(override.provide);
+
+      if ('useValue' in override) {
+        overrideBy.useValue(override.useValue);
+      } else if ('useClass' in override) {
+        overrideBy.useClass(override.useClass);
+      } else {
+        overrideBy.useFactory({
+          factory: override.useFactory,
+          inject: override.inject,
+        });
+      }
+    }
+
+    await this.runPluginHook('beforeCreate');
+    const moduleRef = await builder.compile();
+
+    this.app = this.adapter
+      ? moduleRef.createNestApplication<T>(this.adapter)
+      : moduleRef.createNestApplication<T>();
+
+    await this.onAppCreated();
+    await this.configureApp();
+    await this.app.init();
+
+    return this.app;
+  }
+
+  /**
+   * Executa uma fase da inicialização e registra a sua duração para o relatório.
+   * @param phase O nome da fase.
+   * @param fn A função que executa a fase.
+   */
+  private async measurePhase<R>(
+    phase: string,
+    fn: () => Promise<R>,
+  ): Promise<R> {
+    const startedAt = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.phaseTimings.push({
+        phase,
+        durationMs: performance.now() - startedAt,
+      });
+    }
+  }
+
+  /**
+   * Monta e emite o relatório de inicialização no log (tabela ou JSON)
+   * e, se configurado, grava o relatório em um arquivo JSON.
+   */
+  private emitStartupReport(
+    options: StartupReportOptions,
+    url: string,
+    totalDurationMs: number,
+  ): void {
+    const report: StartupReport = {
+      url,
+      profile: this.activeProfile,
+      starters: [...this.starters],
+      plugins: this.plugins.map(getPluginName),
+      microservices: [...this.microserviceDescriptions],
+      globalPipes: collectGlobalComponents(this.app, APP_PIPE),
+      globalGuards: collectGlobalComponents(this.app, APP_GUARD),
+      globalFilters: collectGlobalComponents(this.app, APP_FILTER),
+      globalInterceptors: [
+        ...collectGlobalComponents(this.app, APP_INTERCEPTOR),
+        ...this.globalInterceptors.map((i) => i.constructor.name),
+      ],
+      globalPrefix: this.globalPrefix,
+      versioning: describeVersioning(this.versioningOptions),
+      routes: collectRoutes(
+        this.app,
+        this.globalPrefix,
+        this.versioningOptions,
+      ),
+      phases: [...this.phaseTimings],
+      totalDurationMs,
+    };
+
+    this.logger.log(
+      options.format === 'json'
+        ? JSON.stringify(report)
+        : `\n${formatStartupReport(report)}`,
+    );
+
+    if (options.outputFile) {
+      const outputFile = resolve(options.outputFile);
+      writeFileSync(outputFile, JSON.stringify(report, null, 2));
+      this.logger.log(`Relatório de inicialização gravado em: ${outputFile}`);
+    }
+  }
+
+  /**
+   * Conecta os microservices registrados via `.withMicroservice` e os inicia.
+   */
+  private async startMicroservices(): Promise<void> {
+    const { Transport } = await import('@nestjs/microservices');
 
-    await this.app.listen(this.port);
+    for (const { options, hybridOptions } of this.microservices) {
+      this.app.connectMicroservice(options, hybridOptions);
+
+      const description = describeTransport(options, Transport);
+      this.microserviceDescriptions.push(description);
+      this.logger.log(`🔌 Microservice conectado: ${description}`);
+    }
+
+    await this.app.startAllMicroservices();
+  }
+
+  /**
+   * Retorna o adaptador HTTP a ser usado com HTTPS. O FastifyAdapter cria o servidor
+   * no construtor e não guarda as opções recebidas, então é recriado com as
+   * `fastifyOptions` de `.withHttps` (ou o `initialConfig` do Fastify) e as `httpsOptions`.
+   */
+  private async createHttpsAdapter(
+    httpsOptions: HttpsOptions,
+  ): Promise<AbstractHttpAdapter | undefined> {
+    if (this.adapter?.getType() !== 'fastify') return this.adapter;
+
+    const { FastifyAdapter } = await import('@nestjs/platform-fastify');
+    const fastifyOptions =
+      this.httpsCertificateOptions?.fastifyOptions ??
+      this.adapter.getInstance<FastifyInstance>().initialConfig;
+
+    return new FastifyAdapter({ ...fastifyOptions, https: httpsOptions });
+  }
+
+  private async listen(): Promise<void> {
+    const startedAt = performance.now();
+    this.logger.log('Criando a instância da aplicação NestJS...');
+
+    if (this.activeProfile) {
+      this.logger.log(`Perfil ativo: ${this.activeProfile}`);
+    }
+
+    const DynamicRootModule = await this.measurePhase('module', () =>
+      this.createRootModule(),
+    );
+
+    await this.measurePhase('create', async () => {
+      await this.runPluginHook('beforeCreate');
+
+      const httpsOptions =
+        this.httpsCertificateOptions &&
+        loadHttpsOptions(this.httpsCertificateOptions);
+      const adapter = httpsOptions
+        ? await this.createHttpsAdapter(httpsOptions)
+        : this.adapter;
+      const appOptions: NestApplicationOptions = {
+        ...(httpsOptions && { httpsOptions }),
+        ...(this.structuredLogger && { bufferLogs: true }),
+      };
+
+      this.app = adapter
+        ? await NestFactory.create<T>(DynamicRootModule, adapter, appOptions)
+        : await NestFactory.create<T>(DynamicRootModule, appOptions);
+
+      if (this.structuredLogger) {
+        this.app.useLogger(this.structuredLogger);
+      }
+
+      await this.onAppCreated();
+    });
+
+    await this.measurePhase('configure', () => this.configureApp());
+
+    if (this.microservices.length > 0) {
+      await this.measurePhase('microservices', () => this.startMicroservices());
+    }
+
+    await this.measurePhase('listen', async () => {
+      await this.runPluginHook('beforeListen');
+      await this.app.listen(this.port);
+    });
 
     const appUrl = await this.app.getUrl();
     this.logger.log(`🚀 Aplicação rodando em: ${appUrl}`);
 
+    let docsUrl = appUrl;
+    if (this.managementOptions) {
+      const managementOptions = this.managementOptions;
+      const managementUrl = await this.measurePhase('management', () =>
+        this.startManagementServer(managementOptions),
+      );
+      docsUrl = `${managementUrl}${managementOptions.prefix ?? ''}`;
+      this.logger.log(`🛠️ Servidor de gerenciamento rodando em: ${docsUrl}`);
+    }
+
     if (this.swaggerOptions) {
       const swaggerPath = this.swaggerOptions.path ?? 'docs';
       this.logger.log(
-        `📄 Documentação Swagger disponível em: ${appUrl}/${swaggerPath}`,
+        `📄 Documentação Swagger disponível em: ${docsUrl}/${swaggerPath}`,
+      );
+    }
+
+    if (this.pluginContext) this.pluginContext.url = appUrl;
+    await this.runPluginHook('afterListen');
+
+    if (this.startupReportOptions) {
+      this.emitStartupReport(
+        this.startupReportOptions,
+        appUrl,
+        performance.now() - startedAt,
       );
     }
   }
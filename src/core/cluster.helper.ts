@@ -0,0 +1,209 @@
+import cluster, { Cluster, Worker } from 'cluster';
+import * as os from 'os';
+
+import { LoggerService } from '@nestjs/common';
+
+/**
+ * Opções do modo cluster do AppInitializer.
+ */
+export interface ClusterOptions {
+  /**
+   * Quantidade de workers. `auto` usa um worker por núcleo disponível.
+   * (Padrão: 'auto')
+   */
+  workers?: 'auto' | number;
+  /**
+   * Reinicia automaticamente os workers que encerrarem inesperadamente.
+   * (Padrão: true)
+   */
+  restartOnCrash?: boolean;
+  /**
+   * Quantidade máxima de reinícios dentro de `restartWindowMs`. Acima disso,
+   * o crash loop é registrado e o primary é encerrado com código 1.
+   * (Padrão: 5)
+   */
+  maxRestarts?: number;
+  /**
+   * Janela de tempo, em milissegundos, usada na contagem de reinícios.
+   * (Padrão: 60000)
+   */
+  restartWindowMs?: number;
+  /**
+   * Tempo máximo, em milissegundos, para os workers encerrarem no desligamento
+   * antes de serem finalizados com SIGKILL.
+   * (Padrão: 10000)
+   */
+  shutdownTimeoutMs?: number;
+}
+
+/**
+ * Dependências do primary, injetáveis para testes.
+ */
+export interface ClusterPrimaryDeps {
+  cluster: Pick<Cluster, 'fork' | 'on' | 'workers'>;
+  process: Pick<NodeJS.Process, 'once' | 'exit'>;
+  cpuCount: number;
+  now: () => number;
+}
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+/**
+ * Indica se o processo atual é o primary do cluster.
+ */
+export function isClusterPrimary(): boolean {
+  return cluster.isPrimary;
+}
+
+/**
+ * A quantidade de núcleos disponíveis. `os.availableParallelism()` só existe a partir do
+ * Node 18.14; nas versões anteriores, usa `os.cpus()`.
+ * @param osModule O módulo `os` (injetável para testes).
+ */
+export function getAvailableParallelism(
+  osModule: Pick<typeof os, 'cpus'> & {
+    availableParallelism?: () => number;
+  } = os,
+): number {
+  return osModule.availableParallelism
+    ? osModule.availableParallelism()
+    : osModule.cpus().length;
+}
+
+/**
+ * Resolve a quantidade de workers a partir das opções.
+ * @param workers A quantidade de workers ou `auto`.
+ * @param cpuCount A quantidade de núcleos disponíveis.
+ * @throws Error se a quantidade não for um inteiro positivo.
+ */
+export function resolveWorkerCount(
+  workers: ClusterOptions['workers'] = 'auto',
+  cpuCount: number = getAvailableParallelism(),
+): number {
+  if (workers === 'auto') return Math.max(1, cpuCount);
+
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new Error(
+      `[Cluster] Quantidade de workers inválida: ${workers}. Use 'auto' ou um inteiro positivo.`,
+    );
+  }
+
+  return workers;
+}
+
+/**
+ * Inicia o primary do cluster: cria os workers (que executam o bootstrap completo),
+ * reinicia os que encerrarem inesperadamente, detecta crash loops e coordena
+ * o desligamento gracioso repassando SIGTERM/SIGINT a todos os workers.
+ * @param options As opções do cluster.
+ * @param logger O logger usado pelo primary.
+ * @param deps Dependências injetáveis (módulo cluster, processo, núcleos e relógio).
+ */
+export function startClusterPrimary(
+  options: ClusterOptions,
+  logger: LoggerService,
+  deps: Partial<ClusterPrimaryDeps> = {},
+): void {
+  const {
+    cluster: clusterModule = cluster,
+    process: processRef = process,
+    cpuCount = getAvailableParallelism(),
+    now = Date.now,
+  } = deps;
+  const {
+    restartOnCrash = true,
+    maxRestarts = 5,
+    restartWindowMs = 60_000,
+    shutdownTimeoutMs = 10_000,
+  } = options;
+
+  const workerCount = resolveWorkerCount(options.workers, cpuCount);
+  const restarts: number[] = [];
+  let shuttingDown = false;
+  let exitCode = 0;
+
+  const aliveWorkers = () =>
+    Object.values(clusterModule.workers ?? {}).filter(
+      (worker): worker is Worker => !!worker && !worker.isDead(),
+    );
+
+  const shutdown = (signal: NodeJS.Signals, code: number) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    exitCode = code;
+
+    const workers = aliveWorkers();
+    logger.log(
+      `[Cluster] Encerrando ${workers.length} worker(s) com ${signal}...`,
+    );
+
+    if (workers.length === 0) {
+      processRef.exit(exitCode);
+      return;
+    }
+
+    for (const worker of workers) worker.process.kill(signal);
+
+    setTimeout(() => {
+      const remaining = aliveWorkers();
+      if (remaining.length === 0) return;
+
+      logger.warn(
+        `[Cluster] ${remaining.length} worker(s) não encerraram em ${shutdownTimeoutMs}ms. Finalizando com SIGKILL.`,
+      );
+      for (const worker of remaining) worker.process.kill('SIGKILL');
+    }, shutdownTimeoutMs).unref();
+  };
+
+  clusterModule.on(
+    'exit',
+    (worker: Worker, code: number, signal: string | null) => {
+      if (shuttingDown) {
+        if (aliveWorkers().length === 0) {
+          logger.log('[Cluster] Todos os workers foram encerrados.');
+          processRef.exit(exitCode);
+        }
+        return;
+      }
+
+      if (code === 0 || worker.exitedAfterDisconnect) {
+        logger.log(`[Cluster] Worker ${worker.process.pid} encerrado.`);
+        return;
+      }
+
+      logger.error(
+        `[Cluster] Worker ${worker.process.pid} encerrou inesperadamente (código: ${code}, sinal: ${signal ?? '-'}).`,
+      );
+
+      if (!restartOnCrash) return;
+
+      const currentTime = now();
+      restarts.push(currentTime);
+      while (restarts.length && currentTime - restarts[0] > restartWindowMs) {
+        restarts.shift();
+      }
+
+      if (restarts.length > maxRestarts) {
+        logger.error(
+          `[Cluster] Crash loop detectado: mais de ${maxRestarts} reinícios em ${restartWindowMs}ms. Encerrando o primary.`,
+        );
+        shutdown('SIGTERM', 1);
+        return;
+      }
+
+      const replacement = clusterModule.fork();
+      logger.log(
+        `[Cluster] Worker ${replacement.process.pid} iniciado em substituição (${restarts.length}/${maxRestarts}).`,
+      );
+    },
+  );
+
+  for (const signal of SHUTDOWN_SIGNALS) {
+    processRef.once(signal, () => shutdown(signal, 0));
+  }
+
+  logger.log(`[Cluster] Iniciando ${workerCount} worker(s)...`);
+  for (let i = 0; i < workerCount; i++) {
+    clusterModule.fork();
+  }
+}
@@ -0,0 +1,270 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+import { Document, isMap, isScalar, LineCounter, parseDocument } from 'yaml';
+import { z } from 'zod';
+
+/**
+ * Nomes de arquivo procurados, em ordem, na busca automática do arquivo de configuração.
+ */
+export const CONFIG_FILE_NAMES = [
+  'nest-initializer.config.json',
+  'nest-initializer.config.yaml',
+  'nest-initializer.config.yml',
+  'nest-initializer.config.js',
+  'nest-initializer.config.mjs',
+  'nest-initializer.config.cjs',
+];
+
+/**
+ * Extensões carregadas como módulo JavaScript (CommonJS ou ESM).
+ */
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+const versionSchema = z.union([z.string(), z.array(z.string())]);
+
+const configFileSchema = z.strictObject({
+  port: z.number().int().min(0).max(65535).optional(),
+  globalPrefix: z.string().optional(),
+  cors: z.union([z.boolean(), z.record(z.string(), z.unknown())]).optional(),
+  versioning: z
+    .discriminatedUnion('type', [
+      z.strictObject({
+        type: z.literal('uri'),
+        prefix: z.string().optional(),
+        defaultVersion: versionSchema.optional(),
+      }),
+      z.strictObject({
+        type: z.literal('header'),
+        header: z.string(),
+        defaultVersion: versionSchema.optional(),
+      }),
+      z.strictObject({
+        type: z.literal('media-type'),
+        key: z.string(),
+        defaultVersion: versionSchema.optional(),
+      }),
+    ])
+    .optional(),
+  swagger: z
+    .strictObject({
+      title: z.string(),
+      description: z.string(),
+      version: z.string(),
+      path: z.string().optional(),
+      tags: z
+        .array(
+          z.strictObject({
+            name: z.string(),
+            description: z.string().optional(),
+          }),
+        )
+        .optional(),
+      advancedUi: z.boolean().optional(),
+    })
+    .optional(),
+  healthCheck: z
+    .strictObject({
+      database: z.boolean().optional(),
+      memory: z
+        .strictObject({
+          heapThreshold: z.number().positive().optional(),
+          rssThreshold: z.number().positive().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  metrics: z.boolean().optional(),
+  validationPipe: z
+    .union([z.boolean(), z.record(z.string(), z.unknown())])
+    .optional(),
+  classSerializer: z.boolean().optional(),
+  gracefulShutdown: z.boolean().optional(),
+  helmet: z.boolean().optional(),
+  compression: z.boolean().optional(),
+  starters: z
+    .strictObject({
+      typeorm: z
+        .strictObject({
+          autoLoadEntities: z.boolean().optional(),
+          runMigrationsOnStartup: z.boolean().optional(),
+          databaseUrlEnvKey: z.string().optional(),
+          typeOrmOptions: z.record(z.string(), z.unknown()).optional(),
+        })
+        .optional(),
+      mongoose: z
+        .strictObject({
+          uriEnvKey: z.string().optional(),
+          mongooseOptions: z.record(z.string(), z.unknown()).optional(),
+        })
+        .optional(),
+      caching: z
+        .strictObject({
+          redisUrlEnvKey: z.string().optional(),
+          defaultTtlInSeconds: z.number().positive().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Estrutura do arquivo de configuração declarativo (`nest-initializer.config.*`).
+ */
+export type InitializerConfigFile = z.infer<typeof configFileSchema>;
+
+type ImportFn = (specifier: string) => Promise<any>;
+
+/**
+ * `import()` nativo. Criado com `new Function` porque o build CommonJS converteria um
+ * `import()` literal em `require()`, que não carrega módulos ESM.
+ */
+// eslint-disable-next-line @typescript-eslint/no-implied-eval
+const nativeImport = new Function(
+  'specifier',
+  'return import(specifier)',
+) as ImportFn;
+
+type PathSegment = string | number;
+
+/**
+ * Procura um arquivo de configuração no diretório informado.
+ * @param cwd O diretório da busca (padrão: process.cwd()).
+ * @returns O caminho absoluto do primeiro arquivo encontrado, ou `undefined`.
+ */
+export function findConfigFile(
+  cwd: string = process.cwd(),
+): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(cwd, name)).find((path) =>
+    existsSync(path),
+  );
+}
+
+/**
+ * Carrega e valida um arquivo de configuração JSON, YAML ou JavaScript (.js/.mjs/.cjs,
+ * carregado com `import()`, o que inclui configurações ESM).
+ * Erros de validação (incluindo chaves desconhecidas) são reportados com
+ * o caminho do arquivo e a linha correspondente (JSON e YAML).
+ * @param filePath O caminho do arquivo.
+ * @param importFn A função usada para importar arquivos JavaScript (padrão: `import()` nativo).
+ * @returns A configuração validada.
+ * @throws Error se o arquivo não existir, for TypeScript, não puder ser lido ou for inválido.
+ */
+export async function loadConfigFile(
+  filePath: string,
+  importFn: ImportFn = nativeImport,
+): Promise<InitializerConfigFile> {
+  const absolutePath = resolve(filePath);
+
+  if (!existsSync(absolutePath)) {
+    throw new Error(
+      `[Arquivo de Configuração] Arquivo não encontrado: ${absolutePath}`,
+    );
+  }
+
+  const extension = extname(absolutePath);
+  let data: unknown;
+  let document: Document | undefined;
+  const lineCounter = new LineCounter();
+
+  if (['.ts', '.mts', '.cts'].includes(extension)) {
+    throw new Error(
+      `[Arquivo de Configuração] Arquivos TypeScript não são suportados: ${absolutePath}. Use JSON, YAML ou JavaScript (.js, .mjs, .cjs).`,
+    );
+  }
+
+  if (MODULE_EXTENSIONS.includes(extension)) {
+    const exports = await importFn(pathToFileURL(absolutePath).href);
+    data = exports?.default ?? exports;
+  } else {
+    document = parseDocument(readFileSync(absolutePath, 'utf8'), {
+      lineCounter,
+    });
+
+    if (document.errors.length > 0) {
+      const [error] = document.errors;
+      const { line, col } = lineCounter.linePos(error.pos[0]);
+      throw new Error(
+        `[Arquivo de Configuração] Erro de sintaxe em ${absolutePath}:${line}:${col}: ${error.message}`,
+      );
+    }
+
+    data = document.toJS();
+  }
+
+  const result = configFileSchema.safeParse(data ?? {});
+
+  if (!result.success) {
+    const problems = result.error.issues.flatMap((issue) =>
+      describeIssue(issue, absolutePath, document, lineCounter),
+    );
+
+    throw new Error(
+      `[Arquivo de Configuração] Arquivo inválido: ${absolutePath}\n${problems.join('\n')}`,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Converte um erro do Zod em linhas legíveis no formato `arquivo:linha:coluna mensagem`.
+ */
+function describeIssue(
+  issue: z.core.$ZodIssue,
+  filePath: string,
+  document: Document | undefined,
+  lineCounter: LineCounter,
+): string[] {
+  const path = issue.path.map((segment) =>
+    typeof segment === 'symbol' ? String(segment) : segment,
+  );
+
+  const locate = (targetPath: PathSegment[], key?: string): string => {
+    const offset = document ? findOffset(document, targetPath, key) : undefined;
+    if (offset === undefined) return filePath;
+
+    const { line, col } = lineCounter.linePos(offset);
+    return `${filePath}:${line}:${col}`;
+  };
+
+  if (issue.code === 'unrecognized_keys') {
+    return issue.keys.map((key) => {
+      const keyPath = [...path, key].join('.');
+      return `  - ${locate(path, key)} chave desconhecida "${keyPath}"`;
+    });
+  }
+
+  const label = path.length > 0 ? path.join('.') : '(raiz)';
+  return [`  - ${locate(path)} ${label}: ${issue.message}`];
+}
+
+/**
+ * Encontra a posição (offset) no documento de um valor ou de uma chave.
+ * Quando o valor não existe (ex: chave obrigatória ausente), usa a posição do nó pai.
+ */
+function findOffset(
+  document: Document,
+  path: PathSegment[],
+  key?: string,
+): number | undefined {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const node: unknown =
+      depth === 0
+        ? document.contents
+        : document.getIn(path.slice(0, depth), true);
+
+    if (key !== undefined && depth === path.length && isMap(node)) {
+      const pair = node.items.find(
+        (item) => isScalar(item.key) && String(item.key.value) === key,
+      );
+      if (isScalar(pair?.key) && pair.key.range) return pair.key.range[0];
+    }
+
+    const range = (node as { range?: [number, number, number] } | null)?.range;
+    if (range) return range[0];
+  }
+
+  return undefined;
+}
@@ -0,0 +1,203 @@
+import { Server } from 'http';
+
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { INestApplication, LoggerService } from '@nestjs/common';
+import { getConnectionToken } from '@nestjs/mongoose';
+import type { Connection } from 'mongoose';
+import { DataSource } from 'typeorm';
+
+import { findProvider } from './provider.helper';
+import { ReadinessState } from '../features/readiness.module';
+
+/**
+ * Opções do graceful shutdown do AppInitializer.
+ */
+export interface GracefulShutdownOptions {
+  /**
+   * Tempo, em milissegundos, entre marcar a instância como não pronta e parar de aceitar
+   * conexões, para que o balanceador de carga a retire de circulação.
+   * (Padrão: 0)
+   */
+  preStopDelayMs?: number;
+  /**
+   * Tempo máximo, em milissegundos, para as requisições em andamento terminarem.
+   * Depois disso, as conexões restantes são encerradas.
+   * (Padrão: 10000)
+   */
+  drainTimeoutMs?: number;
+  /**
+   * Tempo máximo, em milissegundos, de todo o desligamento. Depois disso, o processo
+   * é finalizado com código 1.
+   * (Padrão: 30000)
+   */
+  timeoutMs?: number;
+  /**
+   * Sinais que iniciam o desligamento.
+   * (Padrão: ['SIGTERM', 'SIGINT'])
+   */
+  signals?: NodeJS.Signals[];
+}
+
+/**
+ * Dependências do graceful shutdown, injetáveis para testes.
+ */
+export interface GracefulShutdownDeps {
+  process: Pick<NodeJS.Process, 'once' | 'removeListener' | 'exit'>;
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const defaultDeps: GracefulShutdownDeps = {
+  process,
+  now: Date.now,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms).unref()),
+};
+
+/**
+ * Executa o desligamento gracioso da aplicação, registrando cada etapa com a sua duração:
+ * marca a instância como não pronta (health check responde 503), aguarda o pre-stop delay,
+ * para de aceitar conexões aguardando as requisições em andamento, encerra as conexões
+ * do TypeORM, do Mongoose e do Redis e, por fim, fecha a aplicação.
+ * @param app A instância da aplicação NestJS.
+ * @param signal O sinal que originou o desligamento.
+ * @param options As opções do graceful shutdown.
+ * @param logger O logger usado nas etapas.
+ * @param deps Dependências injetáveis (relógio e espera).
+ * @returns O código de saída do processo (1 se alguma etapa falhar).
+ */
+export async function runGracefulShutdown(
+  app: INestApplication,
+  signal: string,
+  options: GracefulShutdownOptions,
+  logger: LoggerService,
+  deps: Partial<GracefulShutdownDeps> = {},
+): Promise<number> {
+  const { now, sleep } = { ...defaultDeps, ...deps };
+  const { preStopDelayMs = 0, drainTimeoutMs = 10_000 } = options;
+  const startedAt = now();
+  let exitCode = 0;
+
+  const step = async (description: string, action: () => unknown) => {
+    const stepStartedAt = now();
+    try {
+      await action();
+      logger.log(`[Shutdown] ${description} (${now() - stepStartedAt}ms)`);
+    } catch (error) {
+      exitCode = 1;
+      logger.error(
+        `[Shutdown] Falha na etapa '${description}': ${(error as Error).message}`,
+      );
+    }
+  };
+
+  logger.log(
+    `[Shutdown] ${signal} recebido. Iniciando o desligamento gracioso...`,
+  );
+
+  const readiness = findProvider<ReadinessState>(app, ReadinessState);
+  if (readiness) {
+    await step('Instância marcada como não pronta', () =>
+      readiness.markNotReady(),
+    );
+  }
+
+  if (preStopDelayMs > 0) {
+    await step(`Pre-stop delay de ${preStopDelayMs}ms concluído`, () =>
+      sleep(preStopDelayMs),
+    );
+  }
+
+  await step(
+    'Servidor HTTP parou de aceitar conexões e foi drenado',
+    async () => {
+      const drained = await Promise.race([
+        app
+          .getHttpAdapter()
+          .close()
+          .then(() => true),
+        sleep(drainTimeoutMs).then(() => false),
+      ]);
+
+      if (!drained) {
+        logger.warn(
+          `[Shutdown] As requisições em andamento não terminaram em ${drainTimeoutMs}ms. Encerrando as conexões restantes.`,
+        );
+        (app.getHttpServer() as Server).closeAllConnections?.();
+      }
+    },
+  );
+
+  const dataSource = findProvider<DataSource>(app, DataSource);
+  if (dataSource?.isInitialized) {
+    await step('Conexão do TypeORM encerrada', () => dataSource.destroy());
+  }
+
+  const mongooseConnection = findProvider<Connection>(
+    app,
+    getConnectionToken(),
+  );
+  if (mongooseConnection) {
+    await step('Conexão do Mongoose encerrada', () =>
+      mongooseConnection.close(),
+    );
+  }
+
+  const cache = findProvider<{ disconnect?: () => Promise<unknown> }>(
+    app,
+    CACHE_MANAGER,
+  );
+  if (typeof cache?.disconnect === 'function') {
+    await step('Conexão do Redis (cache) encerrada', () => cache.disconnect!());
+  }
+
+  await step('Aplicação encerrada', () => app.close());
+
+  logger.log(
+    `[Shutdown] Desligamento concluído em ${now() - startedAt}ms (código de saída: ${exitCode}).`,
+  );
+  return exitCode;
+}
+
+/**
+ * Registra os handlers dos sinais de desligamento. No primeiro sinal, executa
+ * `runGracefulShutdown` e finaliza o processo. Os handlers são removidos em seguida,
+ * então um segundo sinal finaliza o processo imediatamente (comportamento padrão do Node).
+ * Se o desligamento exceder `timeoutMs`, o processo é finalizado com código 1.
+ * @param app A instância da aplicação NestJS.
+ * @param options As opções do graceful shutdown.
+ * @param logger O logger usado nas etapas.
+ * @param deps Dependências injetáveis (processo, relógio e espera).
+ * @returns Uma função que remove os handlers, chamada quando a aplicação é encerrada
+ * sem um sinal (ex: `app.close()` nos testes).
+ */
+export function registerGracefulShutdown(
+  app: INestApplication,
+  options: GracefulShutdownOptions,
+  logger: LoggerService,
+  deps: Partial<GracefulShutdownDeps> = {},
+): () => void {
+  const processRef = deps.process ?? defaultDeps.process;
+  const { signals = ['SIGTERM', 'SIGINT'], timeoutMs = 30_000 } = options;
+
+  const removeHandlers = () => {
+    for (const signal of signals) processRef.removeListener(signal, handler);
+  };
+
+  const handler = (signal: NodeJS.Signals) => {
+    removeHandlers();
+
+    setTimeout(() => {
+      logger.error(
+        `[Shutdown] O desligamento excedeu ${timeoutMs}ms. Finalizando o processo.`,
+      );
+      processRef.exit(1);
+    }, timeoutMs).unref();
+
+    void runGracefulShutdown(app, signal, options, logger, deps).then(
+      (exitCode) => processRef.exit(exitCode),
+    );
+  };
+
+  for (const signal of signals) processRef.once(signal, handler);
+  return removeHandlers;
+}
@@ -0,0 +1,108 @@
+import { INestApplication } from '@nestjs/common';
+import type { NestFastifyApplication } from '@nestjs/platform-fastify';
+
+/**
+ * Plataformas HTTP suportadas pelos middlewares do AppInitializer.
+ */
+export type HttpPlatform = 'express' | 'fastify';
+
+const SUPPORTED_PLATFORMS: HttpPlatform[] = ['express', 'fastify'];
+
+type RequireFn = (id: string) => any;
+
+/**
+ * Identifica a plataforma HTTP da aplicação a partir do adaptador ativo.
+ * @param app A instância da aplicação NestJS.
+ * @param feature O recurso que depende da plataforma (usado na mensagem de erro).
+ * @throws Error se o adaptador não for Express nem Fastify.
+ */
+export function getHttpPlatform(
+  app: INestApplication,
+  feature: string,
+): HttpPlatform {
+  const type = app.getHttpAdapter().getType();
+
+  if (!SUPPORTED_PLATFORMS.includes(type as HttpPlatform)) {
+    throw new Error(
+      `[Adaptador HTTP] O recurso '${feature}' não suporta o adaptador '${type}'. Adaptadores suportados: ${SUPPORTED_PLATFORMS.join(', ')}.`,
+    );
+  }
+
+  return type as HttpPlatform;
+}
+
+/**
+ * Carrega um plugin do Fastify (ex: `@fastify/helmet`) e o registra na aplicação.
+ * @param app A instância da aplicação NestJS (com FastifyAdapter).
+ * @param packageName O nome do pacote do plugin.
+ * @param feature O recurso que depende do plugin (usado na mensagem de erro).
+ * @param options As opções do plugin.
+ * @param requireFn A função 'require' usada para carregar o pacote (padrão: Node's require).
+ * @throws Error se o pacote não estiver instalado.
+ */
+export async function registerFastifyPlugin(
+  app: INestApplication,
+  packageName: string,
+  feature: string,
+  options: Record<string, unknown> = {},
+  requireFn: RequireFn = require,
+): Promise<void> {
+  let plugin: unknown;
+
+  try {
+    const exports = requireFn(packageName);
+    plugin = exports?.default ?? exports;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'MODULE_NOT_FOUND') {
+      throw error;
+    }
+    throw new Error(
+      `[Adaptador HTTP] O recurso '${feature}' com Fastify requer o pacote '${packageName}'. Instale-o com: npm install ${packageName}`,
+    );
+  }
+
+  await (app as unknown as NestFastifyApplication).register(
+    plugin as Parameters<NestFastifyApplication['register']>[0],
+    options,
+  );
+}
+
+/**
+ * Cria uma função que indica se a requisição atende a uma das rotas informadas,
+ * comparando o método e o caminho com os padrões de rota do Nest (`:param`,
+ * `*wildcard` e `{trecho opcional}`). Requisições HEAD atendem às rotas GET.
+ * As expressões são compiladas uma vez, na criação.
+ * @param routes As rotas, com o método HTTP (ou 'ALL') e o caminho completo.
+ */
+export function createRouteMatcher(
+  routes: { method: string; path: string }[],
+): (request: { method: string; path: string }) => boolean {
+  const compiled = routes.map(({ method, path }) => ({
+    method: method.toUpperCase(),
+    pattern: compileRoutePath(path),
+  }));
+
+  return (request) => {
+    const method = request.method.toUpperCase();
+
+    return compiled.some(
+      (route) =>
+        (route.method === 'ALL' ||
+          route.method === method ||
+          (method === 'HEAD' && route.method === 'GET')) &&
+        route.pattern.test(request.path),
+    );
+  };
+}
+
+function compileRoutePath(path: string): RegExp {
+  const source = path
+    .replace(/[.+?^$()[\]\\|]/g, '\\$&')
+    .replace(/:\w+/g, '[^/]+')
+    .replace(/\*\w*/g, '.*')
+    .replace(/\{/g, '(?:')
+    .replace(/\}/g, ')?');
+
+  // Como no roteamento do Express e do Fastify, a barra final é opcional.
+  return new RegExp(`^${source.replace(/\/$/, '')}/?$`, 'i');
+}
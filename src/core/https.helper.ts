@@ -0,0 +1,208 @@
+import { existsSync, readFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { resolve } from 'path';
+
+import { HttpsOptions } from '@nestjs/common/interfaces/external/https-options.interface';
+import type { FastifyServerOptions } from 'fastify';
+
+/**
+ * Opções de HTTPS/TLS do AppInitializer.
+ * Cada certificado pode ser lido de um arquivo (`*Path`) ou de uma variável de
+ * ambiente com o conteúdo PEM (`*EnvKey`). O arquivo tem prioridade.
+ */
+export interface HttpsCertificateOptions {
+  /**
+   * Caminho do arquivo da chave privada (PEM).
+   */
+  keyPath?: string;
+  /**
+   * Variável de ambiente com o conteúdo PEM da chave privada.
+   */
+  keyEnvKey?: string;
+  /**
+   * Caminho do arquivo do certificado (PEM), incluindo a cadeia intermediária.
+   */
+  certPath?: string;
+  /**
+   * Variável de ambiente com o conteúdo PEM do certificado.
+   */
+  certEnvKey?: string;
+  /**
+   * Caminho(s) do(s) certificado(s) de CA confiáveis. Necessário para mTLS.
+   */
+  caPath?: string | string[];
+  /**
+   * Variável de ambiente com o conteúdo PEM do(s) certificado(s) de CA.
+   */
+  caEnvKey?: string;
+  /**
+   * Variável de ambiente com a senha da chave privada, se estiver criptografada.
+   */
+  passphraseEnvKey?: string;
+  /**
+   * Exige e valida o certificado do cliente contra a CA (mTLS).
+   * (Padrão: false)
+   */
+  requireClientCertificate?: boolean;
+  /**
+   * Porta de um servidor HTTP adicional que redireciona (301) todas as requisições para HTTPS.
+   * Exige `redirectHost` ou `redirectAllowedHosts`.
+   */
+  redirectHttpPort?: number;
+  /**
+   * Host de destino do redirecionamento (ex: 'api.example.com'). O cabeçalho Host da
+   * requisição é ignorado.
+   */
+  redirectHost?: string;
+  /**
+   * Hosts aceitos no cabeçalho Host da requisição, usados como destino quando
+   * `redirectHost` não é informado. Requisições para outros hosts recebem 400.
+   */
+  redirectAllowedHosts?: string[];
+  /**
+   * Opções do FastifyAdapter da aplicação. O FastifyAdapter cria o servidor no construtor
+   * e não guarda as opções recebidas, então é recriado com estas opções e as `https`.
+   * Sem elas, apenas o `initialConfig` do Fastify é mantido (sem `logger`, `genReqId`,
+   * serializadores e outras opções que são funções ou objetos).
+   */
+  fastifyOptions?: FastifyServerOptions;
+}
+
+/**
+ * Destino do servidor de redirecionamento HTTP → HTTPS. Informe `host` ou `allowedHosts`,
+ * para não redirecionar para o host enviado pelo cliente.
+ */
+export interface HttpsRedirectOptions {
+  /**
+   * Host de destino do redirecionamento.
+   */
+  host?: string;
+  /**
+   * Hosts aceitos no cabeçalho Host da requisição. Os demais recebem 400.
+   */
+  allowedHosts?: string[];
+}
+
+type ReadFileFn = (path: string) => Buffer;
+
+/**
+ * Lê o material dos certificados e monta as `httpsOptions` do NestJS.
+ * @param options As opções de HTTPS.
+ * @param env O objeto de ambiente (padrão: process.env).
+ * @param readFileFn A função usada para ler os arquivos (padrão: fs.readFileSync).
+ * @throws Error se a chave ou o certificado não forem informados ou não puderem ser lidos.
+ */
+export function loadHttpsOptions(
+  options: HttpsCertificateOptions,
+  env: NodeJS.ProcessEnv = process.env,
+  readFileFn: ReadFileFn = (path) => readFileSync(path),
+): HttpsOptions {
+  const read = (label: string, path?: string, envKey?: string) => {
+    if (path) {
+      const absolutePath = resolve(path);
+      if (!existsSync(absolutePath)) {
+        throw new Error(
+          `[HTTPS] Arquivo de ${label} não encontrado: ${absolutePath}`,
+        );
+      }
+      return readFileFn(absolutePath);
+    }
+
+    if (envKey) {
+      const value = env[envKey];
+      if (!value) {
+        throw new Error(
+          `[HTTPS] Variável de ambiente '${envKey}' (${label}) não definida.`,
+        );
+      }
+      return value;
+    }
+
+    return undefined;
+  };
+
+  const key = read('chave privada', options.keyPath, options.keyEnvKey);
+  const cert = read('certificado', options.certPath, options.certEnvKey);
+
+  if (!key || !cert) {
+    throw new Error(
+      '[HTTPS] Informe a chave privada (keyPath ou keyEnvKey) e o certificado (certPath ou certEnvKey).',
+    );
+  }
+
+  const caPaths = options.caPath === undefined ? [] : [options.caPath].flat();
+  const ca = caPaths.length
+    ? caPaths.map((path) => read('CA', path)!)
+    : read('CA', undefined, options.caEnvKey);
+
+  if (options.requireClientCertificate && !ca) {
+    throw new Error(
+      '[HTTPS] A validação do certificado do cliente (mTLS) exige uma CA (caPath ou caEnvKey).',
+    );
+  }
+
+  const passphrase = options.passphraseEnvKey
+    ? env[options.passphraseEnvKey]
+    : undefined;
+
+  return {
+    key,
+    cert,
+    ...(ca && { ca }),
+    ...(passphrase && { passphrase }),
+    ...(options.requireClientCertificate && {
+      requestCert: true,
+      rejectUnauthorized: true,
+    }),
+  };
+}
+
+/**
+ * Cria um servidor HTTP que redireciona todas as requisições para a mesma URL em HTTPS,
+ * no host fixo ou no host da requisição, se ele estiver na lista de hosts aceitos.
+ * @param httpsPort A porta HTTPS de destino.
+ * @param options O host de destino ou os hosts aceitos.
+ * @throws Error se nem o host nem os hosts aceitos forem informados.
+ */
+export function createHttpsRedirectServer(
+  httpsPort: number,
+  options: HttpsRedirectOptions,
+): Server {
+  assertHttpsRedirectOptions(options);
+  const allowedHosts = new Set(
+    options.allowedHosts?.map((host) => host.toLowerCase()),
+  );
+
+  return createServer((req, res) => {
+    const requestHost = (req.headers.host ?? '')
+      .replace(/:\d+$/, '')
+      .toLowerCase();
+    const hostname =
+      options.host ?? (allowedHosts.has(requestHost) ? requestHost : undefined);
+
+    if (!hostname) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Bad Request: unknown host.');
+      return;
+    }
+
+    const port = httpsPort === 443 ? '' : `:${httpsPort}`;
+    res.writeHead(301, { Location: `https://${hostname}${port}${req.url}` });
+    res.end();
+  });
+}
+
+/**
+ * Valida o destino do redirecionamento HTTP → HTTPS.
+ * @param options O host de destino ou os hosts aceitos.
+ * @throws Error se nem o host nem os hosts aceitos forem informados.
+ */
+export function assertHttpsRedirectOptions(
+  options: HttpsRedirectOptions,
+): void {
+  if (!options.host && !options.allowedHosts?.length) {
+    throw new Error(
+      "[HTTPS] O redirecionamento HTTP → HTTPS exige 'redirectHost' ou 'redirectAllowedHosts', para não redirecionar para o host enviado pelo cliente.",
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Global,
+  INestApplication,
+  InjectionToken,
+  Module,
+  ModuleMetadata,
+  Type,
+} from '@nestjs/common';
+import { AbstractHttpAdapter } from '@nestjs/core';
+
+/**
+ * Opções do servidor de gerenciamento (health, métricas, Swagger e endpoints administrativos).
+ */
+export interface ManagementServerOptions {
+  /**
+   * Porta do servidor de gerenciamento.
+   */
+  port: number;
+  /**
+   * Prefixo das rotas de gerenciamento (ex: '/management'). O prefixo global
+   * da aplicação pública não é aplicado.
+   */
+  prefix?: string;
+  /**
+   * Módulos adicionais com endpoints administrativos servidos apenas nesta porta.
+   */
+  modules?: ModuleMetadata['imports'];
+  /**
+   * Adaptador HTTP do servidor de gerenciamento. Padrão: a mesma plataforma da aplicação pública.
+   */
+  adapter?: AbstractHttpAdapter;
+}
+
+/**
+ * Componentes do módulo raiz do servidor de gerenciamento.
+ */
+export interface ManagementModuleComponents {
+  imports: NonNullable<ModuleMetadata['imports']>;
+  controllers: Type[];
+  /**
+   * Tokens resolvidos na aplicação pública e compartilhados com o servidor de
+   * gerenciamento (ex: o registry de métricas e o DataSource do health check).
+   * Ficam disponíveis para injeção em todos os módulos administrativos.
+   */
+  sharedTokens: InjectionToken[];
+}
+
+/**
+ * Cria o módulo raiz do servidor de gerenciamento, compartilhando com ele
+ * as instâncias dos tokens informados a partir da aplicação pública.
+ * @param app A aplicação pública, já criada.
+ * @param components Os imports, controllers e tokens compartilhados.
+ */
+export function createManagementModule(
+  app: INestApplication,
+  components: ManagementModuleComponents,
+): Type {
+  @Global()
+  @Module({
+    imports: components.imports,
+    controllers: components.controllers,
+    providers: components.sharedTokens.map((token) => ({
+      provide: token,
+      useFactory: () => app.get(token, { strict: false }),
+    })),
+    exports: components.sharedTokens,
+  })
+  class ManagementRootModule {}
+
+  return ManagementRootModule;
+}
@@ -0,0 +1,34 @@
+import type { MicroserviceOptions } from '@nestjs/microservices';
+
+/**
+ * Descreve um transporte de microservice para os logs e o relatório de inicialização
+ * (ex: `TCP (0.0.0.0:3001)`, `REDIS (redis://localhost:6379)`).
+ * @param options As opções do microservice.
+ * @param transportNames O enum `Transport` do `@nestjs/microservices`.
+ */
+export function describeTransport(
+  options: MicroserviceOptions,
+  transportNames: Record<number, string>,
+): string {
+  if ('strategy' in options) {
+    return options.strategy.constructor.name;
+  }
+
+  const name =
+    typeof options.transport === 'number'
+      ? transportNames[options.transport]
+      : transportNames[0];
+  const transportOptions = (options.options ?? {}) as {
+    url?: string;
+    host?: string;
+    port?: number;
+  };
+
+  const target =
+    transportOptions.url ??
+    (transportOptions.host || transportOptions.port
+      ? `${transportOptions.host ?? 'localhost'}:${transportOptions.port ?? '-'}`
+      : undefined);
+
+  return target ? `${name} (${target})` : name;
+}
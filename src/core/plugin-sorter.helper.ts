@@ -0,0 +1,84 @@
+/**
+ * Metadados de ordenação de um plugin.
+ */
+interface SortablePlugin {
+  readonly name?: string;
+  readonly before?: string[];
+  readonly after?: string[];
+}
+
+/**
+ * Retorna um nome legível do plugin para logs e mensagens de erro.
+ * @param plugin O plugin a ser identificado.
+ */
+export function getPluginName(plugin: SortablePlugin): string {
+  return plugin.name ?? plugin.constructor.name;
+}
+
+/**
+ * Ordena os plugins topologicamente a partir das dependências `before`/`after`.
+ * Plugins sem relação entre si mantêm a ordem de registro.
+ * Dependências `after` são obrigatórias: se o plugin referenciado não estiver registrado,
+ * um erro é lançado. Referências `before` a plugins ausentes são ignoradas.
+ * @param plugins Os plugins na ordem de registro.
+ * @returns Uma nova lista com os plugins na ordem de execução.
+ * @throws Error se houver uma dependência ausente ou circular.
+ */
+export function sortPlugins<P extends SortablePlugin>(plugins: P[]): P[] {
+  const indexByName = new Map<string, number>();
+  plugins.forEach((plugin, index) => {
+    if (plugin.name) indexByName.set(plugin.name, index);
+  });
+
+  const dependents: number[][] = plugins.map(() => []);
+  const inDegree: number[] = plugins.map(() => 0);
+
+  const addEdge = (from: number, to: number) => {
+    dependents[from].push(to);
+    inDegree[to]++;
+  };
+
+  plugins.forEach((plugin, index) => {
+    for (const dependency of plugin.after ?? []) {
+      const dependencyIndex = indexByName.get(dependency);
+      if (dependencyIndex === undefined) {
+        throw new Error(
+          `[Plugins] O plugin '${getPluginName(plugin)}' depende de '${dependency}', que não está registrado.`,
+        );
+      }
+      addEdge(dependencyIndex, index);
+    }
+
+    for (const dependent of plugin.before ?? []) {
+      const dependentIndex = indexByName.get(dependent);
+      if (dependentIndex !== undefined) addEdge(index, dependentIndex);
+    }
+  });
+
+  const sorted: P[] = [];
+  const visited = new Set<number>();
+
+  while (sorted.length < plugins.length) {
+    const next = inDegree.findIndex(
+      (degree, index) => degree === 0 && !visited.has(index),
+    );
+
+    if (next === -1) {
+      const cycle = plugins
+        .filter((_, index) => !visited.has(index))
+        .map(getPluginName)
+        .join(', ');
+      throw new Error(
+        `[Plugins] Dependência circular detectada entre os plugins: ${cycle}.`,
+      );
+    }
+
+    visited.add(next);
+    sorted.push(plugins[next]);
+    for (const dependent of dependents[next]) {
+      inDegree[dependent]--;
+    }
+  }
+
+  return sorted;
+}
@@ -0,0 +1,31 @@
+/**
+ * Variáveis de ambiente consultadas, em ordem de prioridade, para definir o perfil ativo.
+ */
+export const PROFILE_ENV_KEYS = ['APP_PROFILE', 'NODE_ENV'] as const;
+
+/**
+ * Resolve o perfil ativo da aplicação a partir de `APP_PROFILE` ou `NODE_ENV`.
+ * @param env O objeto de variáveis de ambiente (padrão: process.env).
+ * @param defaultProfile O perfil usado quando nenhuma variável está definida (padrão: 'development').
+ * @returns O nome do perfil ativo.
+ */
+export function resolveActiveProfile(
+  env: Record<string, string | undefined> = process.env,
+  defaultProfile = 'development',
+): string {
+  for (const key of PROFILE_ENV_KEYS) {
+    const value = env[key]?.trim();
+    if (value) return value;
+  }
+
+  return defaultProfile;
+}
+
+/**
+ * Retorna os arquivos .env a serem carregados para um perfil, em ordem de prioridade.
+ * Os valores de `.env.<perfil>` sobrescrevem os de `.env`.
+ * @param profile O nome do perfil ativo.
+ */
+export function getProfileEnvFilePaths(profile: string): string[] {
+  return [`.env.${profile}`, '.env'];
+}
@@ -0,0 +1,20 @@
+import { INestApplication, InjectionToken } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+
+/**
+ * Resolve um provider da aplicação em qualquer módulo, retornando `undefined` se ele
+ * não estiver registrado. Usa o ModuleRef porque `app.get` encerra o processo quando
+ * o provider não existe (`abortOnError`).
+ * @param app A instância da aplicação NestJS.
+ * @param token O token do provider.
+ */
+export function findProvider<T>(
+  app: INestApplication,
+  token: InjectionToken,
+): T | undefined {
+  try {
+    return app.get(ModuleRef).get<unknown, T>(token, { strict: false });
+  } catch {
+    return undefined;
+  }
+}
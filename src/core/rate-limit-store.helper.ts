@@ -0,0 +1,318 @@
+import { LoggerService } from '@nestjs/common';
+import type { Store } from 'express-rate-limit';
+import type { createClient } from 'redis';
+
+/**
+ * Política aplicada enquanto o Redis estiver indisponível: 'memory' usa contadores
+ * locais (por réplica) e 'allow' deixa de limitar as requisições.
+ */
+export type RateLimitFallbackPolicy = 'memory' | 'allow';
+
+/**
+ * O subconjunto do cliente do pacote `redis` (node-redis v4) usado pelo store.
+ */
+export interface RateLimitRedisClient {
+  readonly isReady?: boolean;
+  eval(
+    script: string,
+    options: { keys: string[]; arguments: string[] },
+  ): Promise<unknown>;
+}
+
+/**
+ * Opções do store Redis do RateLimiterPlugin, que compartilha os contadores entre réplicas.
+ */
+export interface RedisRateLimitStoreOptions {
+  type: 'redis';
+  /**
+   * URL do Redis (ex: 'redis://localhost:6379'). Sem ela, o store reusa a conexão
+   * criada pelo `.withCaching()`.
+   */
+  url?: string;
+  /**
+   * Um cliente Redis já conectado, usado no lugar da `url`.
+   */
+  client?: RateLimitRedisClient;
+  /**
+   * Prefixo das chaves dos contadores. (Padrão: 'rate-limit:')
+   */
+  prefix?: string;
+  /**
+   * Política enquanto o Redis estiver indisponível. (Padrão: 'memory')
+   */
+  fallback?: RateLimitFallbackPolicy;
+}
+
+type RequireFn = (id: string) => any;
+
+/**
+ * Contagem de um cliente na janela atual.
+ */
+export interface RateLimitHits {
+  totalHits: number;
+  resetTime: Date;
+}
+
+/**
+ * Incrementa o contador e define a expiração na primeira requisição da janela,
+ * de forma atômica. Retorna `[requisições, ms até o fim da janela]`.
+ */
+const INCREMENT_SCRIPT = `
+local hits = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+const DECREMENT_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  return redis.call('DECR', KEYS[1])
+end
+return 0
+`;
+
+const RESET_SCRIPT = `return redis.call('DEL', KEYS[1])`;
+
+/**
+ * Máximo de chaves nos contadores em memória. Ao atingi-lo, as janelas mais antigas são
+ * descartadas (e esses clientes recomeçam a contagem).
+ */
+const MAX_MEMORY_KEYS = 10_000;
+
+/**
+ * Intervalo mínimo, em milissegundos, entre as remoções das janelas expiradas da memória.
+ */
+const MEMORY_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Contadores de requisições por janela, guardados no Redis (ou em memória, sem cliente).
+ * Enquanto o Redis estiver indisponível, aplica a política de fallback e registra um
+ * aviso (uma vez por queda), sem bloquear o tráfego.
+ */
+export class RateLimitCounter {
+  private readonly memory = new Map<
+    string,
+    { hits: number; resetAt: number }
+  >();
+  private degraded = false;
+  private nextSweepAt = 0;
+
+  /**
+   * @param client O cliente Redis. Sem ele, os contadores ficam apenas em memória.
+   * @param options O prefixo das chaves e a política de fallback.
+   * @param logger O logger dos avisos de indisponibilidade.
+   * @param now O relógio usado nas janelas (injetável para testes).
+   */
+  constructor(
+    private readonly client: RateLimitRedisClient | undefined,
+    private readonly options: Pick<
+      RedisRateLimitStoreOptions,
+      'prefix' | 'fallback'
+    >,
+    private readonly logger: LoggerService,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHits> {
+    if (!this.client) return this.incrementInMemory(key, windowMs);
+
+    try {
+      const [hits, ttl] = (await this.run(INCREMENT_SCRIPT, key, [
+        String(windowMs),
+      ])) as [number, number];
+      return {
+        totalHits: Number(hits),
+        resetTime: new Date(this.now() + Number(ttl)),
+      };
+    } catch (error) {
+      this.degrade(error);
+      return this.incrementInMemory(key, windowMs);
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    if (this.client) {
+      try {
+        await this.run(DECREMENT_SCRIPT, key);
+        return;
+      } catch (error) {
+        this.degrade(error);
+      }
+    }
+
+    const entry = this.memory.get(key);
+    if (entry) entry.hits = Math.max(0, entry.hits - 1);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.memory.delete(key);
+    if (!this.client) return;
+
+    try {
+      await this.run(RESET_SCRIPT, key);
+    } catch (error) {
+      this.degrade(error);
+    }
+  }
+
+  /**
+   * Executa um script no Redis, falhando imediatamente se o cliente não estiver pronto
+   * (evita que as requisições aguardem a reconexão).
+   */
+  private async run(
+    script: string,
+    key: string,
+    args: string[] = [],
+  ): Promise<unknown> {
+    const client = this.client!;
+    if (client.isReady === false) {
+      throw new Error('conexão indisponível');
+    }
+
+    const result = await client.eval(script, {
+      keys: [`${this.options.prefix ?? 'rate-limit:'}${key}`],
+      arguments: args,
+    });
+
+    if (this.degraded) {
+      this.degraded = false;
+      this.memory.clear();
+      this.logger.log(
+        '[RateLimiter] Conexão com o Redis restabelecida. Os contadores voltaram a ser compartilhados.',
+      );
+    }
+    return result;
+  }
+
+  private degrade(error: unknown): void {
+    if (this.degraded) return;
+    this.degraded = true;
+
+    const consequence =
+      this.options.fallback === 'allow'
+        ? 'As requisições não serão limitadas até a reconexão.'
+        : 'Usando contadores em memória (por réplica) até a reconexão.';
+    this.logger.warn(
+      `[RateLimiter] Redis indisponível (${(error as Error).message}). ${consequence}`,
+    );
+  }
+
+  private incrementInMemory(key: string, windowMs: number): RateLimitHits {
+    const now = this.now();
+
+    if (this.options.fallback === 'allow') {
+      return { totalHits: 0, resetTime: new Date(now + windowMs) };
+    }
+
+    let entry = this.memory.get(key);
+    if (!entry || entry.resetAt <= now) {
+      // Reinserida, a chave vai para o fim da ordem de inserção da Map.
+      this.memory.delete(key);
+      this.pruneMemory(now);
+      entry = { hits: 0, resetAt: now + windowMs };
+      this.memory.set(key, entry);
+    }
+    entry.hits += 1;
+
+    return { totalHits: entry.hits, resetTime: new Date(entry.resetAt) };
+  }
+
+  /**
+   * Remove as janelas expiradas (no máximo uma vez por intervalo) e, no limite de chaves,
+   * as janelas mais antigas, que são as primeiras na ordem de inserção.
+   */
+  private pruneMemory(now: number): void {
+    if (now >= this.nextSweepAt) {
+      this.nextSweepAt = now + MEMORY_SWEEP_INTERVAL_MS;
+      for (const [key, entry] of this.memory) {
+        if (entry.resetAt <= now) this.memory.delete(key);
+      }
+    }
+
+    for (const key of this.memory.keys()) {
+      if (this.memory.size < MAX_MEMORY_KEYS) break;
+      this.memory.delete(key);
+    }
+  }
+}
+
+/**
+ * Carrega o pacote `redis` (dependência opcional), usado pelo store com `url`.
+ * @param requireFn A função 'require' usada para carregar o pacote (padrão: Node's require).
+ * @throws Error se o pacote não estiver instalado.
+ */
+export function loadRedisPackage(requireFn: RequireFn = require): {
+  createClient: typeof createClient;
+} {
+  try {
+    return requireFn('redis');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'MODULE_NOT_FOUND') {
+      throw error;
+    }
+    throw new Error(
+      "[RateLimiter] O store Redis com 'store.url' requer o pacote 'redis'. Instale-o com: npm install redis",
+    );
+  }
+}
+
+/**
+ * Cria um store do express-rate-limit sobre os contadores.
+ */
+export function createExpressRateLimitStore(counter: RateLimitCounter): Store {
+  let windowMs = 60_000;
+
+  return {
+    localKeys: false,
+    init: (options) => {
+      windowMs = options.windowMs;
+    },
+    increment: (key) => counter.increment(key, windowMs),
+    decrement: (key) => counter.decrement(key),
+    resetKey: (key) => counter.reset(key),
+  };
+}
+
+type FastifyIncrCallback = (
+  error: Error | null,
+  result?: { current: number; ttl: number },
+) => void;
+
+/**
+ * Cria a classe de store do `@fastify/rate-limit` sobre os contadores.
+ * Limites por rota (`child`) usam chaves separadas, prefixadas pelo método e pela URL.
+ */
+export function createFastifyRateLimitStore(counter: RateLimitCounter) {
+  return class FastifyRateLimitStore {
+    /**
+     * @param _options As opções globais, repassadas pelo `@fastify/rate-limit`.
+     * @param keyPrefix O prefixo das chaves da rota.
+     */
+    constructor(
+      _options?: unknown,
+      private readonly keyPrefix = '',
+    ) {}
+
+    incr(key: string, callback: FastifyIncrCallback, timeWindow: number) {
+      counter.increment(`${this.keyPrefix}${key}`, timeWindow).then(
+        ({ totalHits, resetTime }) =>
+          callback(null, {
+            current: totalHits,
+            ttl: Math.max(0, resetTime.getTime() - Date.now()),
+          }),
+        (error: Error) => callback(error),
+      );
+    }
+
+    child(routeOptions: { routeInfo?: { method?: string; url?: string } }) {
+      const { method = '', url = '' } = routeOptions.routeInfo ?? {};
+      return new FastifyRateLimitStore(
+        routeOptions,
+        `${this.keyPrefix}${method}${url}:`,
+      );
+    }
+  };
+}
@@ -0,0 +1,100 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, resolve } from 'path';
+
+/**
+ * Opções de resolução de segredos montados como arquivos (Docker/Kubernetes secrets).
+ */
+export interface SecretFilesOptions {
+  /**
+   * Diretório com um arquivo por segredo (ex: '/run/secrets'). O nome do arquivo,
+   * em maiúsculas e com caracteres inválidos trocados por '_', vira o nome da variável
+   * (ex: `db_password` → `DB_PASSWORD`). Variáveis já definidas no ambiente têm prioridade.
+   */
+  directory?: string;
+}
+
+/**
+ * Operações de sistema de arquivos usadas na resolução, injetáveis para testes.
+ */
+export interface SecretFilesDeps {
+  exists: (path: string) => boolean;
+  isFile: (path: string) => boolean;
+  readDir: (path: string) => string[];
+  readFile: (path: string) => string;
+}
+
+const FILE_SUFFIX = '_FILE';
+
+const defaultDeps: SecretFilesDeps = {
+  exists: existsSync,
+  isFile: (path) => statSync(path).isFile(),
+  readDir: (path) => readdirSync(path),
+  readFile: (path) => readFileSync(path, 'utf8'),
+};
+
+/**
+ * Resolve os segredos montados como arquivos antes da validação da configuração:
+ * `FOO_FILE=/run/secrets/foo` preenche `FOO` com o conteúdo do arquivo (sem espaços
+ * e quebras de linha nas extremidades) e, se `directory` for informado, cada arquivo
+ * do diretório preenche a variável de mesmo nome.
+ * @param config O objeto de configuração (geralmente process.env).
+ * @param options As opções de resolução.
+ * @param deps Operações de sistema de arquivos injetáveis.
+ * @returns Uma cópia da configuração com os segredos resolvidos.
+ * @throws Error se `FOO` e `FOO_FILE` estiverem definidas ao mesmo tempo ou se um arquivo não existir.
+ */
+export function resolveSecretFiles(
+  config: Record<string, any>,
+  options: SecretFilesOptions = {},
+  deps: Partial<SecretFilesDeps> = {},
+): Record<string, any> {
+  const { exists, isFile, readDir, readFile } = { ...defaultDeps, ...deps };
+  const resolved = { ...config };
+
+  const read = (path: string, key: string) => {
+    const absolutePath = resolve(path);
+    if (!exists(absolutePath)) {
+      throw new Error(
+        `[Segredos] Arquivo do segredo '${key}' não encontrado: ${absolutePath}`,
+      );
+    }
+    return readFile(absolutePath).trim();
+  };
+
+  for (const [fileKey, path] of Object.entries(config)) {
+    if (!fileKey.endsWith(FILE_SUFFIX) || typeof path !== 'string' || !path) {
+      continue;
+    }
+
+    const key = fileKey.slice(0, -FILE_SUFFIX.length);
+    if (config[key] !== undefined) {
+      throw new Error(
+        `[Segredos] As variáveis '${key}' e '${fileKey}' estão definidas ao mesmo tempo. Use apenas uma delas.`,
+      );
+    }
+
+    resolved[key] = read(path, key);
+  }
+
+  if (options.directory) {
+    const directory = resolve(options.directory);
+    if (!exists(directory)) {
+      throw new Error(
+        `[Segredos] Diretório de segredos não encontrado: ${directory}`,
+      );
+    }
+
+    for (const fileName of readDir(directory)) {
+      const path = join(directory, fileName);
+      // Ignora arquivos ocultos e os links internos do Kubernetes (ex: '..data').
+      if (fileName.startsWith('.') || !isFile(path)) continue;
+
+      const key = fileName.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+      if (resolved[key] !== undefined) continue;
+
+      resolved[key] = read(path, key);
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,300 @@
+import {
+  INestApplication,
+  RequestMethod,
+  VERSION_NEUTRAL,
+  VersioningOptions,
+  VersioningType,
+} from '@nestjs/common';
+import {
+  METHOD_METADATA,
+  PATH_METADATA,
+  VERSION_METADATA,
+} from '@nestjs/common/constants';
+import { MetadataScanner, ModulesContainer } from '@nestjs/core';
+
+/**
+ * Uma rota HTTP mapeada pela aplicação.
+ */
+export interface StartupRoute {
+  method: string;
+  path: string;
+  version?: string;
+}
+
+/**
+ * Duração de uma fase da inicialização, em milissegundos.
+ */
+export interface StartupPhaseTiming {
+  phase: string;
+  durationMs: number;
+}
+
+/**
+ * Resumo estruturado da inicialização da aplicação.
+ */
+export interface StartupReport {
+  url?: string;
+  profile?: string;
+  starters: string[];
+  plugins: string[];
+  microservices: string[];
+  globalPipes: string[];
+  globalGuards: string[];
+  globalFilters: string[];
+  globalInterceptors: string[];
+  globalPrefix?: string;
+  versioning?: {
+    type: string;
+    prefix?: string;
+    defaultVersion?: string;
+  };
+  routes: StartupRoute[];
+  phases: StartupPhaseTiming[];
+  totalDurationMs: number;
+}
+
+/**
+ * Opções do relatório de inicialização.
+ */
+export interface StartupReportOptions {
+  /**
+   * Formato do relatório no log: `table` (padrão) ou `json` (uma linha).
+   */
+  format?: 'table' | 'json';
+  /**
+   * Caminho de um arquivo onde o relatório também será gravado em JSON
+   * (ex: para arquivamento pelo pipeline de deploy).
+   */
+  outputFile?: string;
+}
+
+/**
+ * Converte as opções de versionamento no formato exibido pelo relatório.
+ * @param options As opções de versionamento da aplicação.
+ */
+export function describeVersioning(
+  options?: VersioningOptions,
+): StartupReport['versioning'] {
+  if (!options) return undefined;
+
+  return {
+    type: VersioningType[options.type],
+    prefix:
+      options.type === VersioningType.URI
+        ? options.prefix === false
+          ? undefined
+          : (options.prefix ?? 'v')
+        : undefined,
+    defaultVersion: formatVersion(options.defaultVersion),
+  };
+}
+
+/**
+ * Lista todas as rotas mapeadas pelos controllers da aplicação,
+ * com o método HTTP, o caminho completo (prefixo global e versão URI) e a versão.
+ * Lê apenas os metadados dos controllers, então pode ser usada antes do `app.init()`.
+ * @param app A instância da aplicação NestJS.
+ * @param globalPrefix O prefixo global aplicado às rotas.
+ * @param versioning As opções de versionamento da aplicação.
+ * @param filter Mantém apenas as rotas cujo método e controller passam no filtro.
+ */
+export function collectRoutes(
+  app: INestApplication,
+  globalPrefix?: string,
+  versioning?: VersioningOptions,
+  filter?: (handler: object, controller: object) => boolean,
+): StartupRoute[] {
+  const modulesContainer = app.get(ModulesContainer);
+  const scanner = new MetadataScanner();
+  const routes: StartupRoute[] = [];
+
+  for (const module of modulesContainer.values()) {
+    for (const wrapper of module.controllers.values()) {
+      const controller = wrapper.metatype as (new () => object) | null;
+      if (!controller) continue;
+
+      const controllerPaths = toArray<string>(
+        Reflect.getMetadata(PATH_METADATA, controller),
+      );
+      const controllerVersion = Reflect.getMetadata(
+        VERSION_METADATA,
+        controller,
+      );
+
+      for (const methodName of scanner.getAllMethodNames(
+        controller.prototype,
+      )) {
+        const handler = controller.prototype[methodName];
+        const requestMethod: RequestMethod | undefined = Reflect.getMetadata(
+          METHOD_METADATA,
+          handler,
+        );
+        if (requestMethod === undefined) continue;
+        if (filter && !filter(handler, controller)) continue;
+
+        const versionMetadata =
+          Reflect.getMetadata(VERSION_METADATA, handler) ??
+          controllerVersion ??
+          versioning?.defaultVersion;
+        const versions =
+          versionMetadata === undefined
+            ? [undefined]
+            : toArray<unknown>(versionMetadata).map(formatVersion);
+
+        for (const version of versions) {
+          const versionSegment =
+            versioning?.type === VersioningType.URI &&
+            version &&
+            version !== 'neutral'
+              ? `${versioning.prefix === false ? '' : (versioning.prefix ?? 'v')}${version}`
+              : undefined;
+
+          for (const controllerPath of controllerPaths) {
+            for (const methodPath of toArray<string>(
+              Reflect.getMetadata(PATH_METADATA, handler),
+            )) {
+              routes.push({
+                method: RequestMethod[requestMethod],
+                path: joinPath(
+                  globalPrefix,
+                  versionSegment,
+                  controllerPath,
+                  methodPath,
+                ),
+                version,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Lista os componentes globais registrados com um token do NestJS em qualquer módulo,
+ * inclusive nos módulos adicionados pelos plugins (ex: o guard do rate limiter).
+ * @param app A instância da aplicação NestJS.
+ * @param token O token dos componentes: `APP_PIPE`, `APP_GUARD`, `APP_FILTER` ou
+ * `APP_INTERCEPTOR`.
+ */
+export function collectGlobalComponents(
+  app: INestApplication,
+  token: string,
+): string[] {
+  const names: string[] = [];
+
+  for (const module of app.get(ModulesContainer).values()) {
+    for (const [key, wrapper] of module.providers) {
+      // O NestJS registra cada componente com um token próprio: '<token> (UUID: ...)'.
+      if (typeof key !== 'string' || !key.startsWith(`${token} (UUID:`)) {
+        continue;
+      }
+
+      // `useClass` guarda a classe; `useValue` e `useFactory`, a instância criada.
+      const { metatype, inject } = wrapper;
+      const instance = wrapper.instance as object | undefined;
+      const name =
+        metatype && !inject ? metatype.name : instance?.constructor?.name;
+      if (name) names.push(name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Formata o relatório de inicialização como tabelas de texto para o log.
+ * @param report O relatório de inicialização.
+ */
+export function formatStartupReport(report: StartupReport): string {
+  const list = (items: string[]) => (items.length ? items.join(', ') : '-');
+
+  const summary = formatTable(
+    ['Item', 'Valor'],
+    [
+      ['URL', report.url ?? '-'],
+      ['Perfil', report.profile ?? '-'],
+      ['Starters', list(report.starters)],
+      ['Plugins (ordem)', list(report.plugins)],
+      ['Microservices', list(report.microservices)],
+      ['Pipes globais', list(report.globalPipes)],
+      ['Guards globais', list(report.globalGuards)],
+      ['Filtros globais', list(report.globalFilters)],
+      ['Interceptors globais', list(report.globalInterceptors)],
+      ['Prefixo global', report.globalPrefix ?? '-'],
+      [
+        'Versionamento',
+        report.versioning
+          ? [
+              report.versioning.type,
+              report.versioning.prefix &&
+                `prefixo: ${report.versioning.prefix}`,
+              report.versioning.defaultVersion &&
+                `padrão: ${report.versioning.defaultVersion}`,
+            ]
+              .filter(Boolean)
+              .join(', ')
+          : '-',
+      ],
+    ],
+  );
+
+  const phases = formatTable(
+    ['Fase', 'Duração (ms)'],
+    [
+      ...report.phases.map((p) => [p.phase, p.durationMs.toFixed(1)]),
+      ['total', report.totalDurationMs.toFixed(1)],
+    ],
+  );
+
+  const routes = formatTable(
+    ['Método', 'Rota', 'Versão'],
+    report.routes.map((r) => [r.method, r.path, r.version ?? '-']),
+  );
+
+  return [
+    'Relatório de inicialização',
+    summary,
+    'Fases',
+    phases,
+    `Rotas mapeadas (${report.routes.length})`,
+    routes,
+  ].join('\n');
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length)),
+  );
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+  const separator = `|${widths.map((width) => '-'.repeat(width + 2)).join('|')}|`;
+
+  return [line(headers), separator, ...rows.map(line)].join('\n');
+}
+
+function formatVersion(version: unknown): string | undefined {
+  if (version === undefined || version === null) return undefined;
+
+  return toArray<unknown>(version)
+    .map((v) => (v === VERSION_NEUTRAL ? 'neutral' : String(v)))
+    .join(', ');
+}
+
+function toArray<V>(value: V | V[] | undefined): V[] {
+  if (value === undefined) return ['' as V];
+  return Array.isArray(value) ? value : [value];
+}
+
+function joinPath(...segments: (string | undefined)[]): string {
+  const path = segments
+    .filter((segment): segment is string => !!segment)
+    .map((segment) => segment.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+
+  return `/${path}`;
+}
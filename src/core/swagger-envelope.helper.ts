@@ -0,0 +1,69 @@
+import { Type } from '@nestjs/common';
+import { getSchemaPath, OpenAPIObject } from '@nestjs/swagger';
+import { OperationObject } from '@nestjs/swagger/dist/interfaces/open-api-spec.interface';
+
+/**
+ * Extensão do OpenAPI adicionada por `@RawResponse()`: as respostas da operação não
+ * recebem o envelope.
+ */
+export const RAW_RESPONSE_EXTENSION = 'x-raw-response';
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+/**
+ * Reescreve as respostas de sucesso (2xx, exceto 204) das operações do documento para o
+ * schema do envelope, com o schema original da resposta em `data`.
+ * O schema do envelope deve estar nos `extraModels` do documento.
+ * @param document O documento gerado pelo SwaggerModule (alterado no lugar).
+ * @param envelope A classe (DTO) do envelope.
+ */
+export function applySwaggerEnvelope(
+  document: OpenAPIObject,
+  envelope: Type,
+): void {
+  const envelopeSchema = { $ref: getSchemaPath(envelope) };
+
+  for (const pathItem of Object.values(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method] as
+        | (OperationObject & { [RAW_RESPONSE_EXTENSION]?: boolean })
+        | undefined;
+      if (!operation) continue;
+
+      if (operation[RAW_RESPONSE_EXTENSION]) {
+        delete operation[RAW_RESPONSE_EXTENSION];
+        continue;
+      }
+
+      for (const [status, response] of Object.entries(operation.responses)) {
+        if (!/^2(\d\d|XX)$/i.test(status) || status === '204') continue;
+        if (!response || '$ref' in response) continue;
+
+        if (!response.content) {
+          response.content = { 'application/json': { schema: envelopeSchema } };
+          continue;
+        }
+
+        for (const media of Object.values(response.content)) {
+          media.schema = media.schema
+            ? {
+                allOf: [
+                  envelopeSchema,
+                  { type: 'object', properties: { data: media.schema } },
+                ],
+              }
+            : envelopeSchema;
+        }
+      }
+    }
+  }
+}
@@ -7,6 +7,7 @@ import {
   TypeOrmHealthIndicator,
 } from '@nestjs/terminus';
 
+import { ReadinessState } from './readiness.module';
 import * as terminusHealthCheckModule from './terminus-health-check.module';
 
 export const HEALTH_CHECK_OPTIONS = 'HEALTH_CHECK_OPTIONS';
@@ -20,6 +21,8 @@ export class HealthController {
     @Optional()
     private readonly db: TypeOrmHealthIndicator,
     private readonly memory: MemoryHealthIndicator,
+    @Optional()
+    private readonly readiness?: ReadinessState,
   ) {}
 
   @Get()
@@ -27,6 +30,11 @@ export class HealthController {
   check() {
     const checks: HealthIndicatorFunction[] = [];
 
+    if (this.readiness) {
+      const readiness = this.readiness;
+      checks.push(() => readiness.check());
+    }
+
     if (this.options.database && this.db) {
       checks.push(() => this.db.pingCheck('database'));
     }
@@ -1,2 +1,8 @@
 export * from './metrics/metrics.module';
+export * from './readiness.module';
 export * from './terminus-health-check.module';
+export * from './secrets';
+export * from './request-context';
+export * from './logging';
+export * from './rate-limit';
+export * from './pagination';
@@ -0,0 +1 @@
+export * from './structured-logger';
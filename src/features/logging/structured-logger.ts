@@ -0,0 +1,227 @@
+import { LoggerService, LogLevel } from '@nestjs/common';
+
+import { RequestContext } from '../request-context/request-context';
+
+/**
+ * Opções do logger estruturado (JSON) do AppInitializer.
+ */
+export interface StructuredLoggingOptions {
+  /**
+   * Nível mínimo registrado. (Padrão: 'log')
+   */
+  level?: LogLevel;
+  /**
+   * Formata o JSON com indentação, para leitura durante o desenvolvimento.
+   * (Padrão: false — uma linha por entrada)
+   */
+  pretty?: boolean;
+  /**
+   * Chaves adicionais cujos valores são substituídos por '[REDACTED]' em qualquer nível
+   * do objeto registrado (sem diferenciar maiúsculas). As chaves de `DEFAULT_REDACTED_KEYS`
+   * são sempre mascaradas.
+   */
+  redact?: string[];
+  /**
+   * Campos incluídos em todas as entradas (ex: `{ service: 'orders', env: 'production' }`).
+   */
+  base?: Record<string, unknown>;
+}
+
+/**
+ * Chaves sempre mascaradas nos logs estruturados.
+ */
+export const DEFAULT_REDACTED_KEYS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+];
+
+const LOG_LEVELS: LogLevel[] = [
+  'verbose',
+  'debug',
+  'log',
+  'warn',
+  'error',
+  'fatal',
+];
+
+/**
+ * Nomes dos níveis na saída, no padrão dos agregadores de log.
+ */
+const LEVEL_NAMES: Record<LogLevel, string> = {
+  verbose: 'verbose',
+  debug: 'debug',
+  log: 'info',
+  warn: 'warn',
+  error: 'error',
+  fatal: 'fatal',
+};
+
+const REDACTED = '[REDACTED]';
+const STACK_FORMAT = /^(.)+\n\s+at .+:\d+:\d+/;
+
+type WriteFn = (line: string, level: LogLevel) => void;
+
+const defaultWrite: WriteFn = (line, level) => {
+  const stream =
+    level === 'error' || level === 'fatal' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+};
+
+/**
+ * Logger do NestJS que emite uma linha JSON por entrada, com o nível, o horário,
+ * o contexto, o ID da requisição (com `.withRequestContext`) e os campos base.
+ * Mensagens em objeto têm os seus campos incluídos na entrada, com as chaves
+ * sensíveis mascaradas.
+ */
+export class StructuredLogger implements LoggerService {
+  private logLevels: LogLevel[];
+  private readonly redactedKeys: Set<string>;
+
+  /**
+   * @param options As opções do logger.
+   * @param write A função que escreve cada linha (padrão: stdout, ou stderr para erros).
+   */
+  constructor(
+    private readonly options: StructuredLoggingOptions = {},
+    private readonly write: WriteFn = defaultWrite,
+  ) {
+    this.logLevels = LOG_LEVELS.slice(
+      LOG_LEVELS.indexOf(options.level ?? 'log'),
+    );
+    this.redactedKeys = new Set(
+      [...DEFAULT_REDACTED_KEYS, ...(options.redact ?? [])].map((key) =>
+        key.toLowerCase(),
+      ),
+    );
+  }
+
+  log(message: unknown, ...optionalParams: unknown[]): void {
+    this.print('log', message, optionalParams);
+  }
+
+  error(message: unknown, ...optionalParams: unknown[]): void {
+    this.print('error', message, optionalParams);
+  }
+
+  warn(message: unknown, ...optionalParams: unknown[]): void {
+    this.print('warn', message, optionalParams);
+  }
+
+  debug(message: unknown, ...optionalParams: unknown[]): void {
+    this.print('debug', message, optionalParams);
+  }
+
+  verbose(message: unknown, ...optionalParams: unknown[]): void {
+    this.print('verbose', message, optionalParams);
+  }
+
+  fatal(message: unknown, ...optionalParams: unknown[]): void {
+    this.print('fatal', message, optionalParams);
+  }
+
+  setLogLevels(levels: LogLevel[]): void {
+    this.logLevels = levels;
+  }
+
+  private print(level: LogLevel, message: unknown, params: unknown[]): void {
+    if (!this.logLevels.includes(level)) return;
+
+    const { context, stack, extra } = this.parseParams(params);
+    const requestId = RequestContext.currentRequestId();
+
+    // Os campos de uma mensagem em objeto não substituem os da entrada (ex: `level`).
+    const entry: Record<string, unknown> = {
+      ...this.options.base,
+      ...this.toFields(message),
+      time: new Date().toISOString(),
+      level: LEVEL_NAMES[level],
+      pid: process.pid,
+      ...(context && { context }),
+      ...(requestId && { requestId }),
+      ...(extra.length > 0 && { params: this.redact(extra) }),
+      ...(stack && { stack }),
+    };
+
+    this.write(
+      JSON.stringify(
+        entry,
+        (_key, value: unknown) =>
+          typeof value === 'bigint' ? value.toString() : value,
+        this.options.pretty ? 2 : undefined,
+      ),
+      level,
+    );
+  }
+
+  /**
+   * Separa o contexto (último parâmetro em texto, convenção do NestJS), o stack trace
+   * e os parâmetros restantes.
+   */
+  private parseParams(params: unknown[]): {
+    context?: string;
+    stack?: string;
+    extra: unknown[];
+  } {
+    const extra = params.filter((param) => param !== undefined);
+    const last = extra[extra.length - 1];
+    const context =
+      typeof last === 'string' && !STACK_FORMAT.test(last)
+        ? (extra.pop() as string)
+        : undefined;
+
+    const stackIndex = extra.findIndex(
+      (param) => typeof param === 'string' && STACK_FORMAT.test(param),
+    );
+    const stack =
+      stackIndex === -1
+        ? undefined
+        : (extra.splice(stackIndex, 1)[0] as string);
+
+    return { context, stack, extra };
+  }
+
+  private toFields(message: unknown): Record<string, unknown> {
+    if (message instanceof Error) {
+      return { message: message.message, stack: message.stack };
+    }
+
+    if (message && typeof message === 'object' && !Array.isArray(message)) {
+      return this.redact(message) as Record<string, unknown>;
+    }
+
+    return { message: this.redact(message) };
+  }
+
+  /**
+   * Copia o valor mascarando as chaves sensíveis em qualquer nível.
+   * @param ancestors Os objetos do caminho atual: só eles indicam uma referência circular
+   * (um objeto repetido em outro ramo é copiado normalmente).
+   */
+  private redact(value: unknown, ancestors = new Set<object>()): unknown {
+    if (!value || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (ancestors.has(value)) return '[Circular]';
+    ancestors.add(value);
+
+    const copy = Array.isArray(value)
+      ? value.map((item) => this.redact(item, ancestors))
+      : Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            this.redactedKeys.has(key.toLowerCase())
+              ? REDACTED
+              : this.redact(item, ancestors),
+          ]),
+        );
+
+    ancestors.delete(value);
+    return copy;
+  }
+}
@@ -1,4 +1,5 @@
 import { Controller, Get, Inject, Res } from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
 import { Registry } from 'prom-client';
 
 import { METRICS_REGISTRY } from './metrics.tokens';
@@ -8,11 +9,18 @@ export class MetricsController {
   constructor(
     @Inject(METRICS_REGISTRY)
     private readonly registry: Registry,
+    private readonly adapterHost: HttpAdapterHost,
   ) {}
 
+  /**
+   * Expõe as métricas no formato do Prometheus.
+   * Usa o adaptador HTTP ativo para responder, funcionando com Express e Fastify.
+   */
   @Get()
-  async getMetrics(@Res() res: any) {
-    res.header('Content-Type', this.registry.contentType);
-    res.send(await this.registry.metrics());
+  async getMetrics(@Res() res: unknown) {
+    const { httpAdapter } = this.adapterHost;
+
+    httpAdapter.setHeader(res, 'Content-Type', this.registry.contentType);
+    httpAdapter.reply(res, await this.registry.metrics(), 200);
   }
 }
@@ -5,13 +5,28 @@ import {
   Injectable,
   NestInterceptor,
 } from '@nestjs/common';
-import { Request, Response } from 'express';
 import { Histogram } from 'prom-client';
 import { Observable } from 'rxjs';
 import { finalize } from 'rxjs/operators';
 
 import { METRICS_HTTP_HISTOGRAM } from './metrics.tokens';
 
+/**
+ * Campos da requisição usados nos labels, no Express (`route.path`) e no Fastify
+ * (`routeOptions.url`).
+ */
+type HttpRequest = {
+  method: string;
+  route?: { path: string };
+  routeOptions?: { url?: string };
+};
+
+/**
+ * Label das requisições sem o padrão da rota. O caminho real (com IDs e query string)
+ * criaria uma série nova a cada URL distinta.
+ */
+const UNMATCHED_ROUTE = 'unmatched';
+
 @Injectable()
 export class MetricsInterceptor implements NestInterceptor {
   constructor(
@@ -21,14 +36,15 @@ export class MetricsInterceptor implements NestInterceptor {
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
     const httpContext = context.switchToHttp();
-    const request = httpContext.getRequest<Request>();
-    const response = httpContext.getResponse<Response>();
+    const request = httpContext.getRequest<HttpRequest>();
+    const response = httpContext.getResponse<{ statusCode: number }>();
 
     const end = this.histogram.startTimer();
 
     return next.handle().pipe(
       finalize(() => {
-        const path = request.route?.path ?? request.path;
+        const path =
+          request.route?.path ?? request.routeOptions?.url ?? UNMATCHED_ROUTE;
 
         end({
           method: request.method,
@@ -6,9 +6,17 @@ import { MetricsInterceptor } from './metrics.interceptor';
 import { metricsProviders } from './metrics.provider';
 import { METRICS_HTTP_HISTOGRAM, METRICS_REGISTRY } from './metrics.tokens';
 
+export interface MetricsModuleOptions {
+  /**
+   * Registra o endpoint /metrics na aplicação. Desabilitado quando as métricas
+   * são expostas pelo servidor de gerenciamento. (Padrão: true)
+   */
+  controller?: boolean;
+}
+
 @Module({})
 export class MetricsModule {
-  static forRoot(): DynamicModule {
+  static forRoot(options: MetricsModuleOptions = {}): DynamicModule {
     const providers: Provider[] = [
       ...metricsProviders,
       MetricsInterceptor,
@@ -20,7 +28,7 @@ export class MetricsModule {
 
     return {
       module: MetricsModule,
-      controllers: [MetricsController],
+      controllers: options.controller === false ? [] : [MetricsController],
       providers: providers,
 
       exports: [METRICS_REGISTRY, METRICS_HTTP_HISTOGRAM],
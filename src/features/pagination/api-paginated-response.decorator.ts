@@ -0,0 +1,33 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import { ApiExtraModels, ApiOkResponse, getSchemaPath } from '@nestjs/swagger';
+
+import { Paginated } from './paginated';
+
+/**
+ * Documenta no Swagger uma resposta `Paginated<Dto>`, com os itens em `data`.
+ * @param model A classe (DTO) dos itens.
+ * @param description A descrição da resposta.
+ */
+export function ApiPaginatedResponse(
+  model: Type,
+  description?: string,
+): MethodDecorator & ClassDecorator {
+  return applyDecorators(
+    ApiExtraModels(Paginated, model),
+    ApiOkResponse({
+      description,
+      schema: {
+        allOf: [
+          { $ref: getSchemaPath(Paginated) },
+          {
+            type: 'object',
+            required: ['data'],
+            properties: {
+              data: { type: 'array', items: { $ref: getSchemaPath(model) } },
+            },
+          },
+        ],
+      },
+    }),
+  );
+}
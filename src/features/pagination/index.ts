@@ -0,0 +1,5 @@
+export * from './api-paginated-response.decorator';
+export * from './paginated';
+export * from './pagination.mongoose';
+export * from './pagination.query';
+export * from './pagination.typeorm';
@@ -0,0 +1,185 @@
+import { BadRequestException } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { DEFAULT_PAGE_LIMIT, PaginationQuery } from './pagination.query';
+
+export class PaginationMeta {
+  @ApiProperty()
+  limit!: number;
+
+  /**
+   * Paginação por página: a página atual.
+   */
+  @ApiPropertyOptional()
+  page?: number;
+
+  @ApiPropertyOptional()
+  totalItems?: number;
+
+  @ApiPropertyOptional()
+  totalPages?: number;
+
+  /**
+   * Paginação por cursor: o cursor da próxima página, ou `null` na última.
+   */
+  @ApiPropertyOptional({ type: String, nullable: true })
+  nextCursor?: string | null;
+}
+
+/**
+ * Links relativos às páginas vizinhas, com a mesma query string da requisição.
+ */
+export class PaginationLinks {
+  @ApiProperty()
+  self!: string;
+
+  @ApiPropertyOptional()
+  first?: string;
+
+  @ApiPropertyOptional()
+  previous?: string;
+
+  @ApiPropertyOptional()
+  next?: string;
+
+  @ApiPropertyOptional()
+  last?: string;
+}
+
+/**
+ * Resposta paginada. Use `@ApiPaginatedResponse(Dto)` para documentá-la no Swagger.
+ */
+export class Paginated<T> {
+  data!: T[];
+
+  @ApiProperty({ type: PaginationMeta })
+  meta!: PaginationMeta;
+
+  @ApiProperty({ type: PaginationLinks })
+  links!: PaginationLinks;
+}
+
+/**
+ * Opções comuns dos helpers de paginação.
+ */
+export interface PaginateOptions {
+  /**
+   * A URL da requisição (ex: `request.originalUrl`), base dos links. Sem ela, os links
+   * contêm apenas a query string (ex: '?page=2&limit=20').
+   */
+  url?: string;
+}
+
+/**
+ * Monta a resposta de uma página obtida com `page` e `limit`.
+ * @param data Os itens da página.
+ * @param totalItems O total de itens de todas as páginas.
+ * @param query Os parâmetros de paginação da requisição.
+ * @param options A URL base dos links.
+ */
+export function createPaginated<T>(
+  data: T[],
+  totalItems: number,
+  query: PaginationQuery,
+  options: PaginateOptions = {},
+): Paginated<T> {
+  const { page, limit } = resolvePagination(query);
+  const totalPages = Math.ceil(totalItems / limit);
+  const link = (target: number) =>
+    buildLink(options.url, { page: target, limit, cursor: undefined });
+
+  return {
+    data,
+    meta: { page, limit, totalItems, totalPages },
+    links: {
+      self: link(page),
+      first: link(1),
+      ...(page > 1 && { previous: link(Math.min(page - 1, totalPages || 1)) }),
+      ...(page < totalPages && { next: link(page + 1) }),
+      last: link(Math.max(totalPages, 1)),
+    },
+  };
+}
+
+/**
+ * Monta a resposta de uma página obtida por cursor.
+ * @param data Os itens da página.
+ * @param nextCursor O cursor da próxima página, ou `null` na última.
+ * @param query Os parâmetros de paginação da requisição.
+ * @param options A URL base dos links.
+ */
+export function createCursorPaginated<T>(
+  data: T[],
+  nextCursor: string | null,
+  query: PaginationQuery,
+  options: PaginateOptions = {},
+): Paginated<T> {
+  const { limit } = resolvePagination(query);
+  const link = (cursor: string) =>
+    buildLink(options.url, { page: undefined, cursor, limit });
+
+  return {
+    data,
+    meta: { limit, nextCursor },
+    links: {
+      self: link(query.cursor ?? ''),
+      // Um cursor vazio inicia a paginação por cursor.
+      first: link(''),
+      ...(nextCursor && { next: link(nextCursor) }),
+    },
+  };
+}
+
+/**
+ * Aplica os padrões de `page` e `limit` (para queries criadas sem o ValidationPipe).
+ */
+export function resolvePagination(query: PaginationQuery): {
+  page: number;
+  limit: number;
+} {
+  return {
+    page: query.page ?? 1,
+    limit: query.limit ?? DEFAULT_PAGE_LIMIT,
+  };
+}
+
+/**
+ * Codifica o valor da coluna do último item como cursor opaco.
+ */
+export function encodeCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Decodifica um cursor de `encodeCursor`.
+ * @throws BadRequestException se o cursor for inválido ou não contiver um texto ou número.
+ */
+export function decodeCursor(cursor: string): string | number {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new BadRequestException('Invalid pagination cursor.');
+  }
+
+  // Objetos e arrays chegariam ao filtro do banco como operadores ou listas.
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new BadRequestException('Invalid pagination cursor.');
+  }
+  return value;
+}
+
+function buildLink(
+  url = '',
+  params: Record<string, string | number | undefined>,
+): string {
+  const [path, search = ''] = url.split('?');
+  const searchParams = new URLSearchParams(search);
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) searchParams.delete(key);
+    else searchParams.set(key, String(value));
+  }
+
+  return `${path}?${searchParams.toString()}`;
+}
@@ -0,0 +1,84 @@
+import type { FilterQuery, Model, Query } from 'mongoose';
+
+import {
+  createCursorPaginated,
+  createPaginated,
+  decodeCursor,
+  encodeCursor,
+  Paginated,
+  PaginateOptions,
+  resolvePagination,
+} from './paginated';
+import { PaginationQuery } from './pagination.query';
+
+/**
+ * Opções de `paginateMongoose`.
+ */
+export interface MongoosePaginateOptions<T> extends PaginateOptions {
+  /**
+   * O filtro da busca, usado com um Model.
+   */
+  filter?: FilterQuery<T>;
+  /**
+   * Campo único e ordenável usado na paginação por cursor. (Padrão: '_id')
+   */
+  cursorField?: string;
+}
+
+/**
+ * Pagina um Model ou uma Query (ex: `model.find(filter).sort(...)`) do Mongoose, por
+ * página (`page` e `limit`, com o total de documentos) ou por cursor (`cursor`, em
+ * ordem crescente de `cursorField`). A Query informada não é alterada.
+ * @param source O Model ou a Query.
+ * @param query Os parâmetros de paginação da requisição.
+ * @param options O filtro, o campo do cursor e a URL base dos links.
+ * @throws Error se, na paginação por cursor, a Query for ordenada por outro campo.
+ */
+export async function paginateMongoose<T>(
+  source: Model<T> | Query<T[], T>,
+  query: PaginationQuery,
+  options: MongoosePaginateOptions<T> = {},
+): Promise<Paginated<T>> {
+  const base =
+    'getFilter' in source
+      ? source.clone()
+      : (source.find(options.filter ?? {}) as unknown as Query<T[], T>);
+  const { page, limit } = resolvePagination(query);
+
+  if (query.cursor === undefined) {
+    const [data, totalItems] = await Promise.all([
+      base
+        .clone()
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      base.model.countDocuments(base.getFilter()).exec(),
+    ]);
+    return createPaginated(data, totalItems, query, options);
+  }
+
+  const field = options.cursorField ?? '_id';
+  // O filtro do cursor só avança corretamente se os documentos vierem na ordem dele.
+  const sortFields = Object.keys(
+    (base.getOptions().sort as Record<string, unknown> | undefined) ?? {},
+  ).filter((key) => key !== field);
+  if (sortFields.length > 0) {
+    throw new Error(
+      `[Paginação] A paginação por cursor ordena por '${field}'. Remova a ordenação por '${sortFields.join("', '")}' da Query.`,
+    );
+  }
+
+  if (query.cursor) base.where(field).gt(decodeCursor(query.cursor) as number);
+
+  const items = await base
+    .sort({ [field]: 1 })
+    .limit(limit + 1)
+    .exec();
+  const data = items.slice(0, limit);
+  const nextCursor =
+    items.length > limit
+      ? encodeCursor((data[data.length - 1] as Record<string, unknown>)[field])
+      : null;
+
+  return createCursorPaginated(data, nextCursor, query, options);
+}
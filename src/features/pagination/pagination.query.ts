@@ -0,0 +1,39 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Parâmetros de paginação da query string, validados pelo ValidationPipe de
+ * `.withValidationPipe()`. Com `cursor`, a paginação é por cursor e `page` é ignorado.
+ * Pode ser estendido com os filtros da rota.
+ */
+export class PaginationQuery {
+  @ApiPropertyOptional({ minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: MAX_PAGE_LIMIT,
+    default: DEFAULT_PAGE_LIMIT,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_LIMIT)
+  limit?: number = DEFAULT_PAGE_LIMIT;
+
+  @ApiPropertyOptional({
+    description: 'O `meta.nextCursor` da página anterior.',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
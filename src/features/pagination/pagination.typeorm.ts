@@ -0,0 +1,93 @@
+import type {
+  FindManyOptions,
+  ObjectLiteral,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+
+import {
+  createCursorPaginated,
+  createPaginated,
+  decodeCursor,
+  encodeCursor,
+  Paginated,
+  PaginateOptions,
+  resolvePagination,
+} from './paginated';
+import { PaginationQuery } from './pagination.query';
+
+/**
+ * Opções de `paginateTypeOrm`.
+ */
+export interface TypeOrmPaginateOptions<T> extends PaginateOptions {
+  /**
+   * Opções de busca (ex: `where`, `relations`, `order`), usadas com um Repository.
+   */
+  findOptions?: Omit<FindManyOptions<T>, 'skip' | 'take'>;
+  /**
+   * Propriedade única e ordenável usada na paginação por cursor. (Padrão: 'id')
+   */
+  cursorColumn?: string;
+}
+
+/**
+ * Pagina um Repository ou um SelectQueryBuilder do TypeORM, por página (`page` e
+ * `limit`, com o total de itens) ou por cursor (`cursor`, em ordem crescente de
+ * `cursorColumn`). O QueryBuilder informado não é alterado.
+ * @param source O Repository ou o SelectQueryBuilder.
+ * @param query Os parâmetros de paginação da requisição.
+ * @param options As opções de busca, a coluna do cursor e a URL base dos links.
+ * @throws Error se, na paginação por cursor, a busca for ordenada por outra coluna.
+ */
+export async function paginateTypeOrm<T extends ObjectLiteral>(
+  source: Repository<T> | SelectQueryBuilder<T>,
+  query: PaginationQuery,
+  options: TypeOrmPaginateOptions<T> = {},
+): Promise<Paginated<T>> {
+  const builder =
+    'getManyAndCount' in source
+      ? source.clone()
+      : source
+          .createQueryBuilder(source.metadata.name)
+          .setFindOptions(options.findOptions ?? {});
+  const { page, limit } = resolvePagination(query);
+
+  if (query.cursor === undefined) {
+    const [data, totalItems] = await builder
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+    return createPaginated(data, totalItems, query, options);
+  }
+
+  const column = options.cursorColumn ?? 'id';
+  const path = `${builder.alias}.${column}`;
+  // O filtro do cursor só avança corretamente se os itens vierem na ordem dele.
+  const findOrder =
+    'getManyAndCount' in source ? {} : options.findOptions?.order;
+  const sortColumns = [
+    ...Object.keys(builder.expressionMap.orderBys),
+    ...Object.keys(findOrder ?? {}),
+  ].filter((key) => key !== path && key !== column);
+  if (sortColumns.length > 0) {
+    throw new Error(
+      `[Paginação] A paginação por cursor ordena por '${column}'. Remova a ordenação por '${sortColumns.join("', '")}' da busca.`,
+    );
+  }
+
+  if (query.cursor) {
+    builder.andWhere(`${path} > :paginationCursor`, {
+      paginationCursor: decodeCursor(query.cursor),
+    });
+  }
+
+  const items = await builder
+    .orderBy(path, 'ASC')
+    .take(limit + 1)
+    .getMany();
+  const data = items.slice(0, limit);
+  const nextCursor =
+    items.length > limit ? encodeCursor(data[data.length - 1][column]) : null;
+
+  return createCursorPaginated(data, nextCursor, query, options);
+}
@@ -0,0 +1,4 @@
+export * from './rate-limit.decorator';
+export * from './rate-limit.guard';
+export * from './rate-limit.module';
+export * from './rate-limit.state';
@@ -0,0 +1,70 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_METADATA = 'rate-limit:options';
+export const SKIP_RATE_LIMIT_METADATA = 'rate-limit:skip';
+
+/**
+ * Identifica o cliente de um limite por rota: 'ip', 'user' (`request.user.id` ou `sub`),
+ * 'api-key' (cabeçalho `x-api-key`) ou uma função que recebe a requisição.
+ * Sem o valor na requisição, o IP é usado.
+ */
+export type RateLimitKey =
+  | 'ip'
+  | 'user'
+  | 'api-key'
+  | ((request: any) => string | undefined);
+
+/**
+ * Limite de uma rota (ou de um controller). Os valores omitidos usam os padrões do
+ * RateLimiterPlugin.
+ */
+export interface RateLimitRouteOptions {
+  /**
+   * Máximo de requisições por cliente na janela.
+   */
+  limit?: number;
+  /**
+   * Duração da janela, em milissegundos.
+   */
+  windowMs?: number;
+  /**
+   * Identificação do cliente. (Padrão: 'ip')
+   */
+  key?: RateLimitKey;
+}
+
+/**
+ * Define um limite de requisições próprio para a rota ou para todas as rotas do
+ * controller (inclusive as herdadas), no lugar do limite global do RateLimiterPlugin.
+ * @param options O limite, a janela e a identificação do cliente
+ * (ex: `{ limit: 5, windowMs: 60_000, key: 'ip' }`).
+ */
+export function RateLimit(
+  options: RateLimitRouteOptions,
+): ClassDecorator & MethodDecorator {
+  return SetMetadata(RATE_LIMIT_METADATA, options);
+}
+
+/**
+ * Remove a rota (ou todas as rotas do controller) de qualquer limite de requisições.
+ */
+export function SkipRateLimit(): ClassDecorator & MethodDecorator {
+  return SetMetadata(SKIP_RATE_LIMIT_METADATA, true);
+}
+
+/**
+ * Indica se a rota tem um limite próprio ou foi removida dos limites (no método ou no
+ * controller) e, portanto, fica fora do limite global.
+ * @param handler O método do controller.
+ * @param controller A classe do controller.
+ */
+export function isExcludedFromGlobalLimit(
+  handler: object,
+  controller: object,
+): boolean {
+  return [handler, controller].some(
+    (target) =>
+      Reflect.getMetadata(RATE_LIMIT_METADATA, target) !== undefined ||
+      Reflect.getMetadata(SKIP_RATE_LIMIT_METADATA, target) === true,
+  );
+}
@@ -0,0 +1,159 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import {
+  RATE_LIMIT_METADATA,
+  RateLimitKey,
+  RateLimitRouteOptions,
+  SKIP_RATE_LIMIT_METADATA,
+} from './rate-limit.decorator';
+import { RateLimitState } from './rate-limit.state';
+
+interface HttpRequestLike {
+  ip?: string;
+  socket?: { remoteAddress?: string };
+  headers: Record<string, string | string[] | undefined>;
+  user?: { id?: string | number; sub?: string | number };
+}
+
+interface HttpResponseLike {
+  header(name: string, value: string | number): unknown;
+}
+
+/**
+ * Resolve a identificação do cliente de um limite por rota, prefixada pelo tipo
+ * (ex: 'user:42'). Sem o valor na requisição, usa o IP.
+ * @param key A estratégia de identificação.
+ * @param request A requisição HTTP (Express ou Fastify).
+ */
+export function resolveRateLimitKey(
+  key: RateLimitKey = 'ip',
+  request: HttpRequestLike,
+): string {
+  let value: string | number | undefined;
+
+  if (typeof key === 'function') {
+    value = key(request);
+  } else if (key === 'user') {
+    value = request.user?.id ?? request.user?.sub;
+  } else if (key === 'api-key') {
+    const header = request.headers['x-api-key'];
+    value = Array.isArray(header) ? header[0] : header;
+  }
+
+  if (value !== undefined && value !== null && value !== '') {
+    return `${typeof key === 'function' ? 'custom' : key}:${String(value)}`;
+  }
+  return `ip:${request.ip ?? request.socket?.remoteAddress ?? 'unknown'}`;
+}
+
+/**
+ * Guard registrado pelo RateLimiterPlugin. Aplica os limites de `@RateLimit` (da rota
+ * ou do controller) e ignora as rotas com `@SkipRateLimit`. O limite global é aplicado
+ * antes, por um middleware (Express) ou pelo `@fastify/rate-limit`.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+  private readonly userFallbackScopes = new Set<string>();
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly state: RateLimitState,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') return true;
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<HttpRequestLike>();
+    const response = http.getResponse<HttpResponseLike>();
+    const handler = context.getHandler();
+    const controller = context.getClass();
+
+    // A configuração da rota prevalece sobre a do controller. Limites de controller
+    // são compartilhados entre as suas rotas.
+    const controllerScope =
+      this.state.scopes.get(controller) ?? controller.name;
+    const levels = [
+      [handler, `${controllerScope}.${handler.name}`],
+      [controller, controllerScope],
+    ] as const;
+    for (const [target, scope] of levels) {
+      if (this.reflector.get<boolean>(SKIP_RATE_LIMIT_METADATA, target)) {
+        return true;
+      }
+
+      const options = this.reflector.get<RateLimitRouteOptions | undefined>(
+        RATE_LIMIT_METADATA,
+        target,
+      );
+      if (options) {
+        await this.enforce(options, scope, request, response);
+        return true;
+      }
+    }
+
+    return true;
+  }
+
+  private async enforce(
+    options: RateLimitRouteOptions,
+    scope: string,
+    request: HttpRequestLike,
+    response: HttpResponseLike,
+  ): Promise<void> {
+    const { defaults, counter } = this.state;
+    if (!counter) return;
+
+    const limit = options.limit ?? defaults.limit;
+    const windowMs = options.windowMs ?? defaults.windowMs;
+    const clientKey = resolveRateLimitKey(options.key, request);
+    if (options.key === 'user' && clientKey.startsWith('ip:')) {
+      this.warnUserFallback(scope);
+    }
+
+    const { totalHits, resetTime } = await counter.increment(
+      `${scope}:${clientKey}`,
+      windowMs,
+    );
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((resetTime.getTime() - Date.now()) / 1000),
+    );
+
+    if (defaults.standardHeaders) {
+      response.header('RateLimit-Limit', limit);
+      response.header('RateLimit-Remaining', Math.max(0, limit - totalHits));
+      response.header('RateLimit-Reset', resetSeconds);
+    }
+
+    if (totalHits > limit) {
+      response.header('Retry-After', resetSeconds);
+      throw new HttpException(
+        defaults.message as string | Record<string, any>,
+        defaults.statusCode,
+      );
+    }
+  }
+
+  /**
+   * Avisa (uma vez por rota) que o limite por usuário usou o IP: sem `request.user`, a
+   * autenticação provavelmente roda depois do RateLimitGuard (ex: `@UseGuards` no
+   * controller).
+   */
+  private warnUserFallback(scope: string): void {
+    if (this.userFallbackScopes.has(scope)) return;
+    this.userFallbackScopes.add(scope);
+
+    this.logger.warn(
+      `[RateLimiter] A rota '${scope}' limita por usuário, mas a requisição não tem 'request.user'; usando o IP. Autentique a requisição antes do rate limiter, em um middleware ou em um guard global.`,
+    );
+  }
+}
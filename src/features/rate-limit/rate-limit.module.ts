@@ -0,0 +1,25 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitState } from './rate-limit.state';
+
+@Module({})
+export class RateLimitModule {
+  /**
+   * Registra o RateLimitGuard globalmente.
+   * @param state O estado preenchido pelo RateLimiterPlugin.
+   */
+  static forRoot(state: RateLimitState): DynamicModule {
+    return {
+      module: RateLimitModule,
+      providers: [
+        { provide: RateLimitState, useValue: state },
+        {
+          provide: APP_GUARD,
+          useClass: RateLimitGuard,
+        },
+      ],
+    };
+  }
+}
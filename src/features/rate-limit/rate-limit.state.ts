@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+
+import { RateLimitCounter } from '../../core/rate-limit-store.helper';
+
+/**
+ * Padrões dos limites por rota, herdados das opções do RateLimiterPlugin.
+ */
+export interface RateLimitDefaults {
+  limit: number;
+  windowMs: number;
+  statusCode: number;
+  message: unknown;
+  standardHeaders: boolean;
+}
+
+/**
+ * Estado compartilhado entre o RateLimiterPlugin e o RateLimitGuard: os padrões, os
+ * contadores dos limites por rota e o escopo dos contadores de cada controller.
+ * É preenchido pelo plugin quando a aplicação é configurada.
+ */
+@Injectable()
+export class RateLimitState {
+  defaults: RateLimitDefaults = {
+    limit: 100,
+    windowMs: 15 * 60 * 1000,
+    statusCode: 429,
+    message: 'Too many requests, please try again later.',
+    standardHeaders: true,
+  };
+  counter?: RateLimitCounter;
+  /**
+   * Escopo dos contadores de cada controller: o nome da classe, com um sufixo quando
+   * controllers de módulos diferentes têm o mesmo nome (ex: 'UsersController#2').
+   */
+  scopes = new WeakMap<object, string>();
+}
@@ -0,0 +1,35 @@
+import { Global, Injectable, Module } from '@nestjs/common';
+import { HealthIndicatorResult } from '@nestjs/terminus';
+
+/**
+ * Estado de prontidão da instância. É marcado como "não pronto" no início do
+ * graceful shutdown, fazendo o health check responder 503 para que o balanceador
+ * de carga pare de enviar novas requisições.
+ */
+@Injectable()
+export class ReadinessState {
+  private ready = true;
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  markNotReady(): void {
+    this.ready = false;
+  }
+
+  /**
+   * Indicador de saúde com o estado de prontidão.
+   * @param key A chave do indicador no resultado do health check.
+   */
+  check(key = 'readiness'): HealthIndicatorResult {
+    return { [key]: { status: this.ready ? 'up' : 'down' } };
+  }
+}
+
+@Global()
+@Module({
+  providers: [ReadinessState],
+  exports: [ReadinessState],
+})
+export class ReadinessModule {}
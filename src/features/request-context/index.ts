@@ -0,0 +1,3 @@
+export * from './request-context';
+export * from './request-context.logger';
+export * from './request-context.module';
@@ -0,0 +1,32 @@
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+
+import { RequestContext } from './request-context';
+
+/**
+ * ConsoleLogger do NestJS que inclui o ID da requisição atual em cada linha
+ * (ou no campo `requestId`, com `json: true`).
+ */
+export class RequestContextLogger extends ConsoleLogger {
+  protected formatContext(context: string): string {
+    const requestId = RequestContext.currentRequestId();
+    const formatted = super.formatContext(context);
+    if (!requestId) return formatted;
+
+    const id = `[${requestId}] `;
+    return `${formatted}${this.options.colors ? this.colorize(id, 'verbose') : id}`;
+  }
+
+  protected getJsonLogObject(
+    message: unknown,
+    options: {
+      context: string;
+      logLevel: LogLevel;
+      writeStreamType?: 'stdout' | 'stderr';
+      errorStack?: unknown;
+    },
+  ) {
+    const requestId = RequestContext.currentRequestId();
+    const logObject = super.getJsonLogObject(message, options);
+    return requestId ? { ...logObject, requestId } : logObject;
+  }
+}
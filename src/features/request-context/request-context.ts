@@ -0,0 +1,67 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Dados da requisição atual, mantidos pelo AsyncLocalStorage.
+ */
+interface RequestContextStore {
+  requestId: string;
+  values: Map<string, unknown>;
+}
+
+/**
+ * Contexto da requisição atual (ex: o request ID), disponível em qualquer provider
+ * sem precisar repassar o objeto da requisição. Fora de uma requisição, os valores
+ * são `undefined`.
+ */
+@Injectable()
+export class RequestContext {
+  private static readonly storage =
+    new AsyncLocalStorage<RequestContextStore>();
+
+  /**
+   * Executa o callback dentro de um novo contexto de requisição.
+   * @param requestId O ID da requisição.
+   * @param callback A função executada no contexto.
+   */
+  static run<T>(requestId: string, callback: () => T): T {
+    return RequestContext.storage.run(
+      { requestId, values: new Map() },
+      callback,
+    );
+  }
+
+  /**
+   * Retorna o ID da requisição atual, se houver. Útil fora da injeção de dependências
+   * (ex: em loggers).
+   */
+  static currentRequestId(): string | undefined {
+    return RequestContext.storage.getStore()?.requestId;
+  }
+
+  /**
+   * O ID da requisição atual.
+   */
+  get requestId(): string | undefined {
+    return RequestContext.currentRequestId();
+  }
+
+  /**
+   * Retorna um valor armazenado no contexto da requisição atual.
+   * @param key A chave do valor.
+   */
+  get<T = unknown>(key: string): T | undefined {
+    return RequestContext.storage.getStore()?.values.get(key) as T | undefined;
+  }
+
+  /**
+   * Armazena um valor no contexto da requisição atual (ex: o ID do usuário autenticado).
+   * Fora de uma requisição, o valor é descartado.
+   * @param key A chave do valor.
+   * @param value O valor.
+   */
+  set(key: string, value: unknown): void {
+    RequestContext.storage.getStore()?.values.set(key, value);
+  }
+}
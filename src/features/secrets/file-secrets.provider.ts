@@ -0,0 +1,63 @@
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+
+import { SecretsProvider } from './secrets-provider.interface';
+
+type ReadFileFn = (path: string) => Promise<string>;
+
+/**
+ * Converte um objeto JSON plano em segredos (valores primitivos viram string).
+ * @throws Error se o conteúdo não for um objeto ou tiver valores aninhados.
+ */
+export function toSecretsRecord(
+  source: unknown,
+  origin: string,
+): Record<string, string> {
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    throw new Error(`O conteúdo de ${origin} deve ser um objeto JSON.`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(source)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => {
+        if (typeof value === 'object') {
+          throw new Error(
+            `O segredo '${key}' de ${origin} deve ser um valor simples (string, número ou booleano).`,
+          );
+        }
+        return [key, String(value)];
+      }),
+  );
+}
+
+/**
+ * Provedor de segredos que lê um arquivo JSON plano (ex: `{ "DATABASE_URL": "..." }`).
+ * O arquivo é lido a cada recarga.
+ */
+export class FileSecretsProvider implements SecretsProvider {
+  readonly name = 'file';
+
+  /**
+   * @param path O caminho do arquivo JSON.
+   * @param readFileFn A função usada para ler o arquivo (padrão: fs/promises.readFile).
+   */
+  constructor(
+    private readonly path: string,
+    private readonly readFileFn: ReadFileFn = (path) => readFile(path, 'utf8'),
+  ) {}
+
+  async load(): Promise<Record<string, string>> {
+    const absolutePath = resolve(this.path);
+    const content = await this.readFileFn(absolutePath);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error(`O arquivo ${absolutePath} não contém um JSON válido.`);
+    }
+
+    return toSecretsRecord(parsed, absolutePath);
+  }
+}
@@ -0,0 +1,82 @@
+import { toSecretsRecord } from './file-secrets.provider';
+import { SecretsProvider } from './secrets-provider.interface';
+
+/**
+ * Opções do provedor de segredos HTTP.
+ */
+export interface HttpSecretsProviderOptions {
+  /**
+   * URL do segredo (ex: 'http://vault:8200/v1/secret/data/my-api').
+   */
+  url: string;
+  /**
+   * Token de acesso, enviado no cabeçalho `tokenHeader`.
+   */
+  token?: string;
+  /**
+   * Cabeçalho do token. (Padrão: 'X-Vault-Token')
+   */
+  tokenHeader?: string;
+  /**
+   * Cabeçalhos adicionais da requisição.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Tempo máximo da requisição, em milissegundos. (Padrão: 5000)
+   */
+  timeoutMs?: number;
+  /**
+   * Extrai os segredos do corpo da resposta. O padrão entende as respostas das
+   * engines KV v2 (`data.data`) e KV v1 (`data`) do Vault e objetos JSON planos.
+   */
+  extract?: (body: any) => unknown;
+  /**
+   * A função 'fetch' usada nas requisições (padrão: fetch global).
+   */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Extrai os segredos de uma resposta no formato do Vault (KV v2 ou v1) ou de um objeto plano.
+ */
+export function extractKeyValueSecrets(body: any): unknown {
+  if (body?.data?.data && body.data.metadata) return body.data.data;
+  if (body?.data && typeof body.data === 'object') return body.data;
+  return body;
+}
+
+/**
+ * Provedor de segredos que lê uma API HTTP de chave/valor no estilo do Vault.
+ */
+export class HttpSecretsProvider implements SecretsProvider {
+  readonly name = 'http';
+
+  constructor(private readonly options: HttpSecretsProviderOptions) {}
+
+  async load(): Promise<Record<string, string>> {
+    const {
+      url,
+      token,
+      tokenHeader = 'X-Vault-Token',
+      headers = {},
+      timeoutMs = 5000,
+      extract = extractKeyValueSecrets,
+      fetchFn = fetch,
+    } = this.options;
+
+    const response = await fetchFn(url, {
+      headers: {
+        Accept: 'application/json',
+        ...(token && { [tokenHeader]: token }),
+        ...headers,
+      },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${url} respondeu com status ${response.status}.`);
+    }
+
+    return toSecretsRecord(extract(await response.json()), url);
+  }
+}
@@ -0,0 +1,5 @@
+export * from './file-secrets.provider';
+export * from './http-secrets.provider';
+export * from './secrets-manager';
+export * from './secrets-provider.interface';
+export * from './secrets.module';
@@ -0,0 +1,223 @@
+import { Logger, LoggerService } from '@nestjs/common';
+
+import {
+  SecretChange,
+  SecretsProvider,
+  SecretsProviderOptions,
+} from './secrets-provider.interface';
+
+type SecretChangeListener = (change: SecretChange) => void;
+
+/**
+ * Valida os segredos junto com o restante da configuração e retorna a configuração validada.
+ */
+export type SecretsValidator = (
+  secrets: Record<string, string>,
+) => Record<string, unknown>;
+
+/**
+ * Carrega os segredos dos provedores registrados (antes da validação da configuração),
+ * recarrega-os periodicamente e notifica as alterações. Os segredos ficam apenas no
+ * manager e no ConfigService, nunca em `process.env`.
+ * Disponível para injeção quando `.withSecretsProvider` é usado.
+ */
+export class SecretsManager {
+  private readonly sources: {
+    provider: SecretsProvider;
+    options: SecretsProviderOptions;
+  }[] = [];
+  private readonly values = new Map<string, string>();
+  private readonly listeners = new Set<SecretChangeListener>();
+  private readonly timers: NodeJS.Timeout[] = [];
+  private validator?: SecretsValidator;
+  private config: Record<string, unknown> = {};
+
+  constructor(
+    private readonly logger: LoggerService = new Logger(SecretsManager.name),
+  ) {}
+
+  /**
+   * Registra um provedor. Provedores registrados depois têm prioridade nas chaves em comum.
+   * @param provider O provedor de segredos.
+   * @param options As chaves obrigatórias e o intervalo de recarga.
+   */
+  public addProvider(
+    provider: SecretsProvider,
+    options: SecretsProviderOptions = {},
+  ): this {
+    this.sources.push({ provider, options });
+    return this;
+  }
+
+  /**
+   * Define a validação da configuração, aplicada na inicialização e antes de cada recarga.
+   * @param validator A função que valida os segredos junto com o restante da configuração.
+   */
+  public setValidator(validator: SecretsValidator): void {
+    this.validator = validator;
+  }
+
+  /**
+   * Carrega os segredos de todos os provedores. Os segredos têm prioridade sobre
+   * as variáveis de ambiente de mesmo nome.
+   * @throws Error se um provedor falhar ou não retornar uma chave obrigatória.
+   */
+  public async load(): Promise<void> {
+    for (const { provider, options } of this.sources) {
+      const secrets = await this.fetch(provider, options);
+
+      for (const [key, value] of Object.entries(secrets)) {
+        this.values.set(key, value);
+      }
+
+      this.logger.log(
+        `[Segredos] ${Object.keys(secrets).length} segredo(s) carregado(s) do provedor '${provider.name}'.`,
+      );
+    }
+  }
+
+  /**
+   * Valida os segredos atuais com a validação da configuração.
+   * @returns A configuração validada, incluindo os segredos.
+   * @throws Error se a configuração não passar na validação.
+   */
+  public validate(): Record<string, unknown> {
+    return this.applyValidation(Object.fromEntries(this.values));
+  }
+
+  /**
+   * Recarrega os segredos de um provedor e notifica as chaves alteradas.
+   * Em caso de falha do provedor ou da validação, mantém os valores atuais e registra um aviso.
+   * @param provider O provedor a recarregar.
+   * @returns As alterações aplicadas.
+   */
+  public async refresh(provider: SecretsProvider): Promise<SecretChange[]> {
+    const source = this.sources.find((s) => s.provider === provider);
+    if (!source) return [];
+
+    let secrets: Record<string, string>;
+    try {
+      secrets = await this.fetch(provider, source.options);
+    } catch (error) {
+      this.logger.warn(
+        `[Segredos] Falha ao recarregar os segredos do provedor '${provider.name}'. Os valores atuais foram mantidos. ${(error as Error).message}`,
+      );
+      return [];
+    }
+
+    const changes: SecretChange[] = Object.entries(secrets)
+      .filter(([key, value]) => this.values.get(key) !== value)
+      .map(([key, value]) => ({
+        key,
+        previousValue: this.values.get(key),
+        value,
+        provider: provider.name,
+      }));
+    if (changes.length === 0) return [];
+
+    try {
+      this.applyValidation({ ...Object.fromEntries(this.values), ...secrets });
+    } catch (error) {
+      this.logger.warn(
+        `[Segredos] Os segredos recarregados do provedor '${provider.name}' não passaram na validação da configuração. Os valores atuais foram mantidos. ${(error as Error).message}`,
+      );
+      return [];
+    }
+
+    for (const { key, value } of changes) this.values.set(key, value);
+
+    for (const change of changes) {
+      this.logger.log(
+        `[Segredos] Segredo '${change.key}' atualizado pelo provedor '${change.provider}'.`,
+      );
+      for (const listener of this.listeners) listener(change);
+    }
+
+    return changes;
+  }
+
+  /**
+   * Inicia a recarga periódica dos provedores com `refreshIntervalMs`.
+   */
+  public startRefresh(): void {
+    for (const { provider, options } of this.sources) {
+      if (!options.refreshIntervalMs) continue;
+
+      const timer = setInterval(() => {
+        void this.refresh(provider);
+      }, options.refreshIntervalMs);
+      timer.unref();
+      this.timers.push(timer);
+    }
+  }
+
+  /**
+   * Interrompe a recarga periódica.
+   */
+  public stop(): void {
+    for (const timer of this.timers.splice(0)) clearInterval(timer);
+  }
+
+  /**
+   * Retorna o valor atual de um segredo carregado pelos provedores.
+   * @param key A chave do segredo.
+   */
+  public get(key: string): string | undefined {
+    return this.values.get(key);
+  }
+
+  /**
+   * Retorna os segredos como aplicados no ConfigService (já convertidos pela validação).
+   */
+  public getConfig(): Record<string, unknown> {
+    return this.config;
+  }
+
+  /**
+   * Registra um listener chamado a cada segredo alterado na recarga.
+   * @param listener A função chamada com a alteração.
+   * @returns Uma função que remove o listener.
+   */
+  public onChange(listener: SecretChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private applyValidation(
+    secrets: Record<string, string>,
+  ): Record<string, unknown> {
+    const validated = this.validator ? this.validator(secrets) : secrets;
+
+    this.config = Object.fromEntries(
+      Object.keys(secrets).map((key) => [key, validated[key] ?? secrets[key]]),
+    );
+    return validated;
+  }
+
+  private async fetch(
+    provider: SecretsProvider,
+    options: SecretsProviderOptions,
+  ): Promise<Record<string, string>> {
+    const keys = options.keys ?? [];
+
+    let secrets: Record<string, string>;
+    try {
+      secrets = await provider.load(keys);
+    } catch (error) {
+      throw new Error(
+        `[Segredos] Falha ao carregar os segredos do provedor '${provider.name}': ${(error as Error).message}`,
+      );
+    }
+
+    if (keys.length === 0) return secrets;
+
+    const missing = keys.filter((key) => secrets[key] === undefined);
+    if (missing.length > 0) {
+      throw new Error(
+        `[Segredos] O provedor '${provider.name}' não retornou os segredos: ${missing.join(', ')}.`,
+      );
+    }
+
+    return Object.fromEntries(keys.map((key) => [key, secrets[key]]));
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Fonte externa de segredos (ex: arquivo JSON, Vault, AWS Secrets Manager).
+ */
+export interface SecretsProvider {
+  /**
+   * Nome do provedor, exibido nos logs e nas mensagens de erro.
+   */
+  readonly name: string;
+  /**
+   * Carrega os segredos.
+   * @param keys As chaves solicitadas. Vazio quando todas as chaves do provedor devem ser carregadas.
+   */
+  load(keys: string[]): Promise<Record<string, string>>;
+}
+
+/**
+ * Opções de registro de um provedor de segredos.
+ */
+export interface SecretsProviderOptions {
+  /**
+   * Chaves obrigatórias. Se informadas, apenas elas são aplicadas e a inicialização
+   * falha quando alguma não é retornada pelo provedor. (Padrão: todas as chaves)
+   */
+  keys?: string[];
+  /**
+   * Intervalo, em milissegundos, para recarregar os segredos. Sem valor, os segredos
+   * são carregados apenas na inicialização.
+   */
+  refreshIntervalMs?: number;
+}
+
+/**
+ * Alteração de um segredo detectada na recarga.
+ */
+export interface SecretChange {
+  key: string;
+  previousValue: string | undefined;
+  value: string;
+  provider: string;
+}
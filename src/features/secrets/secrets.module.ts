@@ -0,0 +1,52 @@
+import {
+  DynamicModule,
+  Global,
+  Inject,
+  Module,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { CONFIGURATION_TOKEN } from '@nestjs/config/dist/config.constants';
+
+import { SecretsManager } from './secrets-manager';
+
+/**
+ * Expõe o SecretsManager para injeção, inicia a recarga periódica e mantém o
+ * ConfigService atualizado com os segredos alterados. A configuração é atualizada
+ * diretamente, sem `configService.set` (que também escreveria em `process.env`).
+ */
+@Global()
+@Module({})
+export class SecretsModule implements OnModuleInit, OnModuleDestroy {
+  private unsubscribe?: () => void;
+
+  constructor(
+    private readonly secretsManager: SecretsManager,
+    @Optional()
+    @Inject(CONFIGURATION_TOKEN)
+    private readonly configuration?: Record<string, unknown>,
+  ) {}
+
+  static forRoot(secretsManager: SecretsManager): DynamicModule {
+    return {
+      module: SecretsModule,
+      providers: [{ provide: SecretsManager, useValue: secretsManager }],
+      exports: [SecretsManager],
+    };
+  }
+
+  onModuleInit() {
+    this.unsubscribe = this.secretsManager.onChange(({ key }) => {
+      if (this.configuration) {
+        this.configuration[key] = this.secretsManager.getConfig()[key];
+      }
+    });
+    this.secretsManager.startRefresh();
+  }
+
+  onModuleDestroy() {
+    this.unsubscribe?.();
+    this.secretsManager.stop();
+  }
+}
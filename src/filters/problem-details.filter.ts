@@ -0,0 +1,236 @@
+import { STATUS_CODES } from 'http';
+
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { throwError } from 'rxjs';
+
+import { RequestContext } from '../features/request-context';
+import {
+  ValidationException,
+  ValidationFieldError,
+} from './validation.exception';
+
+/**
+ * Corpo de uma resposta de erro no formato RFC 7807 (`application/problem+json`).
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  /**
+   * O ID da requisição, quando o `.withRequestContext()` está habilitado.
+   */
+  requestId?: string;
+  /**
+   * Os erros por campo, em falhas de validação.
+   */
+  errors?: Partial<ValidationFieldError>[];
+  stack?: string;
+}
+
+/**
+ * Opções do filtro de `.withProblemDetails()`.
+ */
+export interface ProblemDetailsOptions {
+  /**
+   * Base das URIs do campo `type` (ex: 'https://api.example.com/problems'), seguida do
+   * tipo do problema (ex: '/not-found'). Sem ela, o `type` é 'about:blank'.
+   */
+  typeBaseUrl?: string;
+  /**
+   * Inclui o stack trace dos erros internos na resposta. Ignorado em produção.
+   * (Padrão: false)
+   */
+  includeStack?: boolean;
+}
+
+interface HttpRequestLike {
+  url?: string;
+  originalUrl?: string;
+}
+
+interface HttpResponseLike {
+  status(code: number): this;
+  header(name: string, value: string): this;
+  send(body: string): unknown;
+}
+
+type Problem = Omit<ProblemDetails, 'type' | 'instance' | 'requestId'> & {
+  slug: string;
+};
+
+/**
+ * Códigos de erro dos drivers (PostgreSQL, MySQL, SQLite e SQL Server) para violações
+ * de unicidade e de chave estrangeira, respondidas com 409.
+ */
+const CONFLICT_ERROR_CODES = new Set<string | number>([
+  '23505',
+  '23503',
+  'ER_DUP_ENTRY',
+  'ER_NO_REFERENCED_ROW_2',
+  'ER_ROW_IS_REFERENCED_2',
+  'SQLITE_CONSTRAINT_UNIQUE',
+  'SQLITE_CONSTRAINT_FOREIGNKEY',
+  2601,
+  2627,
+  547,
+]);
+
+/**
+ * Filtro global que responde todos os erros HTTP no formato RFC 7807.
+ * Trata `HttpException`, os erros de validação (com os erros por campo), os erros do
+ * TypeORM (`EntityNotFoundError` e `QueryFailedError`, identificados pelo nome) e erros
+ * desconhecidos. No perfil 'production', as mensagens dos erros internos são omitidas.
+ */
+@Catch()
+export class ProblemDetailsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ProblemDetailsFilter.name);
+  private readonly production: boolean;
+
+  /**
+   * @param options A base das URIs de `type` e a inclusão do stack trace.
+   * @param profile O perfil ativo da aplicação, resolvido pelo AppInitializer.
+   */
+  constructor(
+    private readonly options: ProblemDetailsOptions = {},
+    profile?: string,
+  ) {
+    this.production = profile === 'production';
+  }
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    // Em aplicações híbridas, os erros dos microservices seguem o tratamento padrão.
+    if (host.getType() !== 'http') return throwError(() => exception);
+
+    const http = host.switchToHttp();
+    const request = http.getRequest<HttpRequestLike>();
+    const response = http.getResponse<HttpResponseLike>();
+
+    const { slug, ...problem } = this.toProblem(exception);
+    const requestId = RequestContext.currentRequestId();
+    const body: ProblemDetails = {
+      type: this.options.typeBaseUrl
+        ? `${this.options.typeBaseUrl.replace(/\/+$/, '')}/${slug}`
+        : 'about:blank',
+      ...problem,
+      instance: request.originalUrl ?? request.url,
+      ...(requestId && { requestId }),
+    };
+
+    response
+      .status(body.status)
+      .header('Content-Type', 'application/problem+json')
+      .send(JSON.stringify(body));
+  }
+
+  private toProblem(exception: unknown): Problem {
+    if (exception instanceof HttpException) {
+      return this.fromHttpException(exception);
+    }
+
+    const error =
+      exception instanceof Error ? exception : new Error(String(exception));
+
+    if (error.name === 'EntityNotFoundError') {
+      return this.fromInternalError(error, HttpStatus.NOT_FOUND);
+    }
+    if (error.name === 'QueryFailedError' && this.isConflict(error)) {
+      return this.fromInternalError(error, HttpStatus.CONFLICT);
+    }
+
+    this.logger.error(error.message, error.stack);
+    return {
+      ...this.fromInternalError(error, HttpStatus.INTERNAL_SERVER_ERROR),
+      ...(this.options.includeStack &&
+        !this.production && { stack: error.stack }),
+    };
+  }
+
+  private fromHttpException(exception: HttpException): Problem {
+    const status = exception.getStatus();
+    const title = STATUS_CODES[status] ?? 'Error';
+
+    if (exception instanceof ValidationException) {
+      return {
+        slug: 'validation-error',
+        title,
+        status,
+        detail: 'The request contains invalid fields.',
+        errors: exception.fieldErrors,
+      };
+    }
+
+    const response = exception.getResponse();
+    const message =
+      typeof response === 'string'
+        ? response
+        : (response as { message?: unknown }).message;
+
+    // ValidationPipe com uma `exceptionFactory` própria: apenas as mensagens.
+    if (Array.isArray(message)) {
+      return {
+        slug: 'validation-error',
+        title,
+        status,
+        detail: 'The request contains invalid fields.',
+        errors: message.map((item) => ({ message: String(item) })),
+      };
+    }
+
+    return {
+      slug: toSlug(title),
+      title,
+      status,
+      ...(typeof message === 'string' &&
+        message !== title && { detail: message }),
+    };
+  }
+
+  /**
+   * Erros que não são `HttpException`: a mensagem original só é exposta fora de produção.
+   */
+  private fromInternalError(error: Error, status: HttpStatus): Problem {
+    const title = STATUS_CODES[status] ?? 'Error';
+    const genericDetails: Partial<Record<HttpStatus, string>> = {
+      [HttpStatus.NOT_FOUND]: 'The requested resource was not found.',
+      [HttpStatus.CONFLICT]: 'The request conflicts with an existing resource.',
+    };
+
+    return {
+      slug: toSlug(title),
+      title,
+      status,
+      detail: this.production
+        ? (genericDetails[status] ?? 'An unexpected error occurred.')
+        : error.message,
+    };
+  }
+
+  private isConflict(error: Error): boolean {
+    const { driverError } = error as {
+      driverError?: { code?: string; number?: number };
+    };
+
+    return [driverError?.code, driverError?.number].some(
+      (code) => code !== undefined && CONFLICT_ERROR_CODES.has(code),
+    );
+  }
+}
+
+/**
+ * Converte o título do status no tipo do problema (ex: 'Not Found' → 'not-found').
+ */
+function toSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
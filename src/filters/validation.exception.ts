@@ -0,0 +1,60 @@
+import { STATUS_CODES } from 'http';
+
+import { HttpException, HttpStatus, ValidationError } from '@nestjs/common';
+
+/**
+ * Erro de validação de um campo, com o caminho completo (ex: 'address.city').
+ */
+export interface ValidationFieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Exceção lançada pelo ValidationPipe de `.withValidationPipe()`. A resposta é a mesma
+ * do ValidationPipe padrão; os erros por campo ficam em `fieldErrors`, usados pelo
+ * filtro de `.withProblemDetails()`.
+ */
+export class ValidationException extends HttpException {
+  readonly fieldErrors: ValidationFieldError[];
+
+  /**
+   * @param errors Os erros retornados pelo class-validator.
+   * @param status O status da resposta. (Padrão: 400)
+   */
+  constructor(
+    errors: ValidationError[],
+    status: number = HttpStatus.BAD_REQUEST,
+  ) {
+    const fieldErrors = errors.flatMap((error) => flattenErrors(error));
+    // Mesmas mensagens do ValidationPipe padrão: as de campos aninhados são
+    // prefixadas pelo caminho do objeto pai (ex: 'address.city must be a string').
+    const messages = fieldErrors.map(({ field, message }) => {
+      const separator = field.lastIndexOf('.');
+      return separator > 0
+        ? `${field.slice(0, separator)}.${message}`
+        : message;
+    });
+
+    super(
+      HttpException.createBody(messages, STATUS_CODES[status] ?? '', status),
+      status,
+    );
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+function flattenErrors(
+  error: ValidationError,
+  parentPath?: string,
+): ValidationFieldError[] {
+  const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+
+  return [
+    ...Object.values(error.constraints ?? {}).map((message) => ({
+      field,
+      message,
+    })),
+    ...(error.children ?? []).flatMap((child) => flattenErrors(child, field)),
+  ];
+}
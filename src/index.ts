@@ -1,9 +1,84 @@
 export * from './core/app-initializer';
+export {
+  StartupReport,
+  StartupReportOptions,
+  StartupRoute,
+  StartupPhaseTiming,
+} from './core/startup-report.helper';
+export { InitializerConfigFile } from './core/config-file.helper';
+export {
+  ConfigSchema,
+  ConfigValidationError,
+  ConfigValidationIssue,
+  InferConfig,
+  TypedConfigService,
+} from './core/config-validator.helper';
+export { ClusterOptions } from './core/cluster.helper';
+export { GracefulShutdownOptions } from './core/graceful-shutdown.helper';
+export { SecretFilesOptions } from './core/secret-files.helper';
+export {
+  RateLimitFallbackPolicy,
+  RateLimitRedisClient,
+  RedisRateLimitStoreOptions,
+} from './core/rate-limit-store.helper';
+export { HttpsCertificateOptions } from './core/https.helper';
+export { ManagementServerOptions } from './core/management-server.helper';
 
 export { TypeOrmStarterOptions } from './starters/typeorm.starter';
 export { MongooseStarterOptions } from './starters/mongoose.starter';
-export { CachingStarterOptions } from './starters/caching.starter';
+export {
+  CACHE_REDIS_CLIENT,
+  CachingStarterOptions,
+} from './starters/caching.starter';
 
 export { TerminusHealthCheckOptions } from './features/terminus-health-check.module';
+export { MetricsModuleOptions } from './features/metrics/metrics.module';
+export { ReadinessState } from './features/readiness.module';
+export { RequestContext } from './features/request-context';
+export { StructuredLogger, StructuredLoggingOptions } from './features/logging';
+export {
+  RateLimit,
+  SkipRateLimit,
+  RateLimitKey,
+  RateLimitRouteOptions,
+  RateLimitGuard,
+} from './features/rate-limit';
+export {
+  SecretsManager,
+  SecretsProvider,
+  SecretsProviderOptions,
+  SecretChange,
+  FileSecretsProvider,
+  HttpSecretsProvider,
+  HttpSecretsProviderOptions,
+} from './features/secrets';
+
+export {
+  ApiPaginatedResponse,
+  MongoosePaginateOptions,
+  paginateMongoose,
+  PaginateOptions,
+  paginateTypeOrm,
+  Paginated,
+  PaginationLinks,
+  PaginationMeta,
+  PaginationQuery,
+  TypeOrmPaginateOptions,
+} from './features/pagination';
+export {
+  RawResponse,
+  ResponseMapper,
+  ResponseMapperContext,
+  ResponseMapperOptions,
+} from './interceptors/response-pattern.interceptor';
+export {
+  ProblemDetails,
+  ProblemDetailsFilter,
+  ProblemDetailsOptions,
+} from './filters/problem-details.filter';
+export {
+  ValidationException,
+  ValidationFieldError,
+} from './filters/validation.exception';
 
 export * from './plugins';
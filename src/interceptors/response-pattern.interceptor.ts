@@ -1,12 +1,168 @@
-import { CallHandler, ExecutionContext, NestInterceptor } from '@nestjs/common';
+import { Readable } from 'stream';
+
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  HttpStatus,
+  NestInterceptor,
+  RequestMethod,
+  SetMetadata,
+  StreamableFile,
+  Type,
+} from '@nestjs/common';
+import {
+  HTTP_CODE_METADATA,
+  REDIRECT_METADATA,
+  RENDER_METADATA,
+  RESPONSE_PASSTHROUGH_METADATA,
+  ROUTE_ARGS_METADATA,
+  SSE_METADATA,
+} from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
+import { Reflector } from '@nestjs/core';
+import { ApiExtension } from '@nestjs/swagger';
 import { map, Observable } from 'rxjs';
 
-export type ResponseMapper<T> = (data: any, context: ExecutionContext) => T;
+import { RAW_RESPONSE_EXTENSION } from '../core/swagger-envelope.helper';
+
+export const RAW_RESPONSE_METADATA = 'response-pattern:raw';
+
+/**
+ * Dados da resposta repassados ao ResponseMapper.
+ */
+export interface ResponseMapperContext {
+  /**
+   * O status HTTP da resposta (de `@HttpCode` ou o padrão do método).
+   */
+  statusCode: number;
+  /**
+   * O momento do mapeamento, no formato ISO 8601.
+   */
+  timestamp: string;
+}
+
+export type ResponseMapper<T> = (
+  data: any,
+  context: ExecutionContext,
+  response: ResponseMapperContext,
+) => T;
 
+/**
+ * Opções de `.withResponseMapper()`.
+ */
+export interface ResponseMapperOptions {
+  /**
+   * Retorna `true` para as requisições cuja resposta não deve ser mapeada.
+   */
+  skip?: (context: ExecutionContext) => boolean;
+  /**
+   * A classe (DTO) do envelope produzido pelo mapper (ex: `{ data, meta }`). As respostas
+   * de sucesso do documento Swagger passam a usar o envelope, com o DTO original em
+   * `data`. As rotas com `@RawResponse()` mantêm o schema original.
+   */
+  swaggerEnvelope?: Type;
+}
+
+/**
+ * Mantém a resposta da rota (ou de todas as rotas do controller) sem o mapeamento
+ * do `.withResponseMapper()`, também no documento Swagger.
+ */
+export const RawResponse = (): ClassDecorator & MethodDecorator =>
+  applyDecorators(
+    SetMetadata(RAW_RESPONSE_METADATA, true),
+    ApiExtension(RAW_RESPONSE_EXTENSION, true),
+  );
+
+/**
+ * Aplica o ResponseMapper às respostas HTTP. Arquivos e streams, respostas escritas com
+ * `@Res()`, SSE, redirecionamentos, templates e rotas com `@RawResponse()` são mantidos.
+ */
 export class ResponsePatternInterceptor implements NestInterceptor {
-  constructor(private readonly mapper: ResponseMapper<any>) {}
+  constructor(
+    private readonly mapper: ResponseMapper<any>,
+    private readonly options: ResponseMapperOptions = {},
+    private readonly reflector = new Reflector(),
+  ) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    return next.handle().pipe(map((data) => this.mapper(data, context)));
+    if (!this.shouldMap(context)) return next.handle();
+
+    const statusCode = this.getStatusCode(context);
+    return next.handle().pipe(
+      map((data) =>
+        data instanceof StreamableFile || data instanceof Readable
+          ? data
+          : this.mapper(data, context, {
+              statusCode,
+              timestamp: new Date().toISOString(),
+            }),
+      ),
+    );
+  }
+
+  private shouldMap(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') return false;
+
+    const handler = context.getHandler();
+    const controller = context.getClass();
+
+    if (
+      this.reflector.getAllAndOverride<boolean>(RAW_RESPONSE_METADATA, [
+        handler,
+        controller,
+      ])
+    ) {
+      return false;
+    }
+
+    // Respostas que o Nest não envia como JSON.
+    if (
+      [SSE_METADATA, REDIRECT_METADATA, RENDER_METADATA].some((key) =>
+        this.reflector.get<unknown>(key, handler),
+      )
+    ) {
+      return false;
+    }
+
+    if (this.writesResponseDirectly(controller, handler.name)) return false;
+
+    return !this.options.skip?.(context);
+  }
+
+  /**
+   * Rotas com `@Res()` ou `@Next()` (sem `passthrough`) escrevem a resposta por conta
+   * própria; o retorno do método é ignorado pelo Nest.
+   */
+  private writesResponseDirectly(controller: object, method: string): boolean {
+    const args: Record<string, unknown> =
+      Reflect.getMetadata(ROUTE_ARGS_METADATA, controller, method) ?? {};
+    const usesResponse = Object.keys(args).some((key) =>
+      [RouteParamtypes.RESPONSE, RouteParamtypes.NEXT].includes(
+        Number(key.split(':')[0]),
+      ),
+    );
+
+    return (
+      usesResponse &&
+      !Reflect.getMetadata(RESPONSE_PASSTHROUGH_METADATA, controller, method)
+    );
+  }
+
+  /**
+   * O status definido por `@HttpCode` ou, como no Nest, 201 para POST e 200 para os
+   * demais métodos.
+   */
+  private getStatusCode(context: ExecutionContext): number {
+    const httpCode = this.reflector.get<number | undefined>(
+      HTTP_CODE_METADATA,
+      context.getHandler(),
+    );
+    if (httpCode) return httpCode;
+
+    const { method } = context.switchToHttp().getRequest<{ method: string }>();
+    return method === RequestMethod[RequestMethod.POST]
+      ? HttpStatus.CREATED
+      : HttpStatus.OK;
   }
 }
@@ -0,0 +1,61 @@
+import { Server } from 'http';
+
+import { Logger } from '@nestjs/common';
+
+import { AppInitializerPlugin, AppInitializerPluginContext } from '../core';
+import {
+  assertHttpsRedirectOptions,
+  createHttpsRedirectServer,
+  HttpsRedirectOptions,
+} from '../core/https.helper';
+
+/**
+ * Um plugin do AppInitializer que inicia um servidor HTTP adicional
+ * que redireciona todas as requisições para a aplicação em HTTPS.
+ */
+export class HttpsRedirectPlugin implements AppInitializerPlugin {
+  readonly name = 'https-redirect';
+  private readonly logger = new Logger(HttpsRedirectPlugin.name);
+  private server?: Server;
+
+  /**
+   * @param httpPort A porta do servidor HTTP de redirecionamento.
+   * @param options O host de destino ou os hosts aceitos no cabeçalho Host.
+   * @throws Error se nem o host nem os hosts aceitos forem informados.
+   */
+  constructor(
+    private readonly httpPort: number,
+    private readonly options: HttpsRedirectOptions,
+  ) {
+    assertHttpsRedirectOptions(options);
+  }
+
+  /**
+   * Hook 'afterListen': inicia o servidor de redirecionamento para a porta HTTPS da aplicação.
+   * @param context O contexto do plugin, com a porta da aplicação.
+   */
+  async afterListen(context: AppInitializerPluginContext): Promise<void> {
+    const server = createHttpsRedirectServer(context.port, this.options);
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.httpPort, () => resolve());
+    });
+
+    this.server = server;
+    this.logger.log(
+      `↪️ Redirecionando HTTP (porta ${this.httpPort}) para HTTPS (porta ${context.port}).`,
+    );
+  }
+
+  /**
+   * Hook 'onShutdown': encerra o servidor de redirecionamento.
+   */
+  async onShutdown(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
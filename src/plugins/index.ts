@@ -1,3 +1,5 @@
+export * from './https-redirect.plugin';
 export * from './rate-limiter.plugin';
+export * from './request-context.plugin';
 export * from './request-logger.plugin';
 export * from './typeorm-migration.plugin';
@@ -1,12 +1,63 @@
-import { INestApplication } from '@nestjs/common';
+import { INestApplication, Logger, VersioningOptions } from '@nestjs/common';
+import { ModulesContainer } from '@nestjs/core';
 import rateLimit, { Options as RateLimitOptions } from 'express-rate-limit';
+import type { RedisClientType } from 'redis';
 
-import { AppInitializerPlugin } from '../core';
+import { AppInitializerPlugin, AppInitializerPluginContext } from '../core';
+import {
+  createRouteMatcher,
+  getHttpPlatform,
+  registerFastifyPlugin,
+} from '../core/http-platform.helper';
+import { findProvider } from '../core/provider.helper';
+import {
+  createExpressRateLimitStore,
+  createFastifyRateLimitStore,
+  loadRedisPackage,
+  RateLimitCounter,
+  RateLimitRedisClient,
+  RedisRateLimitStoreOptions,
+} from '../core/rate-limit-store.helper';
+import { collectRoutes } from '../core/startup-report.helper';
+import {
+  isExcludedFromGlobalLimit,
+  RateLimitModule,
+  RateLimitState,
+} from '../features/rate-limit';
+import { CACHE_REDIS_CLIENT } from '../starters/caching.starter';
+
+/**
+ * Opções do RateLimiterPlugin: as opções do express-rate-limit, com o `store`
+ * aceitando também a configuração do store Redis (`{ type: 'redis' }`). O `limit` é
+ * um número, pois também é o padrão dos limites por rota e o `max` do Fastify.
+ */
+export type RateLimiterOptions = Partial<
+  Omit<RateLimitOptions, 'store' | 'limit'>
+> & {
+  limit?: number;
+  store?: RateLimitOptions['store'] | RedisRateLimitStoreOptions;
+};
+
+const isRedisStoreOptions = (
+  store: RateLimiterOptions['store'],
+): store is RedisRateLimitStoreOptions =>
+  (store as RedisRateLimitStoreOptions | undefined)?.type === 'redis';
 
 export class RateLimiterPlugin implements AppInitializerPlugin {
+  readonly name = 'rate-limiter';
+
+  private readonly logger = new Logger(RateLimiterPlugin.name);
   private readonly options: RateLimitOptions;
+  private readonly redisStoreOptions?: RedisRateLimitStoreOptions;
+  private readonly state = new RateLimitState();
+  private redisClient?: RedisClientType;
+  private globalPrefix?: string;
+  private versioning?: VersioningOptions;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const { store, ...rest } = options;
+    if (isRedisStoreOptions(store)) this.redisStoreOptions = store;
 
-  constructor(options: Partial<RateLimitOptions> = {}) {
     const finalOptions = {
       windowMs: 15 * 60 * 1000,
       limit: 100,
@@ -15,13 +66,183 @@ export class RateLimiterPlugin implements AppInitializerPlugin {
         'Too many requests from this IP, please try again after 15 minutes',
       standardHeaders: true,
       legacyHeaders: false,
-      ...options,
+      ...rest,
+      ...(store && !isRedisStoreOptions(store) && { store }),
     };
 
+    if (typeof finalOptions.limit !== 'number') {
+      throw new Error(
+        "[RateLimiter] A opção 'limit' precisa ser um número. Para limites diferentes por rota, use '@RateLimit'.",
+      );
+    }
+
     this.options = finalOptions as RateLimitOptions;
+    this.state.defaults = {
+      limit: finalOptions.limit,
+      windowMs: finalOptions.windowMs,
+      statusCode: finalOptions.statusCode,
+      message: finalOptions.message,
+      standardHeaders: finalOptions.standardHeaders !== false,
+    };
+  }
+
+  /**
+   * Hook 'configureModule': registra o RateLimitGuard, que aplica os limites de
+   * `@RateLimit` e `@SkipRateLimit`.
+   */
+  configureModule(context: AppInitializerPluginContext): void {
+    this.globalPrefix = context.globalPrefix;
+    this.versioning = context.versioningOptions;
+    context.rootModule.imports.push(RateLimitModule.forRoot(this.state));
+  }
+
+  async apply(app: INestApplication): Promise<void> {
+    const counter = this.redisStoreOptions
+      ? this.createRedisCounter(app)
+      : undefined;
+    // Os limites por rota usam os contadores do store Redis ou, sem ele, contadores
+    // em memória.
+    this.state.counter =
+      counter ?? new RateLimitCounter(undefined, {}, this.logger);
+    this.assignControllerScopes(app);
+
+    // As rotas com `@RateLimit` ou `@SkipRateLimit` ficam com o RateLimitGuard. Elas são
+    // levantadas uma vez, a partir dos metadados dos controllers.
+    const isExcluded = createRouteMatcher(
+      collectRoutes(
+        app,
+        this.globalPrefix,
+        this.versioning,
+        isExcludedFromGlobalLimit,
+      ),
+    );
+
+    if (getHttpPlatform(app, 'RateLimiterPlugin') === 'fastify') {
+      await registerFastifyPlugin(
+        app,
+        '@fastify/rate-limit',
+        'RateLimiterPlugin',
+        {
+          ...this.toFastifyOptions(),
+          allowList: (request: { method: string; url: string }) =>
+            isExcluded({
+              method: request.method,
+              path: request.url.split('?')[0],
+            }),
+          ...(counter && { store: createFastifyRateLimitStore(counter) }),
+        },
+      );
+      return;
+    }
+
+    // O limite global roda antes do roteamento e dos guards, então também conta as
+    // requisições rejeitadas por outros guards e as rotas inexistentes.
+    const { skip } = this.options;
+    app.use(
+      rateLimit({
+        ...this.options,
+        ...(counter && { store: createExpressRateLimitStore(counter) }),
+        skip: (request, response) =>
+          isExcluded(request) || (skip?.(request, response) ?? false),
+      }),
+    );
+  }
+
+  /**
+   * Hook 'onShutdown': encerra a conexão Redis criada a partir de `store.url`.
+   */
+  async onShutdown(): Promise<void> {
+    if (this.redisClient?.isOpen) await this.redisClient.disconnect();
   }
 
-  apply(app: INestApplication): void {
-    app.use(rateLimit(this.options));
+  /**
+   * Define o escopo dos contadores de cada controller. Controllers de módulos diferentes
+   * com o mesmo nome recebem um sufixo, na ordem de registro dos módulos, que é a mesma
+   * em todas as instâncias que compartilham os contadores no Redis.
+   */
+  private assignControllerScopes(app: INestApplication): void {
+    const { scopes } = this.state;
+    const counts = new Map<string, number>();
+
+    for (const module of app.get(ModulesContainer).values()) {
+      for (const { metatype } of module.controllers.values()) {
+        if (!metatype || scopes.has(metatype)) continue;
+
+        const count = (counts.get(metatype.name) ?? 0) + 1;
+        counts.set(metatype.name, count);
+        scopes.set(
+          metatype,
+          count === 1 ? metatype.name : `${metatype.name}#${count}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Cria os contadores do store Redis, usando o cliente informado, uma conexão nova
+   * a partir da `url` ou a conexão do `.withCaching()`, nesta ordem.
+   * @throws Error se nenhuma conexão estiver disponível.
+   */
+  private createRedisCounter(app: INestApplication): RateLimitCounter {
+    const { url, client, prefix, fallback } = this.redisStoreOptions!;
+    const redisClient =
+      client ??
+      (url
+        ? this.connect(url)
+        : findProvider<RateLimitRedisClient>(app, CACHE_REDIS_CLIENT));
+
+    if (!redisClient) {
+      throw new Error(
+        "[RateLimiter] Nenhuma conexão com o Redis disponível para o store do rate limiter. Use '.withCaching()' ou informe 'store.url'.",
+      );
+    }
+
+    return new RateLimitCounter(redisClient, { prefix, fallback }, this.logger);
+  }
+
+  /**
+   * Conecta ao Redis em segundo plano, sem bloquear a inicialização. Enquanto a conexão
+   * não estiver pronta, os contadores aplicam a política de fallback. As falhas de
+   * conexão são registradas uma vez por queda.
+   */
+  private connect(url: string): RateLimitRedisClient {
+    const { createClient } = loadRedisPackage();
+    const client = createClient({ url, disableOfflineQueue: true });
+    let connected = true;
+
+    const logFailure = (error: Error) => {
+      if (!connected) return;
+      connected = false;
+      this.logger.error(
+        `[RateLimiter] Falha na conexão com o Redis do store: ${error.message}`,
+      );
+    };
+    client.on('error', logFailure);
+    client.on('ready', () => {
+      connected = true;
+    });
+    client.connect().catch(logFailure);
+
+    this.redisClient = client as RedisClientType;
+    return client as unknown as RateLimitRedisClient;
+  }
+
+  /**
+   * Converte as opções do express-rate-limit para o `@fastify/rate-limit`.
+   * Apenas a janela, o limite, o status e a mensagem são equivalentes entre as plataformas.
+   */
+  private toFastifyOptions(): Record<string, unknown> {
+    const { windowMs, limit, statusCode, message } = this.options;
+
+    return {
+      global: true,
+      max: limit,
+      timeWindow: windowMs,
+      errorResponseBuilder: () => ({
+        statusCode,
+        error: 'Too Many Requests',
+        message,
+      }),
+    };
   }
 }
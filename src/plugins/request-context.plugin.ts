@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+
+import { INestApplication } from '@nestjs/common';
+import type { FastifyInstance } from 'fastify';
+
+import { AppInitializerPlugin, AppInitializerPluginContext } from '../core';
+import { getHttpPlatform } from '../core/http-platform.helper';
+import {
+  RequestContext,
+  RequestContextLogger,
+  RequestContextModule,
+} from '../features/request-context';
+
+/**
+ * Opções do contexto de requisição.
+ */
+export interface RequestContextOptions {
+  /**
+   * Cabeçalho lido na requisição e devolvido na resposta com o ID.
+   * (Padrão: 'x-request-id')
+   */
+  header?: string;
+  /**
+   * Gera o ID quando a requisição não traz um ID válido.
+   * (Padrão: crypto.randomUUID)
+   */
+  generateId?: () => string;
+  /**
+   * Troca o logger da aplicação por um `ConsoleLogger` que inclui o ID da requisição
+   * em cada linha. Não habilite se a aplicação usar um logger próprio, que seria
+   * substituído. (Padrão: false)
+   */
+  logger?: boolean;
+}
+
+/**
+ * IDs recebidos só são aceitos com caracteres seguros, evitando injeção nos logs.
+ */
+const VALID_REQUEST_ID = /^[\w\-.:]{1,128}$/;
+
+/**
+ * Um plugin do AppInitializer que lê (ou gera) um ID por requisição, devolve-o no
+ * cabeçalho da resposta e o disponibiliza no `RequestContext` (AsyncLocalStorage).
+ */
+export class RequestContextPlugin implements AppInitializerPlugin {
+  readonly name = 'request-context';
+  readonly before = ['request-logger', 'rate-limiter'];
+
+  private readonly header: string;
+  private readonly generateId: () => string;
+  private useContextLogger: boolean;
+
+  constructor(options: RequestContextOptions = {}) {
+    this.useContextLogger = options.logger === true;
+    this.header = (options.header ?? 'x-request-id').toLowerCase();
+    this.generateId = options.generateId ?? randomUUID;
+  }
+
+  /**
+   * Hook 'configureModule': registra o RequestContext globalmente para injeção.
+   */
+  configureModule(context: AppInitializerPluginContext): void {
+    context.rootModule.imports.push(RequestContextModule);
+    // O logger estruturado já inclui o ID da requisição em cada entrada.
+    if (context.structuredLogging) this.useContextLogger = false;
+  }
+
+  apply(app: INestApplication): void {
+    if (this.useContextLogger) {
+      app.useLogger(new RequestContextLogger());
+    }
+
+    if (getHttpPlatform(app, 'RequestContextPlugin') === 'fastify') {
+      const instance = app.getHttpAdapter().getInstance() as FastifyInstance;
+
+      instance.addHook('onRequest', (request, reply, done) => {
+        const requestId = this.resolveRequestId(request.headers[this.header]);
+        reply.header(this.header, requestId);
+        RequestContext.run(requestId, done);
+      });
+      return;
+    }
+
+    app.use((req: IncomingMessage, res: ServerResponse, next: () => void) => {
+      const requestId = this.resolveRequestId(req.headers[this.header]);
+      res.setHeader(this.header, requestId);
+      RequestContext.run(requestId, next);
+    });
+  }
+
+  /**
+   * Usa o ID recebido no cabeçalho, se for válido, ou gera um novo.
+   */
+  private resolveRequestId(received: string | string[] | undefined): string {
+    const value = Array.isArray(received) ? received[0] : received;
+    return value && VALID_REQUEST_ID.test(value) ? value : this.generateId();
+  }
+}
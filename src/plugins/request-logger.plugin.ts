@@ -1,10 +1,277 @@
-import { INestApplication } from '@nestjs/common';
-import morgan from 'morgan';
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
 
-import { AppInitializerPlugin } from '../core';
+import { INestApplication, Logger } from '@nestjs/common';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
 
+import { AppInitializerPlugin, AppInitializerPluginContext } from '../core';
+import { getHttpPlatform } from '../core/http-platform.helper';
+import { DEFAULT_REDACTED_KEYS } from '../features/logging/structured-logger';
+import { RequestContext } from '../features/request-context/request-context';
+
+/**
+ * Dados de uma requisição concluída, repassados aos formatos do log.
+ */
+export interface RequestLogEntry {
+  method: string;
+  url: string;
+  statusCode: number;
+  durationMs: number;
+  requestId?: string;
+  remoteAddress?: string;
+  userAgent?: string;
+  referrer?: string;
+  contentLength?: string;
+  httpVersion: string;
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * Formato do log de requisições: 'dev' (método, URL, status e duração), 'combined'
+ * (Apache combined), 'json' (um objeto por requisição) ou uma função que recebe a
+ * entrada e retorna o texto ou o objeto registrado.
+ */
+export type RequestLogFormat =
+  | 'dev'
+  | 'combined'
+  | 'json'
+  | ((entry: RequestLogEntry) => string | Record<string, unknown>);
+
+/**
+ * Opções do log de requisições.
+ */
+export interface RequestLoggerOptions {
+  /**
+   * Formato das linhas, enviadas ao `Logger` do NestJS.
+   * (Padrão: 'json' com `.withStructuredLogging()`, 'dev' nos demais casos)
+   */
+  format?: RequestLogFormat;
+  /**
+   * Caminhos não registrados. Textos casam com o caminho exato ou com os seus
+   * subcaminhos; expressões regulares são testadas no caminho sem a query string.
+   * (Padrão: `DEFAULT_SKIPPED_PATHS` — health check e métricas, com ou sem prefixo)
+   */
+  skipPaths?: (string | RegExp)[];
+  /**
+   * Métodos HTTP não registrados (ex: `['OPTIONS']`). (Padrão: nenhum)
+   */
+  skipMethods?: string[];
+  /**
+   * Fração (de 0 a 1) das requisições bem-sucedidas (status < 400) registradas.
+   * Erros e requisições lentas são sempre registrados. (Padrão: 1)
+   */
+  sampleRate?: number;
+  /**
+   * Duração, em milissegundos, a partir da qual a requisição é registrada como aviso.
+   * (Padrão: desabilitado)
+   */
+  slowThresholdMs?: number;
+}
+
+/**
+ * Caminhos ignorados por padrão: as sondas de health check e a coleta de métricas.
+ */
+export const DEFAULT_SKIPPED_PATHS: RegExp[] = [
+  /\/health(\/|$)/,
+  /\/metrics(\/|$)/,
+];
+
+const MONTHS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+/**
+ * Formata a data no padrão dos logs do Apache (ex: '10/Oct/2024:13:55:36 +0000').
+ */
+function formatClfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}:` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+  );
+}
+
+const REDACTED_HEADERS = new Set(DEFAULT_REDACTED_KEYS);
+
+/**
+ * Copia os cabeçalhos mascarando os sensíveis (`DEFAULT_REDACTED_KEYS`), que não podem
+ * depender do logger configurado.
+ */
+function redactHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      REDACTED_HEADERS.has(name.toLowerCase()) ? '[REDACTED]' : value,
+    ]),
+  );
+}
+
+const FORMATTERS: Record<
+  'dev' | 'combined' | 'json',
+  (entry: RequestLogEntry) => string | Record<string, unknown>
+> = {
+  dev: (entry) =>
+    `${entry.method} ${entry.url} ${entry.statusCode} ${entry.durationMs.toFixed(3)} ms` +
+    (entry.contentLength ? ` - ${entry.contentLength}` : ''),
+  combined: (entry) =>
+    `${entry.remoteAddress ?? '-'} - - [${formatClfDate(new Date())}] ` +
+    `"${entry.method} ${entry.url} HTTP/${entry.httpVersion}" ${entry.statusCode} ` +
+    `${entry.contentLength ?? '-'} "${entry.referrer ?? '-'}" "${entry.userAgent ?? '-'}"`,
+  json: (entry) => ({
+    message: 'request completed',
+    ...entry,
+    durationMs: Number(entry.durationMs.toFixed(3)),
+    headers: redactHeaders(entry.headers),
+  }),
+};
+
+const firstHeader = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Um plugin do AppInitializer que registra cada requisição concluída no `Logger`
+ * do NestJS, com Express ou Fastify.
+ */
 export class RequestLoggerPlugin implements AppInitializerPlugin {
+  readonly name = 'request-logger';
+  private readonly logger = new Logger(RequestLoggerPlugin.name);
+  private format: RequestLogFormat;
+  private readonly skipPaths: (string | RegExp)[];
+  private readonly skipMethods: Set<string>;
+
+  constructor(private readonly options: RequestLoggerOptions = {}) {
+    this.format = options.format ?? 'dev';
+    this.skipPaths = options.skipPaths ?? DEFAULT_SKIPPED_PATHS;
+    this.skipMethods = new Set(
+      (options.skipMethods ?? []).map((method) => method.toUpperCase()),
+    );
+  }
+
+  /**
+   * Hook 'configureModule': usa o formato JSON quando o logger estruturado está habilitado.
+   */
+  configureModule(context: AppInitializerPluginContext): void {
+    this.format =
+      this.options.format ?? (context.structuredLogging ? 'json' : 'dev');
+  }
+
   apply(app: INestApplication): void {
-    app.use(morgan('dev'));
+    if (getHttpPlatform(app, 'RequestLoggerPlugin') === 'fastify') {
+      this.applyFastify(app);
+      return;
+    }
+
+    app.use((req: IncomingMessage, res: ServerResponse, next: () => void) => {
+      const url =
+        (req as IncomingMessage & { originalUrl?: string }).originalUrl ??
+        req.url ??
+        '/';
+      if (this.shouldSkip(req.method, url)) return next();
+
+      const startedAt = process.hrtime.bigint();
+      // O evento 'finish' roda fora do contexto da requisição.
+      const requestId = RequestContext.currentRequestId();
+
+      res.on('finish', () => {
+        this.logRequest({
+          method: req.method ?? 'GET',
+          url,
+          statusCode: res.statusCode,
+          durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+          requestId,
+          remoteAddress: req.socket?.remoteAddress,
+          userAgent: req.headers['user-agent'],
+          referrer: firstHeader(req.headers.referer ?? req.headers.referrer),
+          contentLength: res.getHeader('content-length')?.toString(),
+          httpVersion: req.httpVersion,
+          headers: req.headers,
+        });
+      });
+      next();
+    });
+  }
+
+  /**
+   * Registra os hooks 'onRequest' (captura o ID da requisição) e 'onResponse' no Fastify.
+   */
+  private applyFastify(app: INestApplication): void {
+    const instance = app.getHttpAdapter().getInstance() as FastifyInstance;
+    const requestIds = new WeakMap<FastifyRequest, string>();
+
+    instance.addHook('onRequest', (request, _reply, done) => {
+      const requestId = RequestContext.currentRequestId();
+      if (requestId) requestIds.set(request, requestId);
+      done();
+    });
+
+    instance.addHook('onResponse', async (request, reply) => {
+      if (this.shouldSkip(request.method, request.url)) return;
+
+      this.logRequest({
+        method: request.method,
+        url: request.url,
+        statusCode: reply.statusCode,
+        durationMs: reply.elapsedTime,
+        requestId: requestIds.get(request),
+        remoteAddress: request.ip,
+        userAgent: request.headers['user-agent'],
+        referrer: firstHeader(
+          request.headers.referer ?? request.headers.referrer,
+        ),
+        contentLength: reply.getHeader?.('content-length')?.toString(),
+        httpVersion: request.raw?.httpVersion ?? '1.1',
+        headers: request.headers,
+      });
+    });
+  }
+
+  private shouldSkip(method: string | undefined, url: string): boolean {
+    if (method && this.skipMethods.has(method.toUpperCase())) return true;
+
+    const path = url.split('?')[0];
+    return this.skipPaths.some((pattern) =>
+      typeof pattern === 'string'
+        ? path === pattern || path.startsWith(`${pattern.replace(/\/$/, '')}/`)
+        : pattern.test(path),
+    );
+  }
+
+  /**
+   * Registra a requisição no formato configurado. Requisições lentas viram avisos;
+   * as bem-sucedidas são amostradas conforme `sampleRate`.
+   */
+  private logRequest(entry: RequestLogEntry): void {
+    const { sampleRate = 1, slowThresholdMs } = this.options;
+    const slow =
+      slowThresholdMs !== undefined && entry.durationMs >= slowThresholdMs;
+
+    if (!slow && entry.statusCode < 400 && Math.random() >= sampleRate) {
+      return;
+    }
+
+    const format =
+      typeof this.format === 'function' ? this.format : FORMATTERS[this.format];
+    const output = format(entry);
+
+    if (!slow) {
+      this.logger.log(output);
+      return;
+    }
+
+    this.logger.warn(
+      typeof output === 'string'
+        ? `${output} (lenta: acima de ${slowThresholdMs}ms)`
+        : { ...output, slow: true, slowThresholdMs },
+    );
   }
 }
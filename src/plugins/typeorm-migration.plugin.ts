@@ -1,23 +1,25 @@
-import { INestApplication, Logger } from '@nestjs/common';
+import { Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
 
-import { AppInitializerPlugin } from '../core';
+import { AppInitializerPlugin, AppInitializerPluginContext } from '../core';
 
 /**
  * Um plugin do AppInitializer que executa automaticamente as migrations
  * do TypeORM na inicialização da aplicação.
  */
 export class TypeOrmMigrationPlugin implements AppInitializerPlugin {
+  readonly name = 'typeorm-migration';
   private readonly logger = new Logger(TypeOrmMigrationPlugin.name);
 
   /**
-   * Método 'apply' que será chamado pelo AppInitializer durante o bootstrap.
+   * Hook 'afterCreate' que será chamado pelo AppInitializer logo após a criação da aplicação,
+   * antes dos demais plugins e do início do servidor HTTP.
    * Este método é assíncrono para poder aguardar a conclusão das migrations.
-   * @param app A instância da aplicação NestJS.
+   * @param context O contexto do plugin, com a instância da aplicação NestJS.
    */
-  async apply(app: INestApplication): Promise<void> {
+  async afterCreate(context: AppInitializerPluginContext): Promise<void> {
     try {
-      const dataSource = app.get(DataSource);
+      const dataSource = context.app!.get(DataSource);
 
       this.logger.log('Iniciando execução das migrations do banco de dados...');
 
@@ -2,6 +2,18 @@ import { CacheModule } from '@nestjs/cache-manager';
 import { ConfigService } from '@nestjs/config';
 import { redisStore } from 'cache-manager-redis-store';
 
+import { createSecretRotationProvider } from './secret-rotation.provider';
+
+type RedisClient = ReturnType<
+  Awaited<ReturnType<typeof redisStore>>['getClient']
+>;
+
+/**
+ * Token do cliente Redis criado pelo "Starter" de Cache, para que outros recursos
+ * (ex: o store do RateLimiterPlugin) reusem a mesma conexão.
+ */
+export const CACHE_REDIS_CLIENT = 'CACHE_REDIS_CLIENT';
+
 /**
  * Opções para o "Starter" de Cache (Redis).
  */
@@ -20,11 +32,20 @@ export interface CachingStarterOptions {
 
 /**
  * Cria o módulo dinâmico para o "Starter" de Cache.
- * Configura o CacheModule para ser global e usar o Redis.
+ * Configura o CacheModule para ser global e usar o Redis. O cliente Redis fica
+ * disponível no token `CACHE_REDIS_CLIENT`. Quando `redisUrlEnvKey` vem de
+ * `.withSecretsProvider`, o cliente reconecta com as novas credenciais (usuário e
+ * senha) a cada rotação do segredo.
  */
 export function createCachingStarter(options: CachingStarterOptions = {}) {
   const { redisUrlEnvKey = 'REDIS_URL', defaultTtlInSeconds = 300 } = options;
 
+  let store: ReturnType<typeof redisStore> | undefined;
+  const getStore = (configService: ConfigService) =>
+    (store ??= redisStore({
+      url: configService.get<string>(redisUrlEnvKey),
+    }));
+
   return CacheModule.registerAsync({
     isGlobal: true,
 
@@ -33,14 +54,35 @@ export function createCachingStarter(options: CachingStarterOptions = {}) {
     inject: [ConfigService],
 
     useFactory: async (configService: ConfigService) => {
-      const store = await redisStore({
-        url: configService.get<string>(redisUrlEnvKey),
-      });
+      const redis = await getStore(configService);
 
       return {
-        store: () => store,
+        store: () => redis,
         ttl: defaultTtlInSeconds,
       };
     },
+
+    extraProviders: [
+      {
+        provide: CACHE_REDIS_CLIENT,
+        inject: [ConfigService],
+        useFactory: async (configService: ConfigService) =>
+          (await getStore(configService)).getClient(),
+      },
+      createSecretRotationProvider<RedisClient>({
+        name: 'Cache',
+        key: redisUrlEnvKey,
+        target: CACHE_REDIS_CLIENT,
+        reconnect: async (client, url) => {
+          const { username, password } = new URL(url);
+          Object.assign(client.options ?? {}, {
+            username: decodeURIComponent(username) || undefined,
+            password: decodeURIComponent(password) || undefined,
+          });
+          if (client.isOpen) await client.disconnect();
+          await client.connect();
+        },
+      }),
+    ],
   });
 }
@@ -1,5 +1,26 @@
 import { ConfigService } from '@nestjs/config';
-import { MongooseModule, MongooseModuleOptions } from '@nestjs/mongoose';
+import {
+  getConnectionToken,
+  MongooseModule,
+  MongooseModuleOptions,
+} from '@nestjs/mongoose';
+import { Connection } from 'mongoose';
+
+import { createSecretRotationProvider } from './secret-rotation.provider';
+
+/**
+ * Opções do MongooseModule que não são repassadas ao driver na conexão.
+ */
+const MODULE_ONLY_OPTIONS = new Set([
+  'retryAttempts',
+  'retryDelay',
+  'connectionName',
+  'connectionFactory',
+  'connectionErrorFactory',
+  'lazyConnection',
+  'onConnectionCreate',
+  'verboseRetryLog',
+]);
 
 /**
  * Opções para o "Starter" de Mongoose (MongoDB).
@@ -20,6 +41,8 @@ export interface MongooseStarterOptions {
 /**
  * Cria o módulo dinâmico para o "Starter" de Mongoose.
  * Configura o MongooseModule para ser global e usar a URI do .env.
+ * Quando `uriEnvKey` vem de `.withSecretsProvider`, a conexão é reaberta a cada
+ * rotação do segredo.
  */
 export function createMongooseStarter(options: MongooseStarterOptions = {}) {
   const { uriEnvKey = 'MONGO_URI', mongooseOptions = {} } = options;
@@ -34,8 +57,28 @@ export function createMongooseStarter(options: MongooseStarterOptions = {}) {
     }),
   });
 
+  const connectOptions = Object.fromEntries(
+    Object.entries(mongooseOptions).filter(
+      ([key]) => !MODULE_ONLY_OPTIONS.has(key),
+    ),
+  );
+
   return {
-    module: mongooseDynamicModule,
+    module: {
+      ...mongooseDynamicModule,
+      providers: [
+        ...(mongooseDynamicModule.providers ?? []),
+        createSecretRotationProvider<Connection>({
+          name: 'Mongoose',
+          key: uriEnvKey,
+          target: getConnectionToken(),
+          reconnect: async (connection, uri) => {
+            await connection.close();
+            await connection.openUri(uri, connectOptions);
+          },
+        }),
+      ],
+    },
     plugins: [],
   };
 }
@@ -0,0 +1,65 @@
+import { InjectionToken, Logger, Provider } from '@nestjs/common';
+
+import { SecretsManager } from '../features/secrets';
+
+/**
+ * Opções da reconexão de um starter quando um segredo é rotacionado.
+ */
+export interface SecretRotationOptions<T> {
+  /**
+   * Nome do starter, exibido nos logs (ex: 'TypeORM').
+   */
+  name: string;
+  /**
+   * Chave do segredo observado (ex: 'DATABASE_URL').
+   */
+  key: string;
+  /**
+   * Token do recurso reconectado (ex: o DataSource do TypeORM).
+   */
+  target: InjectionToken;
+  /**
+   * Reconecta o recurso com o novo valor do segredo.
+   */
+  reconnect: (target: T, value: string) => Promise<void>;
+}
+
+/**
+ * Cria o provider que reconecta o recurso de um starter quando o SecretsManager
+ * (de `.withSecretsProvider`) altera o segredo observado. As reconexões são feitas
+ * em sequência; sem SecretsManager, o provider não faz nada.
+ */
+export function createSecretRotationProvider<T>(
+  options: SecretRotationOptions<T>,
+): Provider {
+  const { name, key, target, reconnect } = options;
+  const logger = new Logger(`${name}Starter`);
+
+  return {
+    provide: `SECRET_ROTATION_${name.toUpperCase()}`,
+    inject: [target, { token: SecretsManager, optional: true }],
+    useFactory: (resource: T, secretsManager?: SecretsManager) => {
+      let pending = Promise.resolve();
+
+      const unsubscribe = secretsManager?.onChange((change) => {
+        if (change.key !== key) return;
+
+        pending = pending
+          .then(() => reconnect(resource, change.value))
+          .then(
+            () =>
+              logger.log(
+                `[Segredos] ${name} reconectado com o novo valor de '${key}'.`,
+              ),
+            (error) =>
+              logger.error(
+                `[Segredos] Falha ao reconectar o ${name} com o novo valor de '${key}'.`,
+                (error as Error).stack,
+              ),
+          );
+      });
+
+      return { onModuleDestroy: () => unsubscribe?.() };
+    },
+  };
+}
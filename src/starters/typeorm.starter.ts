@@ -1,8 +1,10 @@
 import { ConfigService } from '@nestjs/config';
 import { TypeOrmModule, TypeOrmModuleOptions } from '@nestjs/typeorm';
+import { DataSource, DataSourceOptions } from 'typeorm';
 
 import { AppInitializerPlugin } from '../core';
 import { TypeOrmMigrationPlugin } from '../plugins';
+import { createSecretRotationProvider } from './secret-rotation.provider';
 
 /**
  * Opções para o "Starter" de TypeORM.
@@ -20,6 +22,8 @@ export interface TypeOrmStarterOptions {
 /**
  * Cria o módulo dinâmico para o "Starter" de TypeORM.
  * Esta função constrói toda a configuração necessária para o TypeOrmModule.
+ * Quando `databaseUrlEnvKey` vem de `.withSecretsProvider`, o DataSource é
+ * reconectado a cada rotação do segredo.
  */
 export function createTypeOrmStarter(options: TypeOrmStarterOptions = {}) {
   const {
@@ -39,6 +43,18 @@ export function createTypeOrmStarter(options: TypeOrmStarterOptions = {}) {
         synchronize: false,
         ...typeOrmOptions,
       }) as TypeOrmModuleOptions,
+    extraProviders: [
+      createSecretRotationProvider<DataSource>({
+        name: 'TypeORM',
+        key: databaseUrlEnvKey,
+        target: DataSource,
+        reconnect: async (dataSource, url) => {
+          dataSource.setOptions({ url } as Partial<DataSourceOptions>);
+          if (dataSource.isInitialized) await dataSource.destroy();
+          await dataSource.initialize();
+        },
+      }),
+    ],
   });
 
   const plugins: AppInitializerPlugin[] = [];
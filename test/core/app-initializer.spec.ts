@@ -1,8 +1,12 @@
 import 'reflect-metadata';
+import * as fs from 'fs';
 import {
   CanActivate,
   ClassSerializerInterceptor,
+  ConsoleLogger,
   ExceptionFilter,
+  FactoryProvider,
+  HttpException,
   INestApplication,
   Logger,
   Module,
@@ -25,31 +29,98 @@ import {
   Reflector,
 } from '@nestjs/core';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { MicroserviceOptions, Transport } from '@nestjs/microservices';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { Test } from '@nestjs/testing';
 import {
   AppInitializer,
   AppInitializerPlugin,
+  AppInitializerPluginContext,
   CachingStarterOptions,
+  HttpsRedirectPlugin,
   MongooseStarterOptions,
+  ProblemDetailsFilter,
   RateLimiterPlugin,
+  RequestContextPlugin,
   RequestLoggerPlugin,
+  StructuredLogger,
   SwaggerOptions,
   TerminusHealthCheckOptions,
   TypeOrmStarterOptions,
+  ValidationException,
 } from '../../src';
 import * as AutoDiscoveryHelper from '../../src/core/auto-discovery.helper';
 import * as ConfigValidatorHelper from '../../src/core/config-validator.helper';
+import * as SecretFilesHelper from '../../src/core/secret-files.helper';
+import * as ClusterHelper from '../../src/core/cluster.helper';
+import * as ConfigFileHelper from '../../src/core/config-file.helper';
+import * as HttpPlatformHelper from '../../src/core/http-platform.helper';
+import * as GracefulShutdownHelper from '../../src/core/graceful-shutdown.helper';
+import * as HttpsHelper from '../../src/core/https.helper';
+import * as StartupReportHelper from '../../src/core/startup-report.helper';
 import * as CachingStarter from '../../src/starters/caching.starter';
 import * as MongooseStarter from '../../src/starters/mongoose.starter';
 import * as TypeOrmStarter from '../../src/starters/typeorm.starter';
 import * as TerminusModule from '../../src/features/terminus-health-check.module';
 import * as MetricsModule from '../../src/features/metrics/metrics.module';
+import {
+  ReadinessModule,
+  ReadinessState,
+} from '../../src/features/readiness.module';
+import { SecretsModule } from '../../src/features/secrets';
 import helmet from 'helmet';
 import compression from 'compression';
 import { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
-import { ResponseMapper } from '../../src/interceptors/response-pattern.interceptor';
+import {
+  ResponseMapper,
+  ResponsePatternInterceptor,
+} from '../../src/interceptors/response-pattern.interceptor';
 
 jest.mock('../../src/core/auto-discovery.helper');
 jest.mock('../../src/core/config-validator.helper');
+jest.mock('../../src/core/config-file.helper', () => ({
+  ...jest.requireActual('../../src/core/config-file.helper'),
+  findConfigFile: jest.fn(),
+  loadConfigFile: jest.fn(),
+}));
+jest.mock('../../src/core/cluster.helper', () => ({
+  ...jest.requireActual('../../src/core/cluster.helper'),
+  isClusterPrimary: jest.fn(() => true),
+  startClusterPrimary: jest.fn(),
+}));
+jest.mock('../../src/core/graceful-shutdown.helper', () => ({
+  registerGracefulShutdown: jest.fn(),
+}));
+jest.mock('../../src/core/https.helper', () => ({
+  ...jest.requireActual('../../src/core/https.helper'),
+  loadHttpsOptions: jest.fn(() => ({ key: 'KEY', cert: 'CERT' })),
+}));
+jest.mock('../../src/core/http-platform.helper', () => ({
+  ...jest.requireActual('../../src/core/http-platform.helper'),
+  registerFastifyPlugin: jest.fn(),
+}));
+jest.mock('@nestjs/platform-fastify', () => ({
+  FastifyAdapter: jest.fn(),
+}));
+jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
+  writeFileSync: jest.fn(),
+}));
+jest.mock('../../src/core/startup-report.helper', () => ({
+  ...jest.requireActual('../../src/core/startup-report.helper'),
+  collectRoutes: jest.fn(() => [
+    { method: 'GET', path: '/api/users', version: undefined },
+  ]),
+  collectGlobalComponents: jest.fn(
+    (_app, token: string) =>
+      ({
+        APP_PIPE: ['ValidationPipe'],
+        APP_GUARD: ['MockGuard', 'RateLimitGuard'],
+        APP_FILTER: ['MockFilter'],
+        APP_INTERCEPTOR: ['ClassSerializerInterceptor'],
+      })[token],
+  ),
+}));
 jest.mock('../../src/starters/caching.starter');
 jest.mock('../../src/starters/mongoose.starter');
 jest.mock('../../src/starters/typeorm.starter');
@@ -66,6 +137,11 @@ jest.mock('@nestjs/core', () => ({
     create: jest.fn(),
   },
 }));
+jest.mock('@nestjs/testing', () => ({
+  Test: {
+    createTestingModule: jest.fn(),
+  },
+}));
 jest.mock('@nestjs/swagger', () => ({
   ...jest.requireActual('@nestjs/swagger'),
   SwaggerModule: {
@@ -179,6 +255,9 @@ describe('AppInitializer', () => {
       listen: jest.fn().mockResolvedValue(undefined),
       getUrl: jest.fn().mockResolvedValue('http://localhost:3000'),
       enableShutdownHooks: jest.fn(),
+      getHttpAdapter: jest.fn(() => ({ getType: () => 'express' }) as any),
+      connectMicroservice: jest.fn(),
+      startAllMicroservices: jest.fn().mockResolvedValue(undefined),
     };
     (NestFactory.create as jest.Mock).mockResolvedValue(mockNestApp);
     (SwaggerModule.createDocument as jest.Mock).mockReturnValue({});
@@ -238,6 +317,58 @@ describe('AppInitializer', () => {
       );
     });
 
+    it('should throw ValidationException with the configured status', () => {
+      initializer.withValidationPipe({ errorHttpStatusCode: 422 });
+      const pipeProvider = initializer['globalProviders'].find(
+        (p): p is ValueProvider =>
+          typeof p === 'object' && 'provide' in p && p.provide === APP_PIPE,
+      );
+      const pipe = pipeProvider?.useValue as ValidationPipe;
+
+      const error = pipe['exceptionFactory']([]) as ValidationException;
+
+      expect(error).toBeInstanceOf(ValidationException);
+      expect(error.getStatus()).toBe(422);
+    });
+
+    it('should not expose the validation messages when they are disabled', async () => {
+      initializer.withValidationPipe({ disableErrorMessages: true });
+      const pipeProvider = initializer['globalProviders'].find(
+        (p): p is ValueProvider =>
+          typeof p === 'object' && 'provide' in p && p.provide === APP_PIPE,
+      );
+      const pipe = pipeProvider?.useValue as ValidationPipe;
+
+      const error = (await pipe['exceptionFactory']([
+        {
+          property: 'email',
+          constraints: { isEmail: 'email must be an email' },
+        },
+      ])) as HttpException;
+
+      expect(error).not.toBeInstanceOf(ValidationException);
+      expect(error.getResponse()).toEqual({
+        message: 'Bad Request',
+        statusCode: 400,
+      });
+    });
+
+    it('should register the Problem Details filter', () => {
+      initializer.withProblemDetails({ typeBaseUrl: 'https://errors.test' });
+      process.env.APP_PROFILE = 'production';
+      initializer.withProfiles({});
+      delete process.env.APP_PROFILE;
+      const filterProvider = initializer['globalProviders'].find(
+        (p): p is FactoryProvider =>
+          typeof p === 'object' && 'provide' in p && p.provide === APP_FILTER,
+      );
+      const filter = filterProvider?.useFactory() as ProblemDetailsFilter;
+
+      expect(filter).toBeInstanceOf(ProblemDetailsFilter);
+      expect(filter['options']).toEqual({ typeBaseUrl: 'https://errors.test' });
+      expect(filter['production']).toBe(true);
+    });
+
     it('should add custom global pipe provider correctly', () => {
       initializer.useGlobalPipe(MockPipe);
       expect(initializer['globalProviders']).toContainEqual({
@@ -299,39 +430,186 @@ describe('AppInitializer', () => {
       });
     });
 
+    it('should register the request context plugin', () => {
+      initializer.withRequestContext({ header: 'x-correlation-id' });
+
+      const [plugin] = initializer['plugins'];
+      expect(plugin).toBeInstanceOf(RequestContextPlugin);
+      expect((plugin as RequestContextPlugin)['header']).toBe(
+        'x-correlation-id',
+      );
+    });
+
+    it('should register the rate limiter plugin with its options', () => {
+      initializer.withRateLimit({ limit: 10, store: { type: 'redis' } });
+
+      expect(RateLimiterPlugin).toHaveBeenCalledWith({
+        limit: 10,
+        store: { type: 'redis' },
+      });
+      expect(initializer['plugins'][0]).toBeInstanceOf(RateLimiterPlugin);
+    });
+
+    it('should register the request logger plugin with its options', () => {
+      initializer.withRequestLogger({ format: 'combined' });
+
+      expect(RequestLoggerPlugin).toHaveBeenCalledWith({ format: 'combined' });
+      expect(initializer['plugins'][0]).toBeInstanceOf(RequestLoggerPlugin);
+    });
+
+    it('should keep the global logger until the application is created', () => {
+      const overrideSpy = jest.spyOn(Logger, 'overrideLogger');
+
+      initializer.withStructuredLogging({ level: 'debug' });
+
+      expect(initializer['structuredLogger']).toBeInstanceOf(StructuredLogger);
+      expect(overrideSpy).not.toHaveBeenCalled();
+
+      overrideSpy.mockRestore();
+    });
+
     it('should add graceful shutdown function', () => {
       initializer.withGracefulShutdown();
       expect(initializer['setupFunctions']).toHaveLength(1);
     });
 
-    it('should add helmet middleware function', () => {
+    it('should remove the signal handlers when the app shuts down', async () => {
+      const removeHandlers = jest.fn();
+      (
+        GracefulShutdownHelper.registerGracefulShutdown as jest.Mock
+      ).mockReturnValueOnce(removeHandlers);
+      initializer.withGracefulShutdown();
+
+      await initializer['listen']();
+      const rootModule = (NestFactory.create as jest.Mock).mock.calls[0][0];
+      await new rootModule().onApplicationShutdown();
+
+      expect(removeHandlers).toHaveBeenCalledTimes(1);
+    });
+
+    it('should register graceful shutdown only once, merging the options', async () => {
+      initializer
+        .withGracefulShutdown({ preStopDelayMs: 5000 })
+        .useProductionDefaults()
+        .withGracefulShutdown({ drainTimeoutMs: 2000 });
+
+      await initializer['listen']();
+
+      expect(
+        GracefulShutdownHelper.registerGracefulShutdown,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        GracefulShutdownHelper.registerGracefulShutdown,
+      ).toHaveBeenCalledWith(
+        mockNestApp,
+        { preStopDelayMs: 5000, drainTimeoutMs: 2000 },
+        initializer['logger'],
+      );
+      const rootModule = (NestFactory.create as jest.Mock).mock.calls[0][0];
+      expect(Reflect.getMetadata('imports', rootModule)).toContain(
+        ReadinessModule,
+      );
+    });
+
+    const createPlatformApp = (type: string) =>
+      ({
+        use: jest.fn(),
+        getHttpAdapter: () => ({ getType: () => type }),
+      }) as any;
+
+    it('should add helmet middleware function', async () => {
       initializer.useHelmet();
       expect(initializer['setupFunctions']).toHaveLength(1);
-      const mockApp = { use: jest.fn() } as any;
-      initializer['setupFunctions'][0](mockApp);
+      const mockApp = createPlatformApp('express');
+      await initializer['setupFunctions'][0](mockApp);
       expect(helmet).toHaveBeenCalledTimes(1);
       expect(mockApp.use).toHaveBeenCalledWith('helmet_middleware');
     });
 
-    it('should add compression middleware function', () => {
+    it('should add compression middleware function', async () => {
       initializer.enableCompression();
       expect(initializer['setupFunctions']).toHaveLength(1);
-      const mockApp = { use: jest.fn() } as any;
-      initializer['setupFunctions'][0](mockApp);
+      const mockApp = createPlatformApp('express');
+      await initializer['setupFunctions'][0](mockApp);
       expect(compression).toHaveBeenCalledTimes(1);
       expect(mockApp.use).toHaveBeenCalledWith('compression_middleware');
     });
 
+    it('should register the Fastify equivalents of helmet and compression', async () => {
+      initializer.useHelmet().enableCompression();
+      const mockApp = createPlatformApp('fastify');
+
+      for (const setup of initializer['setupFunctions']) {
+        await setup(mockApp);
+      }
+
+      expect(mockApp.use).not.toHaveBeenCalled();
+      expect(helmet).not.toHaveBeenCalled();
+      expect(compression).not.toHaveBeenCalled();
+      expect(HttpPlatformHelper.registerFastifyPlugin).toHaveBeenCalledWith(
+        mockApp,
+        '@fastify/helmet',
+        'useHelmet',
+      );
+      expect(HttpPlatformHelper.registerFastifyPlugin).toHaveBeenCalledWith(
+        mockApp,
+        '@fastify/compress',
+        'enableCompression',
+      );
+    });
+
+    it('should fail with a clear error for unsupported adapters', async () => {
+      initializer.useHelmet();
+      await expect(
+        initializer['setupFunctions'][0](createPlatformApp('koa')),
+      ).rejects.toThrow(
+        "[Adaptador HTTP] O recurso 'useHelmet' não suporta o adaptador 'koa'.",
+      );
+    });
+
     it('should add plugin correctly', () => {
       const plugin = new MockPlugin();
       initializer.withPlugin(plugin);
       expect(initializer['plugins']).toContain(plugin);
     });
 
-    it('should call validator and add ConfigModule on withValidatedConfig', () => {
+    it('should replace a plugin registered with the same name by default', () => {
+      const first = { name: 'custom', apply: jest.fn() };
+      const second = { name: 'custom', apply: jest.fn() };
+      initializer.withPlugin(first).withPlugin(second);
+      expect(initializer['plugins']).toEqual([second]);
+    });
+
+    it('should reject a duplicated plugin when its policy is "reject"', () => {
+      initializer.withPlugin({ name: 'custom' });
+      expect(() =>
+        initializer.withPlugin({ name: 'custom', onDuplicate: 'reject' }),
+      ).toThrow(
+        "[Plugins] O plugin 'custom' já está registrado e não pode ser duplicado.",
+      );
+    });
+
+    it('should not let presets override an explicitly registered plugin', () => {
+      const custom = { name: 'rate-limiter', apply: jest.fn() };
+      initializer.withPlugin(custom);
+      jest
+        .spyOn(initializer as any, 'findPluginIndex')
+        .mockImplementation((plugin: any) =>
+          plugin instanceof RateLimiterPlugin ? 0 : -1,
+        );
+
+      initializer.useProductionDefaults();
+
+      expect(initializer['plugins']).toEqual([custom]);
+    });
+
+    it('should call validator and add ConfigModule on withValidatedConfig', async () => {
       class TestSchema {}
       const mockValidate = jest.spyOn(ConfigValidatorHelper, 'validateConfig');
       initializer.withValidatedConfig(TestSchema);
+      expect(mockConfigModule.forRoot).not.toHaveBeenCalled();
+
+      await initializer['listen']();
 
       expect(mockConfigModule.forRoot).toHaveBeenCalledWith({
         isGlobal: true,
@@ -342,7 +620,154 @@ describe('AppInitializer', () => {
       validateFn(testConfig);
       expect(mockValidate).toHaveBeenCalledWith(testConfig, TestSchema);
 
-      expect(initializer['featureModules']).toContain('ConfigModuleInstance');
+      const rootModule = (NestFactory.create as jest.Mock).mock.calls[0][0];
+      expect(Reflect.getMetadata('imports', rootModule)).toContain(
+        'ConfigModuleInstance',
+      );
+    });
+
+    it('should resolve secret files before validating the config', async () => {
+      class TestSchema {}
+      const mockResolve = jest.spyOn(SecretFilesHelper, 'resolveSecretFiles');
+      const mockValidate = jest.spyOn(ConfigValidatorHelper, 'validateConfig');
+      initializer.withValidatedConfig(TestSchema).withSecretFiles();
+
+      await initializer['listen']();
+
+      const validateFn = mockConfigModule.forRoot.mock.calls[0][0].validate;
+      const testConfig = { TEST: 'value' };
+      validateFn(testConfig);
+      expect(mockResolve).toHaveBeenCalledWith(testConfig, {});
+      expect(mockValidate).toHaveBeenCalledWith(
+        mockResolve.mock.results[0].value,
+        TestSchema,
+      );
+    });
+
+    it('should add ConfigModule with resolved secret files even without a schema', async () => {
+      const mockValidate = jest.spyOn(ConfigValidatorHelper, 'validateConfig');
+      initializer.withSecretFiles({ directory: '/non-existent/secrets' });
+
+      await initializer['listen']();
+
+      const validateFn = mockConfigModule.forRoot.mock.calls[0][0].validate;
+      expect(() => validateFn({})).toThrow(
+        '[Segredos] Diretório de segredos não encontrado',
+      );
+      expect(mockValidate).not.toHaveBeenCalled();
+    });
+
+    it('should load the secrets providers before the ConfigModule and register the SecretsModule', async () => {
+      class TestSchema {}
+      const provider = {
+        name: 'test',
+        load: jest.fn().mockResolvedValue({ TEST_SECRET: 'value' }),
+      };
+      initializer
+        .withValidatedConfig(TestSchema)
+        .withSecretsProvider(provider, { keys: ['TEST_SECRET'] });
+
+      await initializer['listen']();
+
+      expect(provider.load).toHaveBeenCalledWith(['TEST_SECRET']);
+      expect(provider.load.mock.invocationCallOrder[0]).toBeLessThan(
+        mockConfigModule.forRoot.mock.invocationCallOrder[0],
+      );
+      const rootModule = (NestFactory.create as jest.Mock).mock.calls[0][0];
+      expect(Reflect.getMetadata('imports', rootModule)).toContainEqual(
+        expect.objectContaining({ module: SecretsModule }),
+      );
+    });
+
+    it('should validate the secrets with the config and keep them out of the validated env', async () => {
+      class TestSchema {}
+      const mockValidate = jest
+        .spyOn(ConfigValidatorHelper, 'validateConfig')
+        .mockImplementation((config: Record<string, any>) => {
+          if (Number.isNaN(Number(config.PORT))) throw new Error('PORT');
+          return { ...config, PORT: Number(config.PORT) };
+        });
+      const provider = {
+        name: 'test',
+        load: jest.fn().mockResolvedValue({ TEST_SECRET: 'value' }),
+      };
+      initializer.withValidatedConfig(TestSchema).withSecretsProvider(provider);
+
+      await initializer['listen']();
+
+      const { validate, load } = mockConfigModule.forRoot.mock.calls[0][0];
+      expect(validate({ PORT: '3000' })).toEqual({ PORT: 3000 });
+      expect(load[0]()).toEqual({ TEST_SECRET: 'value' });
+      expect(() => validate({ PORT: 'x' })).toThrow('PORT');
+      expect(process.env.TEST_SECRET).toBeUndefined();
+      mockValidate.mockReset();
+    });
+
+    describe('withProfiles', () => {
+      const originalEnv = process.env;
+
+      beforeEach(() => {
+        process.env = { ...originalEnv };
+        delete process.env.APP_PROFILE;
+        delete process.env.NODE_ENV;
+      });
+
+      afterAll(() => {
+        process.env = originalEnv;
+      });
+
+      it('should apply only the configurator of the active profile', () => {
+        process.env.NODE_ENV = 'production';
+        const production = jest.fn();
+        const development = jest.fn();
+
+        initializer.withProfiles({ production, development });
+
+        expect(production).toHaveBeenCalledWith(initializer);
+        expect(development).not.toHaveBeenCalled();
+        expect(initializer.getActiveProfile()).toBe('production');
+      });
+
+      it('should give APP_PROFILE priority over NODE_ENV', () => {
+        process.env.NODE_ENV = 'production';
+        process.env.APP_PROFILE = 'staging';
+        const staging = jest.fn();
+
+        initializer.withProfiles({ staging });
+
+        expect(staging).toHaveBeenCalledTimes(1);
+        expect(initializer.getActiveProfile()).toBe('staging');
+      });
+
+      it('should fall back to the default profile', () => {
+        const test = jest.fn();
+
+        initializer.withProfiles({ test }, { defaultProfile: 'test' });
+
+        expect(test).toHaveBeenCalledTimes(1);
+      });
+
+      it('should ignore profiles without a configurator', () => {
+        process.env.NODE_ENV = 'qa';
+        expect(() => initializer.withProfiles({})).not.toThrow();
+        expect(initializer.getActiveProfile()).toBe('qa');
+      });
+
+      it('should load the profile .env file and log the active profile', async () => {
+        process.env.NODE_ENV = 'production';
+        const logSpy = jest.spyOn(initializer['logger'], 'log');
+        class TestSchema {}
+
+        initializer.withValidatedConfig(TestSchema).withProfiles({});
+        await initializer['listen']();
+
+        expect(mockConfigModule.forRoot).toHaveBeenCalledWith({
+          isGlobal: true,
+          envFilePath: ['.env.production', '.env'],
+          validate: expect.any(Function),
+        });
+        expect(logSpy).toHaveBeenCalledWith('Perfil ativo: production');
+      });
     });
 
     it('should call createTypeOrmStarter and add module/plugins on withTypeOrm', () => {
@@ -399,17 +824,33 @@ describe('AppInitializer', () => {
       expect(initializer['autoDiscoveredComponents']).toEqual(mockComponents);
     });
 
-    it('should add Terminus module on withHealthCheck', () => {
+    it('should add Terminus module on withHealthCheck', async () => {
       const options: TerminusHealthCheckOptions = { database: true };
       initializer.withHealthCheck(options);
+      await initializer['createRootModule']();
       expect(mockTerminusModule.forRoot).toHaveBeenCalledWith(options);
-      expect(initializer['featureModules']).toContain('TerminusModuleInstance');
+      expect(initializer['pluginContext']!.rootModule.imports).toContain(
+        'TerminusModuleInstance',
+      );
     });
 
-    it('should add Metrics module on withMetrics', () => {
+    it('should add Metrics module on withMetrics', async () => {
       initializer.withMetrics();
-      expect(mockMetricsModule.forRoot).toHaveBeenCalled();
-      expect(initializer['featureModules']).toContain('MetricsModuleInstance');
+      await initializer['createRootModule']();
+      expect(mockMetricsModule.forRoot).toHaveBeenCalledWith({
+        controller: true,
+      });
+      expect(initializer['pluginContext']!.rootModule.imports).toContain(
+        'MetricsModuleInstance',
+      );
+    });
+
+    it('should normalize the management server prefix', () => {
+      initializer.withManagementServer({ port: 9000, prefix: 'management' });
+      expect(initializer['managementOptions']).toEqual({
+        port: 9000,
+        prefix: '/management',
+      });
     });
 
     it('should execute configure callback only when condition is true in when()', () => {
@@ -450,6 +891,117 @@ describe('AppInitializer', () => {
     });
   });
 
+  describe('withConfigFile', () => {
+    const mockLoadConfigFile = ConfigFileHelper.loadConfigFile as jest.Mock;
+    const mockFindConfigFile = ConfigFileHelper.findConfigFile as jest.Mock;
+
+    it('should map the config file onto the builder methods', async () => {
+      mockLoadConfigFile.mockResolvedValue({
+        port: 8080,
+        globalPrefix: 'api',
+        cors: { origin: 'example.com' },
+        versioning: { type: 'uri', prefix: 'v', defaultVersion: '1' },
+        swagger: {
+          title: 'API',
+          description: 'Desc',
+          version: '1.0',
+          advancedUi: true,
+        },
+        healthCheck: { database: true },
+        metrics: true,
+        validationPipe: { whitelist: false },
+        classSerializer: true,
+        gracefulShutdown: true,
+        helmet: true,
+        compression: true,
+        starters: {
+          typeorm: { runMigrationsOnStartup: true },
+          mongoose: { uriEnvKey: 'MONGO' },
+          caching: { defaultTtlInSeconds: 60 },
+        },
+      });
+
+      await initializer.withConfigFile('config.yaml');
+
+      expect(mockLoadConfigFile).toHaveBeenCalledWith('config.yaml');
+      expect(initializer['port']).toBe(8080);
+      expect(initializer['globalPrefix']).toBe('/api');
+      expect(initializer['corsOptions']).toEqual({ origin: 'example.com' });
+      expect(initializer['versioningOptions']).toEqual({
+        type: VersioningType.URI,
+        prefix: 'v',
+        defaultVersion: '1',
+      });
+      expect(initializer['swaggerOptions']).toEqual({
+        path: 'docs',
+        title: 'API',
+        description: 'Desc',
+        version: '1.0',
+      });
+      expect(initializer['advancedSwaggerUiOptions']).toBeDefined();
+      expect(initializer['healthCheckOptions']).toEqual({ database: true });
+      expect(initializer['metricsEnabled']).toBe(true);
+      expect(initializer['globalProviders']).toHaveLength(2);
+      expect(initializer['setupFunctions']).toHaveLength(3);
+      expect(mockTypeOrmStarter.createTypeOrmStarter).toHaveBeenCalledWith({
+        runMigrationsOnStartup: true,
+      });
+      expect(mockMongooseStarter.createMongooseStarter).toHaveBeenCalledWith({
+        uriEnvKey: 'MONGO',
+      });
+      expect(mockCachingStarter.createCachingStarter).toHaveBeenCalledWith({
+        defaultTtlInSeconds: 60,
+      });
+    });
+
+    it('should map boolean shortcuts and other versioning types', async () => {
+      mockLoadConfigFile.mockResolvedValueOnce({
+        cors: true,
+        validationPipe: true,
+        versioning: { type: 'header', header: 'X-Version' },
+      });
+      await initializer.withConfigFile('config.json');
+      expect(initializer['corsOptions']).toEqual({});
+      expect(initializer['globalProviders']).toHaveLength(1);
+      expect(initializer['versioningOptions']).toEqual({
+        type: VersioningType.HEADER,
+        header: 'X-Version',
+        defaultVersion: undefined,
+      });
+
+      mockLoadConfigFile.mockResolvedValueOnce({
+        versioning: { type: 'media-type', key: 'v=' },
+      });
+      await initializer.withConfigFile('config.json');
+      expect(initializer['versioningOptions']).toEqual({
+        type: VersioningType.MEDIA_TYPE,
+        key: 'v=',
+        defaultVersion: undefined,
+      });
+    });
+
+    it('should look up the config file when no path is given', async () => {
+      mockFindConfigFile.mockReturnValue('/app/nest-initializer.config.yaml');
+      mockLoadConfigFile.mockResolvedValue({ port: 5000 });
+
+      const configurator = AppInitializer.fromConfigFile();
+      await configurator(initializer);
+
+      expect(mockLoadConfigFile).toHaveBeenCalledWith(
+        '/app/nest-initializer.config.yaml',
+      );
+      expect(initializer['port']).toBe(5000);
+    });
+
+    it('should throw when no config file is found', async () => {
+      mockFindConfigFile.mockReturnValue(undefined);
+
+      await expect(initializer.withConfigFile()).rejects.toThrow(
+        '[Arquivo de Configuração] Nenhum arquivo encontrado',
+      );
+    });
+  });
+
   describe('bootstrap (static method)', () => {
     it('should call configurator and listen on success', async () => {
       const mockConfigurator = jest.fn();
@@ -468,6 +1020,51 @@ describe('AppInitializer', () => {
       listenSpy.mockRestore();
     });
 
+    it('should start the cluster primary instead of listening with withCluster', async () => {
+      const options = { workers: 2, maxRestarts: 3 };
+      const listenSpy = jest.spyOn(AppInitializer.prototype as any, 'listen');
+
+      await AppInitializer.bootstrap(MockAppModule, (app) =>
+        app.withCluster(options),
+      );
+
+      expect(ClusterHelper.startClusterPrimary).toHaveBeenCalledWith(
+        options,
+        expect.any(Logger),
+      );
+      expect(listenSpy).not.toHaveBeenCalled();
+      expect(mockProcessExit).not.toHaveBeenCalled();
+
+      listenSpy.mockRestore();
+    });
+
+    it('should run the configurator and listen inside a cluster worker', async () => {
+      (ClusterHelper.isClusterPrimary as jest.Mock).mockReturnValueOnce(false);
+      const mockConfigurator = jest.fn((app: AppInitializer) =>
+        app.withCluster({ workers: 2 }),
+      );
+      const listenSpy = jest
+        .spyOn(AppInitializer.prototype as any, 'listen')
+        .mockResolvedValue(undefined);
+
+      await AppInitializer.bootstrap(MockAppModule, mockConfigurator);
+
+      expect(mockConfigurator).toHaveBeenCalledTimes(1);
+      expect(ClusterHelper.startClusterPrimary).not.toHaveBeenCalled();
+      expect(listenSpy).toHaveBeenCalledTimes(1);
+
+      listenSpy.mockRestore();
+    });
+
+    it('should reject an invalid worker count in withCluster', async () => {
+      await AppInitializer.bootstrap(MockAppModule, (app) =>
+        app.withCluster({ workers: 0 }),
+      );
+
+      expect(ClusterHelper.startClusterPrimary).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(1);
+    });
+
     it('should catch error during configuration, log, and exit', async () => {
       const configError = new Error('Config Error');
       const mockConfigurator = jest.fn(() => {
@@ -515,6 +1112,107 @@ describe('AppInitializer', () => {
     });
   });
 
+  describe('createTestingApp (static method)', () => {
+    let mockOverrideBy: {
+      useValue: jest.Mock;
+      useClass: jest.Mock;
+      useFactory: jest.Mock;
+    };
+    let mockTestingModuleBuilder: {
+      overrideProvider: jest.Mock;
+      compile: jest.Mock;
+    };
+    let mockTestingModule: { createNestApplication: jest.Mock };
+
+    beforeEach(() => {
+      (mockNestApp as any).init = jest.fn().mockResolvedValue(undefined);
+      mockTestingModule = {
+        createNestApplication: jest.fn().mockReturnValue(mockNestApp),
+      };
+      mockOverrideBy = {
+        useValue: jest.fn(),
+        useClass: jest.fn(),
+        useFactory: jest.fn(),
+      };
+      mockTestingModuleBuilder = {
+        overrideProvider: jest.fn().mockReturnValue(mockOverrideBy),
+        compile: jest.fn().mockResolvedValue(mockTestingModule),
+      };
+      (Test.createTestingModule as jest.Mock).mockReturnValue(
+        mockTestingModuleBuilder,
+      );
+    });
+
+    it('should configure and initialize the app without listening', async () => {
+      const mockConfigurator = jest.fn((builder: AppInitializer) =>
+        builder.withGlobalPrefix('api'),
+      );
+
+      const app = await AppInitializer.createTestingApp(
+        MockAppModule,
+        mockConfigurator,
+      );
+
+      expect(app).toBe(mockNestApp);
+      expect(mockConfigurator).toHaveBeenCalledTimes(1);
+      expect(
+        (Test.createTestingModule as jest.Mock).mock.calls[0][0].imports[0]
+          .name,
+      ).toBe('DynamicRootModule');
+      expect(mockTestingModule.createNestApplication).toHaveBeenCalledWith();
+      expect(mockNestApp.setGlobalPrefix).toHaveBeenCalledWith('/api');
+      expect((mockNestApp as any).init).toHaveBeenCalledTimes(1);
+      expect(mockNestApp.listen).not.toHaveBeenCalled();
+      expect(NestFactory.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply provider overrides', async () => {
+      const factory = () => 'factory';
+
+      await AppInitializer.createTestingApp(MockAppModule, jest.fn(), {
+        overrides: [
+          { provide: 'VALUE_TOKEN', useValue: 'value' },
+          { provide: MockProvider, useClass: MockController },
+          {
+            provide: 'FACTORY_TOKEN',
+            useFactory: factory,
+            inject: [Reflector],
+          },
+        ],
+      });
+
+      expect(mockTestingModuleBuilder.overrideProvider).toHaveBeenCalledWith(
+        'VALUE_TOKEN',
+      );
+      expect(mockOverrideBy.useValue).toHaveBeenCalledWith('value');
+      expect(mockOverrideBy.useClass).toHaveBeenCalledWith(MockController);
+      expect(mockOverrideBy.useFactory).toHaveBeenCalledWith({
+        factory,
+        inject: [Reflector],
+      });
+    });
+
+    it('should use the provided adapter', async () => {
+      await AppInitializer.createTestingApp(MockAppModule, jest.fn(), {
+        adapter: mockAdapter,
+      });
+
+      expect(mockTestingModule.createNestApplication).toHaveBeenCalledWith(
+        mockAdapter,
+      );
+    });
+
+    it('should propagate errors instead of exiting the process', async () => {
+      const compileError = new Error('Compile Error');
+      mockTestingModuleBuilder.compile.mockRejectedValue(compileError);
+
+      await expect(
+        AppInitializer.createTestingApp(MockAppModule, jest.fn()),
+      ).rejects.toThrow(compileError);
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+  });
+
   describe('listen (internal method)', () => {
     it('should create Nest app instance', async () => {
       await initializer['listen']();
@@ -564,7 +1262,9 @@ describe('AppInitializer', () => {
       expect(compression).toHaveBeenCalledTimes(1);
       expect(mockNestApp.use).toHaveBeenCalledWith('helmet_middleware');
       expect(mockNestApp.use).toHaveBeenCalledWith('compression_middleware');
-      expect(mockNestApp.enableShutdownHooks).toHaveBeenCalledTimes(1);
+      expect(
+        GracefulShutdownHelper.registerGracefulShutdown,
+      ).toHaveBeenCalledWith(mockNestApp, {}, initializer['logger']);
     });
 
     it('should apply plugins', async () => {
@@ -583,6 +1283,115 @@ describe('AppInitializer', () => {
       expect(plugin2.apply).toHaveBeenCalledWith(mockNestApp);
     });
 
+    it('should run plugin lifecycle hooks in order with the builder context', async () => {
+      const calls: string[] = [];
+      const record =
+        (hook: string) =>
+        (context: AppInitializerPluginContext): void => {
+          calls.push(hook);
+          if (hook === 'afterCreate') expect(context.app).toBe(mockNestApp);
+          if (hook === 'afterListen') {
+            expect(context.url).toBe('http://localhost:3000');
+          }
+        };
+      const plugin: AppInitializerPlugin = {
+        configureModule: jest.fn(record('configureModule')),
+        beforeCreate: jest.fn(record('beforeCreate')),
+        afterCreate: jest.fn(record('afterCreate')),
+        apply: jest.fn(() => {
+          calls.push('apply');
+        }),
+        beforeListen: jest.fn(record('beforeListen')),
+        afterListen: jest.fn(record('afterListen')),
+      };
+      initializer.onPort(4000).withGlobalPrefix('api').withPlugin(plugin);
+
+      await initializer['listen']();
+
+      expect(calls).toEqual([
+        'configureModule',
+        'beforeCreate',
+        'afterCreate',
+        'apply',
+        'beforeListen',
+        'afterListen',
+      ]);
+      expect(plugin.configureModule).toHaveBeenCalledWith(
+        expect.objectContaining({
+          initializer,
+          port: 4000,
+          globalPrefix: '/api',
+        }),
+        undefined,
+      );
+    });
+
+    it('should run plugins ordered by their dependencies', async () => {
+      const calls: string[] = [];
+      initializer
+        .withPlugin({
+          name: 'second',
+          after: ['first'],
+          apply: () => {
+            calls.push('second');
+          },
+        })
+        .withPlugin({
+          name: 'first',
+          apply: () => {
+            calls.push('first');
+          },
+        });
+
+      await initializer['listen']();
+
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should fail fast when a plugin dependency is missing', async () => {
+      initializer.withPlugin({ name: 'orphan', after: ['missing'] });
+
+      await expect(initializer['listen']()).rejects.toThrow(
+        "[Plugins] O plugin 'orphan' depende de 'missing', que não está registrado.",
+      );
+      expect(NestFactory.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow plugins to add providers to the root module', async () => {
+      const plugin: AppInitializerPlugin = {
+        configureModule: (context) => {
+          context.rootModule.providers.push(MockProvider);
+          context.rootModule.controllers.push(MockController);
+        },
+      };
+      initializer.withPlugin(plugin);
+
+      await initializer['listen']();
+
+      const rootModule = (NestFactory.create as jest.Mock).mock.calls[0][0];
+      expect(Reflect.getMetadata('providers', rootModule)).toContain(
+        MockProvider,
+      );
+      expect(Reflect.getMetadata('controllers', rootModule)).toContain(
+        MockController,
+      );
+    });
+
+    it('should run onShutdown hooks when the root module is shut down', async () => {
+      const plugin: AppInitializerPlugin = { onShutdown: jest.fn() };
+      initializer.withPlugin(plugin);
+
+      await initializer['listen']();
+
+      const RootModule = (NestFactory.create as jest.Mock).mock.calls[0][0];
+      await new RootModule().onApplicationShutdown('SIGTERM');
+
+      expect(plugin.onShutdown).toHaveBeenCalledWith(
+        expect.objectContaining({ app: mockNestApp }),
+        'SIGTERM',
+      );
+    });
+
     it('should setup Swagger if options are provided', async () => {
       const swaggerOptions: SwaggerOptions = {
         title: 'My API',
@@ -609,6 +1418,50 @@ describe('AppInitializer', () => {
       );
     });
 
+    it('should describe the response envelope in the Swagger document', async () => {
+      class EnvelopeDto {}
+      const document = {
+        paths: {
+          '/users': {
+            get: {
+              responses: {
+                '200': {
+                  description: '',
+                  content: {
+                    'application/json': { schema: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      (SwaggerModule.createDocument as jest.Mock).mockReturnValue(document);
+
+      initializer
+        .withSwagger({ title: 'API', version: '1.0', description: '' })
+        .withResponseMapper((data) => ({ data }), {
+          swaggerEnvelope: EnvelopeDto,
+        });
+      await initializer['listen']();
+
+      expect(SwaggerModule.createDocument).toHaveBeenCalledWith(
+        mockNestApp,
+        {},
+        { extraModels: [EnvelopeDto] },
+      );
+      expect(
+        document.paths['/users'].get.responses['200'].content[
+          'application/json'
+        ].schema,
+      ).toEqual({
+        allOf: [
+          { $ref: '#/components/schemas/EnvelopeDto' },
+          { type: 'object', properties: { data: { type: 'string' } } },
+        ],
+      });
+    });
+
     it('should setup app with response mapper interceptor', async () => {
       const responseMapper: ResponseMapper<any> = () => {
         return '123';
@@ -621,6 +1474,18 @@ describe('AppInitializer', () => {
       expect(mockNestApp.useGlobalInterceptors).toHaveBeenCalledTimes(1);
     });
 
+    it('should pass the skip predicate to the response mapper interceptor', () => {
+      const skip = jest.fn();
+
+      initializer.withResponseMapper((data) => data, { skip });
+
+      const [interceptor] = initializer['globalInterceptors'];
+      expect(interceptor).toBeInstanceOf(ResponsePatternInterceptor);
+      expect((interceptor as ResponsePatternInterceptor)['options']).toEqual({
+        skip,
+      });
+    });
+
     it('should setup app with global interceptors', async () => {
       initializer.addGlobalInterceptor(mockGlobalInterceptor);
 
@@ -631,6 +1496,329 @@ describe('AppInitializer', () => {
       );
     });
 
+    it('should create the app with HTTPS options when withHttps is used', async () => {
+      const httpsOptions = { keyPath: 'key.pem', certPath: 'cert.pem' };
+      const expressInitializer = createInstance();
+      expressInitializer.withHttps(httpsOptions);
+      await expressInitializer['listen']();
+
+      expect(HttpsHelper.loadHttpsOptions).toHaveBeenCalledWith(httpsOptions);
+      expect((NestFactory.create as jest.Mock).mock.calls[0][1]).toEqual({
+        httpsOptions: { key: 'KEY', cert: 'CERT' },
+      });
+      expect(
+        expressInitializer['findPluginIndex']({ name: 'https-redirect' }),
+      ).toBe(-1);
+    });
+
+    it('should pass HTTPS options alongside an Express adapter', async () => {
+      const expressAdapter = {
+        getType: () => 'express',
+      } as unknown as AbstractHttpAdapter;
+      const initializerWithAdapter = createInstance(expressAdapter);
+      initializerWithAdapter.withHttps({ keyPath: 'k', certPath: 'c' });
+      await initializerWithAdapter['listen']();
+
+      const [, adapter, appOptions] = (NestFactory.create as jest.Mock).mock
+        .calls[0];
+      expect(adapter).toBe(expressAdapter);
+      expect(appOptions).toEqual({
+        httpsOptions: { key: 'KEY', cert: 'CERT' },
+      });
+    });
+
+    it('should recreate the Fastify adapter with the given Fastify options', async () => {
+      const fastifyAdapter = {
+        getType: () => 'fastify',
+        getInstance: () => ({ initialConfig: { bodyLimit: 1024 } }),
+      } as unknown as AbstractHttpAdapter;
+      const genReqId = () => 'id';
+      const initializerWithAdapter = createInstance(fastifyAdapter);
+      initializerWithAdapter.withHttps({
+        keyPath: 'k',
+        certPath: 'c',
+        fastifyOptions: { bodyLimit: 2048, genReqId },
+      });
+      await initializerWithAdapter['listen']();
+
+      expect(FastifyAdapter).toHaveBeenCalledWith({
+        bodyLimit: 2048,
+        genReqId,
+        https: { key: 'KEY', cert: 'CERT' },
+      });
+    });
+
+    it('should buffer the logs and use the structured logger with withStructuredLogging', async () => {
+      const useLogger = jest.fn();
+      (NestFactory.create as jest.Mock).mockResolvedValue({
+        ...mockNestApp,
+        useLogger,
+      });
+      const options = { base: { service: 'orders' } };
+      const loggingInitializer = createInstance();
+      loggingInitializer.withStructuredLogging(options);
+      await loggingInitializer['listen']();
+
+      expect((NestFactory.create as jest.Mock).mock.calls[0][1]).toEqual({
+        bufferLogs: true,
+      });
+      expect(useLogger).toHaveBeenCalledWith(
+        loggingInitializer['structuredLogger'],
+      );
+      expect(loggingInitializer['pluginContext']?.structuredLogging).toBe(
+        options,
+      );
+
+      Logger.overrideLogger(new ConsoleLogger());
+    });
+
+    it('should recreate the Fastify adapter with HTTPS and its original options', async () => {
+      const fastifyAdapter = {
+        getType: () => 'fastify',
+        getInstance: () => ({ initialConfig: { bodyLimit: 1024 } }),
+      } as unknown as AbstractHttpAdapter;
+      const initializerWithAdapter = createInstance(fastifyAdapter);
+      initializerWithAdapter.withHttps({ keyPath: 'k', certPath: 'c' });
+      await initializerWithAdapter['listen']();
+
+      expect(FastifyAdapter).toHaveBeenCalledWith({
+        bodyLimit: 1024,
+        https: { key: 'KEY', cert: 'CERT' },
+      });
+      const [, adapter, appOptions] = (NestFactory.create as jest.Mock).mock
+        .calls[0];
+      expect(adapter).toBe(
+        (FastifyAdapter as unknown as jest.Mock).mock.instances[0],
+      );
+      expect(appOptions).toEqual({
+        httpsOptions: { key: 'KEY', cert: 'CERT' },
+      });
+    });
+
+    it('should recreate the Fastify adapter with the given Fastify options', async () => {
+      const fastifyAdapter = {
+        getType: () => 'fastify',
+        getInstance: () => ({ initialConfig: { bodyLimit: 1024 } }),
+      } as unknown as AbstractHttpAdapter;
+      const genReqId = () => 'id';
+      const initializerWithAdapter = createInstance(fastifyAdapter);
+      initializerWithAdapter.withHttps({
+        keyPath: 'k',
+        certPath: 'c',
+        fastifyOptions: { bodyLimit: 2048, genReqId },
+      });
+      await initializerWithAdapter['listen']();
+
+      expect(FastifyAdapter).toHaveBeenCalledWith({
+        bodyLimit: 2048,
+        genReqId,
+        https: { key: 'KEY', cert: 'CERT' },
+      });
+    });
+
+    it('should register the HTTP to HTTPS redirect plugin', () => {
+      initializer.withHttps({
+        keyPath: 'k',
+        certPath: 'c',
+        redirectHttpPort: 8080,
+        redirectHost: 'api.example.com',
+      });
+
+      const plugin = initializer['plugins'][0] as HttpsRedirectPlugin;
+      expect(plugin).toBeInstanceOf(HttpsRedirectPlugin);
+      expect(plugin['httpPort']).toBe(8080);
+      expect(plugin['options']).toEqual({
+        host: 'api.example.com',
+        allowedHosts: undefined,
+      });
+    });
+
+    it('should reject the HTTP redirect without a host or allowed hosts', () => {
+      expect(() =>
+        initializer.withHttps({
+          keyPath: 'k',
+          certPath: 'c',
+          redirectHttpPort: 8080,
+        }),
+      ).toThrow("exige 'redirectHost' ou 'redirectAllowedHosts'");
+    });
+
+    describe('with a management server', () => {
+      let managementApp: Partial<INestApplication>;
+
+      beforeEach(() => {
+        managementApp = {
+          setGlobalPrefix: jest.fn(),
+          listen: jest.fn().mockResolvedValue(undefined),
+          getUrl: jest.fn().mockResolvedValue('http://localhost:9000'),
+          close: jest.fn().mockResolvedValue(undefined),
+        };
+        (NestFactory.create as jest.Mock)
+          .mockResolvedValueOnce(mockNestApp)
+          .mockResolvedValueOnce(managementApp);
+      });
+
+      it('should move health, metrics and Swagger to the management server', async () => {
+        initializer
+          .withGlobalPrefix('/api')
+          .withHealthCheck({ memory: {} })
+          .withMetrics()
+          .withSwagger({ title: 'API', description: 'Desc', version: '1' })
+          .withManagementServer({ port: 9000, prefix: 'management' });
+
+        await initializer['listen']();
+
+        const publicImports = initializer['pluginContext']!.rootModule.imports;
+        expect(publicImports).not.toContain('TerminusModuleInstance');
+        expect(mockMetricsModule.forRoot).toHaveBeenCalledWith({
+          controller: false,
+        });
+
+        const [managementModule] = (NestFactory.create as jest.Mock).mock
+          .calls[1];
+        expect(managementModule.name).toBe('ManagementRootModule');
+        const imports = Reflect.getMetadata('imports', managementModule);
+        const controllers = Reflect.getMetadata(
+          'controllers',
+          managementModule,
+        );
+        expect(imports).toContain('TerminusModuleInstance');
+        expect(controllers.map((c: any) => c.name)).toEqual([
+          'MetricsController',
+        ]);
+
+        expect(managementApp.setGlobalPrefix).toHaveBeenCalledWith(
+          '/management',
+        );
+        expect(managementApp.listen).toHaveBeenCalledWith(9000);
+        expect(SwaggerModule.setup).toHaveBeenCalledTimes(1);
+        expect(SwaggerModule.setup).toHaveBeenCalledWith(
+          'docs',
+          managementApp,
+          {},
+          undefined,
+        );
+        expect(initializer['phaseTimings'].map((p) => p.phase)).toContain(
+          'management',
+        );
+      });
+
+      it('should log the management and Swagger URLs', async () => {
+        const logSpy = jest.spyOn(initializer['logger'], 'log');
+        initializer
+          .withSwagger({ title: 'API', description: 'Desc', version: '1' })
+          .withManagementServer({ port: 9000, prefix: '/management' });
+
+        await initializer['listen']();
+
+        expect(logSpy).toHaveBeenCalledWith(
+          '🛠️ Servidor de gerenciamento rodando em: http://localhost:9000/management',
+        );
+        expect(logSpy).toHaveBeenCalledWith(
+          '📄 Documentação Swagger disponível em: http://localhost:9000/management/docs',
+        );
+      });
+
+      it('should share the DataSource for the database health check', async () => {
+        initializer
+          .withHealthCheck({ database: true })
+          .withManagementServer({ port: 9000 });
+
+        await initializer['listen']();
+
+        const [managementModule] = (NestFactory.create as jest.Mock).mock
+          .calls[1];
+        const [provider] = Reflect.getMetadata('providers', managementModule);
+        expect(provider.provide.name).toBe('DataSource');
+        expect(managementApp.setGlobalPrefix).not.toHaveBeenCalled();
+      });
+
+      it('should share the readiness state with graceful shutdown', async () => {
+        initializer
+          .withHealthCheck({ memory: {} })
+          .withGracefulShutdown()
+          .withManagementServer({ port: 9000 });
+
+        await initializer['listen']();
+
+        const [managementModule] = (NestFactory.create as jest.Mock).mock
+          .calls[1];
+        const [provider] = Reflect.getMetadata('providers', managementModule);
+        expect(provider.provide).toBe(ReadinessState);
+      });
+
+      it('should close the management server on shutdown', async () => {
+        initializer.withManagementServer({ port: 9000 });
+        await initializer['listen']();
+
+        const rootModule = (NestFactory.create as jest.Mock).mock.calls[0][0];
+        await new rootModule().onApplicationShutdown('SIGTERM');
+
+        expect(managementApp.close).toHaveBeenCalledTimes(1);
+      });
+
+      it('should use a Fastify adapter when the public app runs on Fastify', async () => {
+        (mockNestApp.getHttpAdapter as jest.Mock).mockReturnValue({
+          getType: () => 'fastify',
+        });
+        initializer.withManagementServer({ port: 9000 });
+
+        await initializer['listen']();
+
+        expect((NestFactory.create as jest.Mock).mock.calls[1][1]).toBe(
+          (FastifyAdapter as unknown as jest.Mock).mock.instances[0],
+        );
+      });
+    });
+
+    it('should not start microservices when none are configured', async () => {
+      await initializer['listen']();
+      expect(mockNestApp.connectMicroservice).not.toHaveBeenCalled();
+      expect(mockNestApp.startAllMicroservices).not.toHaveBeenCalled();
+    });
+
+    it('should connect and start microservices before the HTTP listen', async () => {
+      const logSpy = jest.spyOn(initializer['logger'], 'log');
+      const calls: string[] = [];
+      (mockNestApp.startAllMicroservices as jest.Mock).mockImplementation(
+        () => {
+          calls.push('startAllMicroservices');
+          return Promise.resolve();
+        },
+      );
+      (mockNestApp.listen as jest.Mock).mockImplementation(() => {
+        calls.push('listen');
+        return Promise.resolve();
+      });
+      const tcp: MicroserviceOptions = {
+        transport: Transport.TCP,
+        options: { port: 3001 },
+      };
+      const redis: MicroserviceOptions = {
+        transport: Transport.REDIS,
+        options: { host: 'redis', port: 6379 },
+      };
+
+      initializer
+        .withMicroservice(tcp)
+        .withMicroservice(redis, { inheritAppConfig: false });
+      await initializer['listen']();
+
+      expect(mockNestApp.connectMicroservice).toHaveBeenCalledWith(tcp, {
+        inheritAppConfig: true,
+      });
+      expect(mockNestApp.connectMicroservice).toHaveBeenCalledWith(redis, {
+        inheritAppConfig: false,
+      });
+      expect(calls).toEqual(['startAllMicroservices', 'listen']);
+      expect(logSpy).toHaveBeenCalledWith(
+        '🔌 Microservice conectado: TCP (localhost:3001)',
+      );
+      expect(logSpy).toHaveBeenCalledWith(
+        '🔌 Microservice conectado: REDIS (redis:6379)',
+      );
+    });
+
     it('should call app.listen with the correct port', async () => {
       initializer.onPort(9000);
       await initializer['listen']();
@@ -638,6 +1826,80 @@ describe('AppInitializer', () => {
       expect(mockNestApp.listen).toHaveBeenCalledWith(9000);
     });
 
+    it('should not emit a startup report unless enabled', async () => {
+      const logSpy = jest.spyOn(initializer['logger'], 'log');
+      await initializer['listen']();
+      expect(logSpy).not.toHaveBeenCalledWith(
+        expect.stringContaining('Relatório de inicialização'),
+      );
+    });
+
+    it('should emit the startup report as a table', async () => {
+      const logSpy = jest.spyOn(initializer['logger'], 'log');
+      initializer
+        .withStartupReport()
+        .withGlobalPrefix('api')
+        .withTypeOrm()
+        .withValidationPipe()
+        .useGlobalGuard(MockGuard)
+        .useGlobalFilter(MockFilter)
+        .withClassSerializer()
+        .addGlobalInterceptor(new MockInterceptor())
+        .withPlugin({ name: 'custom' });
+
+      await initializer['listen']();
+
+      const output = logSpy.mock.calls
+        .map(([message]) => message as string)
+        .find((message) => message.includes('Relatório de inicialização'));
+      expect(output).toContain('TypeORM');
+      expect(output).toContain('custom');
+      expect(output).toContain('ValidationPipe');
+      expect(output).toContain('MockGuard, RateLimitGuard');
+      expect(output).toContain('MockFilter');
+      expect(output).toContain('ClassSerializerInterceptor, MockInterceptor');
+      expect(output).toContain('| GET    | /api/users |');
+      expect(StartupReportHelper.collectGlobalComponents).toHaveBeenCalledWith(
+        mockNestApp,
+        APP_GUARD,
+      );
+      for (const phase of ['module', 'create', 'configure', 'listen']) {
+        expect(output).toContain(`| ${phase}`);
+      }
+    });
+
+    it('should emit the startup report as JSON and write it to a file', async () => {
+      const logSpy = jest.spyOn(initializer['logger'], 'log');
+      initializer
+        .withStartupReport({ format: 'json', outputFile: 'report.json' })
+        .withMongoose()
+        .withCaching();
+
+      await initializer['listen']();
+
+      const json = logSpy.mock.calls
+        .map(([message]) => message as string)
+        .find((message) => message.startsWith('{'));
+      const report = JSON.parse(json!);
+      expect(report).toEqual(
+        expect.objectContaining({
+          url: 'http://localhost:3000',
+          starters: ['Mongoose', 'Cache'],
+          routes: [{ method: 'GET', path: '/api/users' }],
+        }),
+      );
+      expect(report.phases.map((p: any) => p.phase)).toEqual([
+        'module',
+        'create',
+        'configure',
+        'listen',
+      ]);
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('report.json'),
+        JSON.stringify(report, null, 2),
+      );
+    });
+
     it('should log startup messages', async () => {
       const logSpy = jest.spyOn(initializer['logger'], 'log');
       initializer.withSwagger({ title: 'T', version: '1', description: 'D' });
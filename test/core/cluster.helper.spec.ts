@@ -0,0 +1,232 @@
+import { EventEmitter } from 'events';
+import * as os from 'os';
+
+import {
+  ClusterPrimaryDeps,
+  getAvailableParallelism,
+  isClusterPrimary,
+  resolveWorkerCount,
+  startClusterPrimary,
+} from '../../src/core/cluster.helper';
+
+class FakeWorker {
+  exitedAfterDisconnect = false;
+  dead = false;
+  readonly process: { pid: number; kill: jest.Mock };
+
+  constructor(pid: number) {
+    this.process = { pid, kill: jest.fn() };
+  }
+
+  isDead() {
+    return this.dead;
+  }
+}
+
+class FakeCluster extends EventEmitter {
+  workers: Record<number, FakeWorker> = {};
+  private nextPid = 100;
+
+  fork = jest.fn(() => {
+    const worker = new FakeWorker(this.nextPid++);
+    this.workers[worker.process.pid] = worker;
+    return worker;
+  });
+
+  exit(worker: FakeWorker, code: number, signal?: string) {
+    worker.dead = true;
+    this.emit('exit', worker, code, signal);
+  }
+}
+
+describe('cluster.helper', () => {
+  describe('resolveWorkerCount', () => {
+    it('should use one worker per core for auto', () => {
+      expect(resolveWorkerCount('auto', 8)).toBe(8);
+      expect(resolveWorkerCount(undefined, 0)).toBe(1);
+    });
+
+    it('should accept a positive integer', () => {
+      expect(resolveWorkerCount(3, 8)).toBe(3);
+    });
+
+    it('should reject invalid worker counts', () => {
+      expect(() => resolveWorkerCount(0)).toThrow(
+        "[Cluster] Quantidade de workers inválida: 0. Use 'auto' ou um inteiro positivo.",
+      );
+      expect(() => resolveWorkerCount(1.5)).toThrow('[Cluster]');
+    });
+  });
+
+  describe('getAvailableParallelism', () => {
+    const cpus = () => new Array(4).fill({}) as ReturnType<typeof os.cpus>;
+
+    it('should use os.availableParallelism when available', () => {
+      expect(
+        getAvailableParallelism({ cpus, availableParallelism: () => 2 }),
+      ).toBe(2);
+    });
+
+    it('should count the CPUs on Node versions without it', () => {
+      expect(getAvailableParallelism({ cpus })).toBe(4);
+    });
+  });
+
+  describe('isClusterPrimary', () => {
+    it('should report the test runner process as primary', () => {
+      expect(isClusterPrimary()).toBe(true);
+    });
+  });
+
+  describe('startClusterPrimary', () => {
+    let fakeCluster: FakeCluster;
+    let fakeProcess: EventEmitter & { exit: jest.Mock };
+    let logger: { log: jest.Mock; warn: jest.Mock; error: jest.Mock };
+    let currentTime: number;
+
+    const start = (options = {}) =>
+      startClusterPrimary(options, logger, {
+        cluster: fakeCluster as unknown as ClusterPrimaryDeps['cluster'],
+        process: fakeProcess as unknown as ClusterPrimaryDeps['process'],
+        cpuCount: 4,
+        now: () => currentTime,
+      });
+
+    const worker = (index: number) => Object.values(fakeCluster.workers)[index];
+
+    beforeEach(() => {
+      fakeCluster = new FakeCluster();
+      fakeProcess = Object.assign(new EventEmitter(), { exit: jest.fn() });
+      logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      currentTime = 0;
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fork one worker per core by default', () => {
+      start();
+      expect(fakeCluster.fork).toHaveBeenCalledTimes(4);
+      expect(logger.log).toHaveBeenCalledWith(
+        '[Cluster] Iniciando 4 worker(s)...',
+      );
+    });
+
+    it('should restart a crashed worker', () => {
+      start({ workers: 2 });
+
+      fakeCluster.exit(worker(0), 1);
+
+      expect(logger.error).toHaveBeenCalledWith(
+        '[Cluster] Worker 100 encerrou inesperadamente (código: 1, sinal: -).',
+      );
+      expect(fakeCluster.fork).toHaveBeenCalledTimes(3);
+      expect(logger.log).toHaveBeenCalledWith(
+        '[Cluster] Worker 102 iniciado em substituição (1/5).',
+      );
+    });
+
+    it('should not restart workers that exit cleanly', () => {
+      start({ workers: 1 });
+
+      fakeCluster.exit(worker(0), 0);
+
+      expect(fakeCluster.fork).toHaveBeenCalledTimes(1);
+      expect(logger.log).toHaveBeenCalledWith(
+        '[Cluster] Worker 100 encerrado.',
+      );
+    });
+
+    it('should not restart crashed workers when restartOnCrash is false', () => {
+      start({ workers: 1, restartOnCrash: false });
+
+      fakeCluster.exit(worker(0), 1, 'SIGSEGV');
+
+      expect(fakeCluster.fork).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        '[Cluster] Worker 100 encerrou inesperadamente (código: 1, sinal: SIGSEGV).',
+      );
+    });
+
+    it('should stop the primary after a crash loop', () => {
+      start({ workers: 1, maxRestarts: 2, restartWindowMs: 1000 });
+
+      for (let i = 0; i < 3; i++) {
+        const alive = Object.values(fakeCluster.workers).find((w) => !w.dead)!;
+        fakeCluster.exit(alive, 1);
+      }
+
+      expect(logger.error).toHaveBeenCalledWith(
+        '[Cluster] Crash loop detectado: mais de 2 reinícios em 1000ms. Encerrando o primary.',
+      );
+      expect(fakeCluster.fork).toHaveBeenCalledTimes(3);
+      expect(fakeProcess.exit).toHaveBeenCalledWith(1);
+    });
+
+    it('should only count restarts inside the window', () => {
+      start({ workers: 1, maxRestarts: 1, restartWindowMs: 1000 });
+
+      fakeCluster.exit(worker(0), 1);
+      currentTime = 5000;
+      fakeCluster.exit(worker(1), 1);
+
+      expect(fakeCluster.fork).toHaveBeenCalledTimes(3);
+      expect(fakeProcess.exit).not.toHaveBeenCalled();
+    });
+
+    it('should forward shutdown signals and exit when all workers stop', () => {
+      start({ workers: 2 });
+
+      fakeProcess.emit('SIGTERM');
+
+      expect(worker(0).process.kill).toHaveBeenCalledWith('SIGTERM');
+      expect(worker(1).process.kill).toHaveBeenCalledWith('SIGTERM');
+
+      fakeCluster.exit(worker(0), 0);
+      expect(fakeProcess.exit).not.toHaveBeenCalled();
+
+      fakeCluster.exit(worker(1), 0);
+      expect(fakeCluster.fork).toHaveBeenCalledTimes(2);
+      expect(fakeProcess.exit).toHaveBeenCalledWith(0);
+    });
+
+    it('should kill workers that do not stop within the timeout', () => {
+      jest.useFakeTimers();
+      start({ workers: 2, shutdownTimeoutMs: 500 });
+
+      fakeProcess.emit('SIGINT');
+      fakeCluster.exit(worker(0), 0);
+      jest.advanceTimersByTime(500);
+
+      expect(worker(0).process.kill).not.toHaveBeenCalledWith('SIGKILL');
+      expect(worker(1).process.kill).toHaveBeenCalledWith('SIGKILL');
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[Cluster] 1 worker(s) não encerraram em 500ms. Finalizando com SIGKILL.',
+      );
+    });
+
+    it('should not kill anything after the timeout when all workers stopped', () => {
+      jest.useFakeTimers();
+      start({ workers: 1, shutdownTimeoutMs: 500 });
+
+      fakeProcess.emit('SIGTERM');
+      fakeCluster.exit(worker(0), 0);
+      jest.advanceTimersByTime(500);
+
+      expect(worker(0).process.kill).toHaveBeenCalledTimes(1);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should exit immediately when no worker is alive on shutdown', () => {
+      start({ workers: 1, restartOnCrash: false });
+      fakeCluster.exit(worker(0), 1);
+
+      fakeProcess.emit('SIGTERM');
+      fakeProcess.emit('SIGINT');
+
+      expect(fakeProcess.exit).toHaveBeenCalledTimes(1);
+      expect(fakeProcess.exit).toHaveBeenCalledWith(0);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import {
+  findConfigFile,
+  loadConfigFile,
+} from '../../src/core/config-file.helper';
+
+describe('config-file.helper', () => {
+  let dir: string;
+
+  const writeFile = (name: string, content: string) => {
+    const filePath = join(dir, name);
+    writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'nest-initializer-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should return undefined when no config file exists', () => {
+      expect(findConfigFile(dir)).toBeUndefined();
+    });
+
+    it('should find the first matching config file', () => {
+      writeFile('nest-initializer.config.yaml', 'port: 3000');
+      writeFile('nest-initializer.config.js', 'module.exports = {}');
+      expect(findConfigFile(dir)).toBe(
+        join(dir, 'nest-initializer.config.yaml'),
+      );
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should load and validate a YAML file', async () => {
+      const filePath = writeFile(
+        'nest-initializer.config.yaml',
+        [
+          'port: 8080',
+          'globalPrefix: api',
+          'cors: true',
+          'versioning:',
+          '  type: uri',
+          '  prefix: v',
+          'starters:',
+          '  caching:',
+          '    defaultTtlInSeconds: 600',
+        ].join('\n'),
+      );
+
+      await expect(loadConfigFile(filePath)).resolves.toEqual({
+        port: 8080,
+        globalPrefix: 'api',
+        cors: true,
+        versioning: { type: 'uri', prefix: 'v' },
+        starters: { caching: { defaultTtlInSeconds: 600 } },
+      });
+    });
+
+    it('should load and validate a JSON file', async () => {
+      const filePath = writeFile(
+        'nest-initializer.config.json',
+        JSON.stringify({ metrics: true, healthCheck: { database: true } }),
+      );
+
+      await expect(loadConfigFile(filePath)).resolves.toEqual({
+        metrics: true,
+        healthCheck: { database: true },
+      });
+    });
+
+    it('should treat an empty file as an empty configuration', async () => {
+      const filePath = writeFile('nest-initializer.config.yaml', '');
+      await expect(loadConfigFile(filePath)).resolves.toEqual({});
+    });
+
+    it('should import a JS file by its file URL', async () => {
+      const filePath = writeFile('nest-initializer.config.mjs', '');
+      const importFn = jest.fn(() =>
+        Promise.resolve({ default: { port: 4000 } }),
+      );
+
+      await expect(loadConfigFile(filePath, importFn)).resolves.toEqual({
+        port: 4000,
+      });
+      expect(importFn).toHaveBeenCalledWith(pathToFileURL(filePath).href);
+    });
+
+    it('should reject TypeScript files', async () => {
+      const filePath = writeFile('nest-initializer.config.ts', '');
+      const importFn = jest.fn();
+
+      await expect(loadConfigFile(filePath, importFn)).rejects.toThrow(
+        `[Arquivo de Configuração] Arquivos TypeScript não são suportados: ${filePath}`,
+      );
+      expect(importFn).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown keys with file path and line', async () => {
+      const filePath = writeFile(
+        'nest-initializer.config.json',
+        [
+          '{',
+          '  "port": 3000,',
+          '  "swagger": {',
+          '    "title": "API",',
+          '    "description": "Desc",',
+          '    "version": "1.0",',
+          '    "theme": "dark"',
+          '  },',
+          '  "unknown": true',
+          '}',
+        ].join('\n'),
+      );
+
+      await expect(loadConfigFile(filePath)).rejects.toThrow(
+        [
+          `[Arquivo de Configuração] Arquivo inválido: ${filePath}`,
+          `  - ${filePath}:7:5 chave desconhecida "swagger.theme"`,
+          `  - ${filePath}:9:3 chave desconhecida "unknown"`,
+        ].join('\n'),
+      );
+    });
+
+    it('should report invalid values with the line of the value', async () => {
+      const filePath = writeFile(
+        'nest-initializer.config.yaml',
+        ['globalPrefix: api', 'port: "abc"'].join('\n'),
+      );
+
+      await expect(loadConfigFile(filePath)).rejects.toThrow(
+        `${filePath}:2:7 port: Invalid input: expected number, received string`,
+      );
+    });
+
+    it('should report missing required keys with the line of the parent', async () => {
+      const filePath = writeFile(
+        'nest-initializer.config.yaml',
+        ['swagger:', '  title: API', '  tags:', '    - description: x'].join(
+          '\n',
+        ),
+      );
+
+      let message = '';
+      try {
+        await loadConfigFile(filePath);
+      } catch (error) {
+        message = (error as Error).message;
+      }
+
+      expect(message).toContain(`${filePath}:2:3 swagger.description:`);
+      expect(message).toContain(`${filePath}:4:7 swagger.tags.0.name:`);
+    });
+
+    it('should report errors without line numbers for JS files', async () => {
+      const filePath = writeFile('nest-initializer.config.js', '');
+      const importFn = jest.fn(() => Promise.resolve({ extra: 1 }));
+
+      await expect(loadConfigFile(filePath, importFn)).rejects.toThrow(
+        `  - ${filePath} chave desconhecida "extra"`,
+      );
+    });
+
+    it('should report syntax errors with the line', async () => {
+      const filePath = writeFile(
+        'nest-initializer.config.json',
+        '{\n  "port": 3000,,\n}',
+      );
+
+      await expect(loadConfigFile(filePath)).rejects.toThrow(
+        `[Arquivo de Configuração] Erro de sintaxe em ${filePath}:2`,
+      );
+    });
+
+    it('should throw when the file does not exist', async () => {
+      const filePath = join(dir, 'missing.json');
+      await expect(loadConfigFile(filePath)).rejects.toThrow(
+        `[Arquivo de Configuração] Arquivo não encontrado: ${filePath}`,
+      );
+    });
+  });
+});
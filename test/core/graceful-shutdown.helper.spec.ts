@@ -0,0 +1,325 @@
+import 'reflect-metadata';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import {
+  Controller,
+  Get,
+  INestApplication,
+  LoggerService,
+  Module,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { getConnectionToken } from '@nestjs/mongoose';
+import { DataSource } from 'typeorm';
+
+import {
+  registerGracefulShutdown,
+  runGracefulShutdown,
+} from '../../src/core/graceful-shutdown.helper';
+import { AppInitializer } from '../../src';
+import {
+  ReadinessModule,
+  ReadinessState,
+} from '../../src/features/readiness.module';
+
+describe('runGracefulShutdown', () => {
+  let logger: jest.Mocked<LoggerService>;
+  let calls: string[];
+  let clock: number;
+
+  const deps = {
+    now: () => (clock += 10),
+    sleep: jest.fn((ms: number) => {
+      calls.push(`sleep:${ms}`);
+      return Promise.resolve();
+    }),
+  };
+
+  const createApp = (providers: Map<unknown, unknown> = new Map()) => {
+    const server = { closeAllConnections: jest.fn() };
+    const adapter = {
+      close: jest.fn(() => {
+        calls.push('http');
+        return Promise.resolve();
+      }),
+    };
+    const app = {
+      get: () => ({
+        get: (token: unknown) => {
+          if (!providers.has(token)) throw new Error('not found');
+          return providers.get(token);
+        },
+      }),
+      getHttpAdapter: () => adapter,
+      getHttpServer: () => server,
+      close: jest.fn(() => {
+        calls.push('app');
+        return Promise.resolve();
+      }),
+    };
+    return { app: app as unknown as INestApplication, adapter, server };
+  };
+
+  beforeEach(() => {
+    logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    calls = [];
+    clock = 0;
+    deps.sleep.mockClear();
+  });
+
+  it('should run every step in order and log their durations', async () => {
+    const readiness = new ReadinessState();
+    const dataSource = {
+      isInitialized: true,
+      destroy: jest.fn(() => calls.push('typeorm')),
+    };
+    const mongoose = { close: jest.fn(() => calls.push('mongoose')) };
+    const cache = { disconnect: jest.fn(() => calls.push('redis')) };
+    const { app } = createApp(
+      new Map<unknown, unknown>([
+        [ReadinessState, readiness],
+        [DataSource, dataSource],
+        [getConnectionToken(), mongoose],
+        [CACHE_MANAGER, cache],
+      ]),
+    );
+
+    const exitCode = await runGracefulShutdown(
+      app,
+      'SIGTERM',
+      { preStopDelayMs: 5000 },
+      logger,
+      deps,
+    );
+
+    expect(exitCode).toBe(0);
+    expect(readiness.isReady()).toBe(false);
+    expect(calls).toEqual([
+      'sleep:5000',
+      'http',
+      'sleep:10000',
+      'typeorm',
+      'mongoose',
+      'redis',
+      'app',
+    ]);
+    expect(logger.log.mock.calls.map(([message]) => message)).toEqual([
+      '[Shutdown] SIGTERM recebido. Iniciando o desligamento gracioso...',
+      '[Shutdown] Instância marcada como não pronta (10ms)',
+      '[Shutdown] Pre-stop delay de 5000ms concluído (10ms)',
+      '[Shutdown] Servidor HTTP parou de aceitar conexões e foi drenado (10ms)',
+      '[Shutdown] Conexão do TypeORM encerrada (10ms)',
+      '[Shutdown] Conexão do Mongoose encerrada (10ms)',
+      '[Shutdown] Conexão do Redis (cache) encerrada (10ms)',
+      '[Shutdown] Aplicação encerrada (10ms)',
+      '[Shutdown] Desligamento concluído em 150ms (código de saída: 0).',
+    ]);
+  });
+
+  it('should skip the steps of providers that are not registered', async () => {
+    const { app } = createApp(
+      new Map<unknown, unknown>([
+        [DataSource, { isInitialized: false, destroy: jest.fn() }],
+      ]),
+    );
+
+    await runGracefulShutdown(app, 'SIGINT', {}, logger, deps);
+
+    expect(calls).toEqual(['http', 'sleep:10000', 'app']);
+  });
+
+  it('should close the remaining connections when the drain times out', async () => {
+    const { app, adapter, server } = createApp();
+    adapter.close.mockReturnValue(new Promise(() => undefined));
+
+    await runGracefulShutdown(
+      app,
+      'SIGTERM',
+      { drainTimeoutMs: 2000 },
+      logger,
+      deps,
+    );
+
+    expect(server.closeAllConnections).toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[Shutdown] As requisições em andamento não terminaram em 2000ms. Encerrando as conexões restantes.',
+    );
+    expect(calls).toContain('app');
+  });
+
+  it('should continue after a failed step and return exit code 1', async () => {
+    const { app } = createApp(
+      new Map<unknown, unknown>([
+        [
+          DataSource,
+          {
+            isInitialized: true,
+            destroy: () => Promise.reject(new Error('connection lost')),
+          },
+        ],
+      ]),
+    );
+
+    const exitCode = await runGracefulShutdown(
+      app,
+      'SIGTERM',
+      {},
+      logger,
+      deps,
+    );
+
+    expect(exitCode).toBe(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      "[Shutdown] Falha na etapa 'Conexão do TypeORM encerrada': connection lost",
+    );
+    expect(calls).toContain('app');
+  });
+
+  describe('with a real application', () => {
+    @Controller()
+    class TestController {
+      constructor(private readonly readiness: ReadinessState) {}
+
+      @Get('slow')
+      async slow() {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        return 'done';
+      }
+
+      @Get('health')
+      health() {
+        if (!this.readiness.isReady()) throw new ServiceUnavailableException();
+        return 'ok';
+      }
+    }
+
+    @Module({ imports: [ReadinessModule], controllers: [TestController] })
+    class TestModule {}
+
+    it('should flip readiness and let in-flight requests finish', async () => {
+      const app = await NestFactory.create(TestModule, { logger: false });
+      await app.listen(0);
+      const url = await app.getUrl();
+
+      const inFlight = fetch(`${url}/slow`);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const shutdown = runGracefulShutdown(
+        app,
+        'SIGTERM',
+        { preStopDelayMs: 100 },
+        logger,
+      );
+      const health = await fetch(`${url}/health`);
+
+      expect(health.status).toBe(503);
+      const response = await inFlight;
+      expect(response.status).toBe(200);
+      await expect(response.text()).resolves.toBe('done');
+      await expect(shutdown).resolves.toBe(0);
+    });
+  });
+});
+
+describe('registerGracefulShutdown', () => {
+  const createProcess = () => {
+    const listeners = new Map<string, (signal: NodeJS.Signals) => void>();
+    return {
+      listeners,
+      once: jest.fn((signal: string, listener: any) => {
+        listeners.set(signal, listener);
+      }),
+      removeListener: jest.fn((signal: string) => {
+        listeners.delete(signal);
+      }),
+      exit: jest.fn(),
+    };
+  };
+
+  const createApp = (close: () => Promise<void>) =>
+    ({
+      get: () => ({
+        get: () => {
+          throw new Error('not found');
+        },
+      }),
+      getHttpAdapter: () => ({ close: () => Promise.resolve() }),
+      close,
+    }) as unknown as INestApplication;
+
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run the shutdown on the first signal and exit with its code', async () => {
+    const processRef = createProcess();
+    const close = jest.fn().mockResolvedValue(undefined);
+
+    registerGracefulShutdown(createApp(close), {}, logger, {
+      process: processRef as any,
+    });
+
+    expect([...processRef.listeners.keys()]).toEqual(['SIGTERM', 'SIGINT']);
+    processRef.listeners.get('SIGTERM')!('SIGTERM');
+
+    expect(processRef.listeners.size).toBe(0);
+    await new Promise(setImmediate);
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(processRef.exit).toHaveBeenCalledWith(0);
+  });
+
+  it('should return a function that removes the handlers', () => {
+    const processRef = createProcess();
+
+    const removeHandlers = registerGracefulShutdown(
+      createApp(jest.fn()),
+      {},
+      logger,
+      { process: processRef as any },
+    );
+    removeHandlers();
+
+    expect(processRef.listeners.size).toBe(0);
+  });
+
+  it('should not keep signal handlers after the app closes', async () => {
+    @Module({})
+    class EmptyModule {}
+
+    const count = () =>
+      process.listenerCount('SIGTERM') + process.listenerCount('SIGINT');
+    const before = count();
+
+    for (let round = 0; round < 3; round++) {
+      const app = await AppInitializer.createTestingApp(
+        EmptyModule,
+        (builder) => builder.withGracefulShutdown(),
+      );
+      expect(count()).toBe(before + 2);
+      await app.close();
+    }
+
+    expect(count()).toBe(before);
+  });
+
+  it('should force the exit when the shutdown exceeds the timeout', () => {
+    jest.useFakeTimers();
+    const processRef = createProcess();
+
+    registerGracefulShutdown(
+      createApp(() => new Promise(() => undefined)),
+      { timeoutMs: 1000, signals: ['SIGTERM'] },
+      logger,
+      { process: processRef as any },
+    );
+    processRef.listeners.get('SIGTERM')!('SIGTERM');
+    jest.advanceTimersByTime(1000);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      '[Shutdown] O desligamento excedeu 1000ms. Finalizando o processo.',
+    );
+    expect(processRef.exit).toHaveBeenCalledWith(1);
+  });
+});
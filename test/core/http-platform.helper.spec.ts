@@ -0,0 +1,168 @@
+import { Controller, Get, INestApplication } from '@nestjs/common';
+import {
+  FastifyAdapter,
+  NestFastifyApplication,
+} from '@nestjs/platform-fastify';
+import { Test } from '@nestjs/testing';
+import {
+  createRouteMatcher,
+  getHttpPlatform,
+  registerFastifyPlugin,
+} from '../../src/core/http-platform.helper';
+
+@Controller('ping')
+class PingController {
+  @Get()
+  ping() {
+    return 'pong';
+  }
+}
+
+const createMockApp = (type: string) =>
+  ({
+    getHttpAdapter: () => ({ getType: () => type }),
+    register: jest.fn(),
+  }) as unknown as INestApplication & { register: jest.Mock };
+
+describe('http-platform.helper', () => {
+  describe('getHttpPlatform', () => {
+    it('should return the platform of supported adapters', () => {
+      expect(getHttpPlatform(createMockApp('express'), 'useHelmet')).toBe(
+        'express',
+      );
+      expect(getHttpPlatform(createMockApp('fastify'), 'useHelmet')).toBe(
+        'fastify',
+      );
+    });
+
+    it('should throw a clear error for unsupported adapters', () => {
+      expect(() => getHttpPlatform(createMockApp('koa'), 'useHelmet')).toThrow(
+        "[Adaptador HTTP] O recurso 'useHelmet' não suporta o adaptador 'koa'. Adaptadores suportados: express, fastify.",
+      );
+    });
+  });
+
+  describe('registerFastifyPlugin', () => {
+    it('should register the default export with the given options', async () => {
+      const app = createMockApp('fastify');
+      const plugin = jest.fn();
+      const requireFn = jest.fn(() => ({ default: plugin }));
+
+      await registerFastifyPlugin(
+        app,
+        '@fastify/helmet',
+        'useHelmet',
+        { global: true },
+        requireFn,
+      );
+
+      expect(requireFn).toHaveBeenCalledWith('@fastify/helmet');
+      expect(app.register).toHaveBeenCalledWith(plugin, { global: true });
+    });
+
+    it('should register CommonJS exports without default', async () => {
+      const app = createMockApp('fastify');
+      const plugin = jest.fn();
+
+      await registerFastifyPlugin(
+        app,
+        '@fastify/compress',
+        'enableCompression',
+        undefined,
+        () => plugin,
+      );
+
+      expect(app.register).toHaveBeenCalledWith(plugin, {});
+    });
+
+    it('should throw a clear error when the package is not installed', async () => {
+      const requireFn = () => {
+        throw Object.assign(new Error('not found'), {
+          code: 'MODULE_NOT_FOUND',
+        });
+      };
+
+      await expect(
+        registerFastifyPlugin(
+          createMockApp('fastify'),
+          '@fastify/helmet',
+          'useHelmet',
+          {},
+          requireFn,
+        ),
+      ).rejects.toThrow(
+        "[Adaptador HTTP] O recurso 'useHelmet' com Fastify requer o pacote '@fastify/helmet'. Instale-o com: npm install @fastify/helmet",
+      );
+    });
+
+    it('should rethrow other errors raised while loading the package', async () => {
+      const loadError = new Error('syntax error');
+
+      await expect(
+        registerFastifyPlugin(
+          createMockApp('fastify'),
+          '@fastify/helmet',
+          'useHelmet',
+          {},
+          () => {
+            throw loadError;
+          },
+        ),
+      ).rejects.toBe(loadError);
+    });
+
+    it('should register a real plugin on a Fastify application', async () => {
+      const module = await Test.createTestingModule({
+        controllers: [PingController],
+      }).compile();
+      const app = module.createNestApplication<NestFastifyApplication>(
+        new FastifyAdapter(),
+      );
+
+      await registerFastifyPlugin(app, '@fastify/helmet', 'useHelmet');
+      await app.init();
+      await app.getHttpAdapter().getInstance().ready();
+
+      const response = await app.inject({ method: 'GET', url: '/ping' });
+      await app.close();
+
+      expect(response.body).toBe('pong');
+      expect(response.headers['x-content-type-options']).toBe('nosniff');
+    });
+  });
+
+  describe('createRouteMatcher', () => {
+    const matches = createRouteMatcher([
+      { method: 'GET', path: '/api/users/:id' },
+      { method: 'POST', path: '/api/files/*path' },
+      { method: 'ALL', path: '/api/hooks' },
+      { method: 'GET', path: '/api/export{.:format}' },
+      { method: 'GET', path: '/' },
+    ]);
+
+    it('should match the method and the path parameters', () => {
+      expect(matches({ method: 'GET', path: '/api/users/42' })).toBe(true);
+      expect(matches({ method: 'get', path: '/API/users/42/' })).toBe(true);
+      expect(matches({ method: 'DELETE', path: '/api/users/42' })).toBe(false);
+      expect(matches({ method: 'GET', path: '/api/users/42/posts' })).toBe(
+        false,
+      );
+      expect(matches({ method: 'GET', path: '/api/users' })).toBe(false);
+    });
+
+    it('should match HEAD requests to GET routes and any method to ALL routes', () => {
+      expect(matches({ method: 'HEAD', path: '/api/users/1' })).toBe(true);
+      expect(matches({ method: 'PATCH', path: '/api/hooks' })).toBe(true);
+    });
+
+    it('should match wildcards, optional segments and the root', () => {
+      expect(matches({ method: 'POST', path: '/api/files/a/b.txt' })).toBe(
+        true,
+      );
+      expect(matches({ method: 'GET', path: '/api/export' })).toBe(true);
+      expect(matches({ method: 'GET', path: '/api/export.csv' })).toBe(true);
+      expect(matches({ method: 'GET', path: '/api/exportxcsv' })).toBe(false);
+      expect(matches({ method: 'GET', path: '/' })).toBe(true);
+    });
+  });
+});
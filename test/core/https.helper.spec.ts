@@ -0,0 +1,201 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { request, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createHttpsRedirectServer,
+  loadHttpsOptions,
+} from '../../src/core/https.helper';
+
+describe('https.helper', () => {
+  describe('loadHttpsOptions', () => {
+    let dir: string;
+
+    const writeFile = (name: string, content: string) => {
+      const filePath = join(dir, name);
+      writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'nest-initializer-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read key and certificate from files', () => {
+      const options = loadHttpsOptions({
+        keyPath: writeFile('key.pem', 'KEY'),
+        certPath: writeFile('cert.pem', 'CERT'),
+      });
+
+      expect(options.key.toString()).toBe('KEY');
+      expect(options.cert.toString()).toBe('CERT');
+      expect(options).not.toHaveProperty('ca');
+      expect(options).not.toHaveProperty('passphrase');
+      expect(options).not.toHaveProperty('requestCert');
+    });
+
+    it('should read certificates and passphrase from the environment', () => {
+      const options = loadHttpsOptions(
+        {
+          keyEnvKey: 'TLS_KEY',
+          certEnvKey: 'TLS_CERT',
+          caEnvKey: 'TLS_CA',
+          passphraseEnvKey: 'TLS_PASSPHRASE',
+        },
+        {
+          TLS_KEY: 'KEY',
+          TLS_CERT: 'CERT',
+          TLS_CA: 'CA',
+          TLS_PASSPHRASE: 'secret',
+        },
+      );
+
+      expect(options).toEqual({
+        key: 'KEY',
+        cert: 'CERT',
+        ca: 'CA',
+        passphrase: 'secret',
+      });
+    });
+
+    it('should prefer files over environment variables', () => {
+      const options = loadHttpsOptions(
+        {
+          keyPath: writeFile('key.pem', 'FILE_KEY'),
+          keyEnvKey: 'TLS_KEY',
+          certEnvKey: 'TLS_CERT',
+        },
+        { TLS_KEY: 'ENV_KEY', TLS_CERT: 'CERT' },
+      );
+
+      expect(options.key.toString()).toBe('FILE_KEY');
+    });
+
+    it('should enable client certificate validation for mTLS', () => {
+      const options = loadHttpsOptions({
+        keyPath: writeFile('key.pem', 'KEY'),
+        certPath: writeFile('cert.pem', 'CERT'),
+        caPath: [writeFile('ca1.pem', 'CA1'), writeFile('ca2.pem', 'CA2')],
+        requireClientCertificate: true,
+      });
+
+      expect(options.ca.map(String)).toEqual(['CA1', 'CA2']);
+      expect(options.requestCert).toBe(true);
+      expect(options.rejectUnauthorized).toBe(true);
+    });
+
+    it('should throw when mTLS is required without a CA', () => {
+      expect(() =>
+        loadHttpsOptions(
+          {
+            keyEnvKey: 'TLS_KEY',
+            certEnvKey: 'TLS_CERT',
+            requireClientCertificate: true,
+          },
+          { TLS_KEY: 'KEY', TLS_CERT: 'CERT' },
+        ),
+      ).toThrow('[HTTPS] A validação do certificado do cliente (mTLS) exige');
+    });
+
+    it('should throw when the key or certificate is missing', () => {
+      expect(() => loadHttpsOptions({ keyEnvKey: 'TLS_KEY' }, {})).toThrow(
+        "[HTTPS] Variável de ambiente 'TLS_KEY' (chave privada) não definida.",
+      );
+      expect(() =>
+        loadHttpsOptions({ keyPath: writeFile('key.pem', 'KEY') }),
+      ).toThrow('[HTTPS] Informe a chave privada');
+    });
+
+    it('should throw when a certificate file does not exist', () => {
+      const certPath = join(dir, 'missing.pem');
+      expect(() =>
+        loadHttpsOptions({ keyPath: writeFile('key.pem', 'KEY'), certPath }),
+      ).toThrow(`[HTTPS] Arquivo de certificado não encontrado: ${certPath}`);
+    });
+  });
+
+  describe('createHttpsRedirectServer', () => {
+    let server: Server;
+
+    const get = (path: string, host: string) =>
+      new Promise<{ statusCode?: number; location?: string }>(
+        (resolve, reject) => {
+          const { port } = server.address() as AddressInfo;
+          request({ port, path, headers: { host } }, (res) => {
+            res.resume();
+            resolve({
+              statusCode: res.statusCode,
+              location: res.headers.location,
+            });
+          })
+            .on('error', reject)
+            .end();
+        },
+      );
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should redirect to the HTTPS port of the allowed host keeping the path', async () => {
+      server = createHttpsRedirectServer(8443, {
+        allowedHosts: ['Example.com'],
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+
+      await expect(
+        get('/api/users?page=2', 'example.com:8080'),
+      ).resolves.toEqual({
+        statusCode: 301,
+        location: 'https://example.com:8443/api/users?page=2',
+      });
+    });
+
+    it('should omit the default HTTPS port', async () => {
+      server = createHttpsRedirectServer(443, {
+        allowedHosts: ['example.com'],
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+
+      await expect(get('/', 'example.com')).resolves.toEqual({
+        statusCode: 301,
+        location: 'https://example.com/',
+      });
+    });
+
+    it('should reject a host that is not allowed', async () => {
+      server = createHttpsRedirectServer(443, {
+        allowedHosts: ['example.com'],
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+
+      await expect(get('/', 'evil.com')).resolves.toEqual({
+        statusCode: 400,
+        location: undefined,
+      });
+    });
+
+    it('should always redirect to the configured host', async () => {
+      server = createHttpsRedirectServer(443, { host: 'api.example.com' });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+
+      await expect(get('/login', 'evil.com')).resolves.toEqual({
+        statusCode: 301,
+        location: 'https://api.example.com/login',
+      });
+    });
+
+    it('should require the host or the allowed hosts', () => {
+      expect(() =>
+        createHttpsRedirectServer(443, { allowedHosts: [] }),
+      ).toThrow(
+        "[HTTPS] O redirecionamento HTTP → HTTPS exige 'redirectHost' ou 'redirectAllowedHosts'",
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import 'reflect-metadata';
+import {
+  Controller,
+  Get,
+  Inject,
+  INestApplication,
+  Module,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Registry } from 'prom-client';
+import { AppInitializer } from '../../src';
+import { createManagementModule } from '../../src/core/management-server.helper';
+import { METRICS_REGISTRY } from '../../src/features/metrics/metrics.tokens';
+
+const SHARED_TOKEN = 'SHARED_TOKEN';
+
+@Controller('admin')
+class AdminController {
+  constructor(@Inject(SHARED_TOKEN) readonly shared: object) {}
+
+  @Get()
+  get() {
+    return 'admin';
+  }
+}
+
+@Controller('admin')
+class RegistryAdminController {
+  constructor(@Inject(METRICS_REGISTRY) private readonly registry: Registry) {}
+
+  @Get()
+  get() {
+    return this.registry.getMetricsAsJSON().then((m) => m.length > 0);
+  }
+}
+
+@Controller('users')
+class UsersController {
+  @Get()
+  findAll() {
+    return [];
+  }
+}
+
+@Module({ controllers: [UsersController] })
+class AppModule {}
+
+@Module({ controllers: [RegistryAdminController] })
+class AdminModule {}
+
+describe('management-server.helper', () => {
+  describe('createManagementModule', () => {
+    it('should share instances resolved from the public app', async () => {
+      const shared = { id: 1 };
+      const publicApp = {
+        get: jest.fn(() => shared),
+      } as unknown as INestApplication;
+
+      const ManagementRootModule = createManagementModule(publicApp, {
+        imports: [],
+        controllers: [AdminController],
+        sharedTokens: [SHARED_TOKEN],
+      });
+      const moduleRef = await Test.createTestingModule({
+        imports: [ManagementRootModule],
+      }).compile();
+
+      expect(moduleRef.get(AdminController).shared).toBe(shared);
+      expect(publicApp.get).toHaveBeenCalledWith(SHARED_TOKEN, {
+        strict: false,
+      });
+    });
+  });
+
+  describe('AppInitializer.withManagementServer', () => {
+    let initializer: AppInitializer;
+    let publicUrl: string;
+    let managementUrl: string;
+
+    beforeAll(async () => {
+      await AppInitializer.bootstrap(AppModule, (app) => {
+        initializer = app;
+        app
+          .onPort(0)
+          .withGlobalPrefix('/api')
+          .withHealthCheck({
+            memory: { heapThreshold: 4096, rssThreshold: 4096 },
+          })
+          .withMetrics()
+          .withManagementServer({
+            port: 0,
+            prefix: 'management',
+            modules: [AdminModule],
+          });
+      });
+
+      publicUrl = `${await initializer.getApp().getUrl()}/api`;
+      managementUrl = `${await initializer['managementApp']!.getUrl()}/management`;
+    });
+
+    afterAll(async () => {
+      await initializer.getApp().close();
+    });
+
+    it('should keep business routes on the public port only', async () => {
+      expect((await fetch(`${publicUrl}/users`)).status).toBe(200);
+      expect((await fetch(`${managementUrl}/users`)).status).toBe(404);
+    });
+
+    it('should serve health, metrics and admin routes on the management port only', async () => {
+      expect((await fetch(`${managementUrl}/health`)).status).toBe(200);
+      const admin = await fetch(`${managementUrl}/admin`);
+      expect(admin.status).toBe(200);
+      expect(await admin.text()).toBe('true');
+      expect((await fetch(`${publicUrl}/health`)).status).toBe(404);
+      expect((await fetch(`${publicUrl}/metrics`)).status).toBe(404);
+    });
+
+    it('should record public requests only in the shared metrics registry', async () => {
+      await fetch(`${publicUrl}/users`);
+      await fetch(`${managementUrl}/health`);
+
+      const metrics = await (await fetch(`${managementUrl}/metrics`)).text();
+
+      expect(metrics).toContain('path="/api/users"');
+      expect(metrics).not.toContain('path="/management/health"');
+      expect(metrics).not.toContain('path="/management/metrics"');
+    });
+  });
+});
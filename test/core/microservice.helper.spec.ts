@@ -0,0 +1,56 @@
+import { Transport } from '@nestjs/microservices';
+import { describeTransport } from '../../src/core/microservice.helper';
+
+describe('describeTransport', () => {
+  it('should describe a TCP transport with host and port', () => {
+    expect(
+      describeTransport(
+        { transport: Transport.TCP, options: { host: '0.0.0.0', port: 3001 } },
+        Transport,
+      ),
+    ).toBe('TCP (0.0.0.0:3001)');
+  });
+
+  it('should default to localhost and TCP when omitted', () => {
+    expect(describeTransport({ options: { port: 3001 } }, Transport)).toBe(
+      'TCP (localhost:3001)',
+    );
+  });
+
+  it('should describe a Redis transport with its url', () => {
+    expect(
+      describeTransport(
+        {
+          transport: Transport.REDIS,
+          options: { host: 'redis', port: 6379 },
+        },
+        Transport,
+      ),
+    ).toBe('REDIS (redis:6379)');
+    expect(
+      describeTransport(
+        { transport: Transport.NATS, options: { url: 'nats://nats:4222' } },
+        Transport,
+      ),
+    ).toBe('NATS (nats://nats:4222)');
+  });
+
+  it('should describe a transport without target information', () => {
+    expect(describeTransport({ transport: Transport.TCP }, Transport)).toBe(
+      'TCP',
+    );
+  });
+
+  it('should describe a custom strategy by its class name', () => {
+    class CustomTransportStrategy {
+      listen = jest.fn();
+      close = jest.fn();
+    }
+    expect(
+      describeTransport(
+        { strategy: new CustomTransportStrategy() as any },
+        Transport,
+      ),
+    ).toBe('CustomTransportStrategy');
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  getPluginName,
+  sortPlugins,
+} from '../../src/core/plugin-sorter.helper';
+
+type TestPlugin = { name?: string; before?: string[]; after?: string[] };
+
+const names = (plugins: TestPlugin[]) => plugins.map(getPluginName);
+
+describe('sortPlugins', () => {
+  it('should keep registration order when there are no dependencies', () => {
+    const plugins = [{ name: 'a' }, { name: 'b' }, { name: 'c' }];
+    expect(names(sortPlugins(plugins))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should run a plugin after its "after" dependencies', () => {
+    const plugins = [{ name: 'a', after: ['c'] }, { name: 'b' }, { name: 'c' }];
+    expect(names(sortPlugins(plugins))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should run a plugin before the plugins listed in "before"', () => {
+    const plugins = [
+      { name: 'a' },
+      { name: 'b' },
+      { name: 'c', before: ['a'] },
+    ];
+    expect(names(sortPlugins(plugins))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should ignore "before" references to plugins that are not registered', () => {
+    const plugins = [{ name: 'a', before: ['missing'] }, { name: 'b' }];
+    expect(names(sortPlugins(plugins))).toEqual(['a', 'b']);
+  });
+
+  it('should keep unnamed plugins in registration order', () => {
+    class AnonymousPlugin {}
+    const anonymous = new AnonymousPlugin() as TestPlugin;
+    const plugins = [anonymous, { name: 'b', before: ['a'] }, { name: 'a' }];
+    expect(names(sortPlugins(plugins))).toEqual(['AnonymousPlugin', 'b', 'a']);
+  });
+
+  it('should not mutate the given array', () => {
+    const plugins = [{ name: 'a', after: ['b'] }, { name: 'b' }];
+    sortPlugins(plugins);
+    expect(names(plugins)).toEqual(['a', 'b']);
+  });
+
+  it('should throw when an "after" dependency is missing', () => {
+    expect(() => sortPlugins([{ name: 'a', after: ['missing'] }])).toThrow(
+      "[Plugins] O plugin 'a' depende de 'missing', que não está registrado.",
+    );
+  });
+
+  it('should throw when there is a circular dependency', () => {
+    const plugins = [
+      { name: 'a', after: ['b'] },
+      { name: 'b', after: ['a'] },
+      { name: 'c' },
+    ];
+    expect(() => sortPlugins(plugins)).toThrow(
+      '[Plugins] Dependência circular detectada entre os plugins: a, b.',
+    );
+  });
+});
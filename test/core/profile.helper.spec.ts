@@ -0,0 +1,36 @@
+import {
+  getProfileEnvFilePaths,
+  resolveActiveProfile,
+} from '../../src/core/profile.helper';
+
+describe('resolveActiveProfile', () => {
+  it('should prefer APP_PROFILE over NODE_ENV', () => {
+    expect(
+      resolveActiveProfile({ APP_PROFILE: 'staging', NODE_ENV: 'production' }),
+    ).toBe('staging');
+  });
+
+  it('should use NODE_ENV when APP_PROFILE is not set', () => {
+    expect(resolveActiveProfile({ NODE_ENV: 'production' })).toBe('production');
+  });
+
+  it('should ignore blank values', () => {
+    expect(resolveActiveProfile({ APP_PROFILE: '  ', NODE_ENV: 'test' })).toBe(
+      'test',
+    );
+  });
+
+  it('should fall back to the default profile', () => {
+    expect(resolveActiveProfile({})).toBe('development');
+    expect(resolveActiveProfile({}, 'local')).toBe('local');
+  });
+});
+
+describe('getProfileEnvFilePaths', () => {
+  it('should list the profile file before the base .env file', () => {
+    expect(getProfileEnvFilePaths('production')).toEqual([
+      '.env.production',
+      '.env',
+    ]);
+  });
+});
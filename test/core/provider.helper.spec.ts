@@ -0,0 +1,42 @@
+import { INestApplication, Injectable, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+
+import { findProvider } from '../../src/core/provider.helper';
+
+@Injectable()
+class RegisteredService {}
+
+@Injectable()
+class MissingService {}
+
+@Module({ providers: [RegisteredService] })
+class FeatureModule {}
+
+@Module({ imports: [FeatureModule] })
+class RootModule {}
+
+describe('findProvider', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [RootModule],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should resolve providers that are not exported by their module', () => {
+    expect(findProvider(app, RegisteredService)).toBeInstanceOf(
+      RegisteredService,
+    );
+  });
+
+  it('should return undefined instead of exiting when the provider is missing', () => {
+    expect(findProvider(app, MissingService)).toBeUndefined();
+  });
+});
@@ -0,0 +1,312 @@
+import { LoggerService } from '@nestjs/common';
+import { Options as RateLimitOptions } from 'express-rate-limit';
+
+import {
+  createExpressRateLimitStore,
+  createFastifyRateLimitStore,
+  loadRedisPackage,
+  RateLimitCounter,
+  RateLimitRedisClient,
+} from '../../src/core/rate-limit-store.helper';
+
+/**
+ * Cliente Redis em memória que interpreta os scripts do store pelo comando principal.
+ */
+class FakeRedisClient implements RateLimitRedisClient {
+  isReady = true;
+  failWith?: Error;
+  readonly values = new Map<string, { hits: number; ttl: number }>();
+  readonly eval = jest.fn(
+    (script: string, options: { keys: string[]; arguments: string[] }) =>
+      this.failWith
+        ? Promise.reject(this.failWith)
+        : Promise.resolve(this.execute(script, options)),
+  );
+
+  private execute(
+    script: string,
+    { keys: [key], arguments: args }: { keys: string[]; arguments: string[] },
+  ): unknown {
+    if (script.includes('INCR')) {
+      const entry = this.values.get(key) ?? { hits: 0, ttl: Number(args[0]) };
+      entry.hits += 1;
+      this.values.set(key, entry);
+      return [entry.hits, entry.ttl];
+    }
+    if (script.includes('DECR')) {
+      const entry = this.values.get(key);
+      if (entry) entry.hits -= 1;
+      return entry?.hits ?? 0;
+    }
+    return this.values.delete(key) ? 1 : 0;
+  }
+}
+
+describe('RateLimitCounter', () => {
+  let client: FakeRedisClient;
+  let logger: jest.Mocked<LoggerService>;
+  let clock: number;
+
+  const createCounter = (fallback?: 'memory' | 'allow') =>
+    new RateLimitCounter(client, { fallback }, logger, () => clock);
+
+  beforeEach(() => {
+    client = new FakeRedisClient();
+    logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    clock = 1_000;
+  });
+
+  it('should count the hits in Redis with the window as expiration', async () => {
+    const counter = createCounter();
+
+    await counter.increment('10.0.0.1', 60_000);
+    const hits = await counter.increment('10.0.0.1', 60_000);
+
+    expect(hits).toEqual({ totalHits: 2, resetTime: new Date(61_000) });
+    expect(client.eval).toHaveBeenCalledWith(expect.stringContaining('INCR'), {
+      keys: ['rate-limit:10.0.0.1'],
+      arguments: ['60000'],
+    });
+  });
+
+  it('should use the configured key prefix', async () => {
+    const counter = new RateLimitCounter(client, { prefix: 'api:' }, logger);
+    await counter.increment('key', 1_000);
+
+    expect(client.values.has('api:key')).toBe(true);
+  });
+
+  it('should decrement and reset the counters in Redis', async () => {
+    const counter = createCounter();
+    await counter.increment('key', 1_000);
+    await counter.increment('key', 1_000);
+
+    await counter.decrement('key');
+    expect(client.values.get('rate-limit:key')?.hits).toBe(1);
+
+    await counter.reset('key');
+    expect(client.values.has('rate-limit:key')).toBe(false);
+  });
+
+  it('should keep the counters in memory without a client', async () => {
+    const counter = new RateLimitCounter(undefined, {}, logger, () => clock);
+
+    await counter.increment('key', 1_000);
+    await counter.increment('key', 1_000);
+    await counter.decrement('key');
+    expect((await counter.increment('key', 1_000)).totalHits).toBe(2);
+
+    await counter.reset('key');
+    expect((await counter.increment('key', 1_000)).totalHits).toBe(1);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should remove the expired memory windows of other keys', async () => {
+    const counter = new RateLimitCounter(undefined, {}, logger, () => clock);
+    await counter.increment('a', 1_000);
+    await counter.increment('b', 120_000);
+
+    clock += 60_000;
+    await counter.increment('c', 1_000);
+
+    expect([...counter['memory'].keys()]).toEqual(['b', 'c']);
+  });
+
+  it('should drop the oldest memory windows at the key limit', async () => {
+    const counter = new RateLimitCounter(undefined, {}, logger, () => clock);
+    for (let i = 0; i <= 10_000; i++)
+      await counter.increment(`ip-${i}`, 60_000);
+
+    const keys = [...counter['memory'].keys()];
+    expect(keys).toHaveLength(10_000);
+    expect(keys[0]).toBe('ip-1');
+    expect((await counter.increment('ip-10000', 60_000)).totalHits).toBe(2);
+  });
+
+  describe('when Redis is unavailable', () => {
+    it('should fall back to memory counters and warn once', async () => {
+      client.failWith = new Error('ECONNREFUSED');
+      const counter = createCounter();
+
+      await counter.increment('key', 60_000);
+      const hits = await counter.increment('key', 60_000);
+
+      expect(hits).toEqual({ totalHits: 2, resetTime: new Date(61_000) });
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[RateLimiter] Redis indisponível (ECONNREFUSED). Usando contadores em memória (por réplica) até a reconexão.',
+      );
+    });
+
+    it('should not wait for a client that is not ready', async () => {
+      client.isReady = false;
+      const counter = createCounter();
+
+      await counter.increment('key', 1_000);
+
+      expect(client.eval).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('conexão indisponível'),
+      );
+    });
+
+    it('should restart the memory window after it expires', async () => {
+      client.failWith = new Error('down');
+      const counter = createCounter();
+
+      await counter.increment('key', 1_000);
+      clock += 1_000;
+
+      expect(await counter.increment('key', 1_000)).toEqual({
+        totalHits: 1,
+        resetTime: new Date(3_000),
+      });
+    });
+
+    it('should stop limiting with the allow policy', async () => {
+      client.failWith = new Error('down');
+      const counter = createCounter('allow');
+
+      await counter.increment('key', 1_000);
+
+      expect(await counter.increment('key', 1_000)).toEqual({
+        totalHits: 0,
+        resetTime: new Date(2_000),
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[RateLimiter] Redis indisponível (down). As requisições não serão limitadas até a reconexão.',
+      );
+    });
+
+    it('should decrement and reset the memory counters', async () => {
+      client.failWith = new Error('down');
+      const counter = createCounter();
+      await counter.increment('key', 1_000);
+      await counter.increment('key', 1_000);
+
+      await counter.decrement('key');
+      expect((await counter.increment('key', 1_000)).totalHits).toBe(2);
+
+      await counter.reset('key');
+      expect((await counter.increment('key', 1_000)).totalHits).toBe(1);
+    });
+
+    it('should go back to Redis and log the recovery', async () => {
+      client.failWith = new Error('down');
+      const counter = createCounter();
+      await counter.increment('key', 1_000);
+
+      client.failWith = undefined;
+      const hits = await counter.increment('key', 1_000);
+
+      expect(hits.totalHits).toBe(1);
+      expect(logger.log).toHaveBeenCalledWith(
+        '[RateLimiter] Conexão com o Redis restabelecida. Os contadores voltaram a ser compartilhados.',
+      );
+
+      client.failWith = new Error('down again');
+      await counter.increment('key', 1_000);
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe('rate limit stores', () => {
+  let counter: jest.Mocked<
+    Pick<RateLimitCounter, 'increment' | 'decrement' | 'reset'>
+  >;
+
+  beforeEach(() => {
+    counter = {
+      increment: jest.fn().mockResolvedValue({
+        totalHits: 3,
+        resetTime: new Date(Date.now() + 5_000),
+      }),
+      decrement: jest.fn().mockResolvedValue(undefined),
+      reset: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should adapt the counters to the express-rate-limit store', async () => {
+    const store = createExpressRateLimitStore(
+      counter as unknown as RateLimitCounter,
+    );
+    store.init?.({ windowMs: 30_000 } as RateLimitOptions);
+
+    expect(store.localKeys).toBe(false);
+    await expect(store.increment('ip')).resolves.toMatchObject({
+      totalHits: 3,
+    });
+    await store.decrement('ip');
+    await store.resetKey('ip');
+
+    expect(counter.increment).toHaveBeenCalledWith('ip', 30_000);
+    expect(counter.decrement).toHaveBeenCalledWith('ip');
+    expect(counter.reset).toHaveBeenCalledWith('ip');
+  });
+
+  it('should adapt the counters to the @fastify/rate-limit store, per route', async () => {
+    const Store = createFastifyRateLimitStore(
+      counter as unknown as RateLimitCounter,
+    );
+    const store = new Store({ max: 10 }).child({
+      routeInfo: { method: 'GET', url: '/orders' },
+    });
+
+    const result = await new Promise((resolve, reject) =>
+      store.incr(
+        'ip',
+        (error, value) => (error ? reject(error) : resolve(value)),
+        60_000,
+      ),
+    );
+
+    expect(counter.increment).toHaveBeenCalledWith('GET/orders:ip', 60_000);
+    expect(result).toEqual({
+      current: 3,
+      ttl: expect.any(Number),
+    });
+  });
+
+  it('should report counter failures to @fastify/rate-limit', async () => {
+    const error = new Error('unexpected');
+    counter.increment.mockRejectedValue(error);
+    const store = new (createFastifyRateLimitStore(
+      counter as unknown as RateLimitCounter,
+    ))();
+
+    await expect(
+      new Promise((resolve, reject) =>
+        store.incr('ip', (err) => (err ? reject(err) : resolve(null)), 1_000),
+      ),
+    ).rejects.toBe(error);
+  });
+});
+
+describe('loadRedisPackage', () => {
+  it('should load the redis package', () => {
+    const redis = { createClient: jest.fn() };
+
+    expect(loadRedisPackage(() => redis)).toBe(redis);
+  });
+
+  it('should explain how to install the package when it is missing', () => {
+    const requireFn = () => {
+      throw Object.assign(new Error('Cannot find module'), {
+        code: 'MODULE_NOT_FOUND',
+      });
+    };
+
+    expect(() => loadRedisPackage(requireFn)).toThrow(
+      "[RateLimiter] O store Redis com 'store.url' requer o pacote 'redis'. Instale-o com: npm install redis",
+    );
+  });
+
+  it('should rethrow other loading errors', () => {
+    const requireFn = () => {
+      throw new Error('syntax error');
+    };
+
+    expect(() => loadRedisPackage(requireFn)).toThrow('syntax error');
+  });
+});
@@ -0,0 +1,116 @@
+import { join, resolve } from 'path';
+
+import { resolveSecretFiles } from '../../src/core/secret-files.helper';
+
+describe('resolveSecretFiles', () => {
+  const secretsDir = resolve('/run/secrets');
+
+  const createDeps = (files: Record<string, string>, dirs: string[] = []) => ({
+    exists: (path: string) => path in files || dirs.includes(path),
+    isFile: (path: string) => path in files,
+    readDir: (dir: string) =>
+      [...Object.keys(files), ...dirs]
+        .filter((path) => path !== dir && path.startsWith(dir))
+        .map((path) => path.slice(dir.length + 1)),
+    readFile: (path: string) => files[path],
+  });
+
+  it('should fill FOO with the trimmed contents of FOO_FILE', () => {
+    const deps = createDeps({
+      [join(secretsDir, 'database_url')]: '  postgres://u:p@db/app\n',
+    });
+
+    const result = resolveSecretFiles(
+      { DATABASE_URL_FILE: '/run/secrets/database_url', PORT: '3000' },
+      {},
+      deps,
+    );
+
+    expect(result).toEqual({
+      DATABASE_URL_FILE: '/run/secrets/database_url',
+      DATABASE_URL: 'postgres://u:p@db/app',
+      PORT: '3000',
+    });
+  });
+
+  it('should not mutate the original config', () => {
+    const config = { TOKEN_FILE: '/run/secrets/token' };
+    resolveSecretFiles(
+      config,
+      {},
+      createDeps({ [join(secretsDir, 'token')]: 'abc' }),
+    );
+
+    expect(config).toEqual({ TOKEN_FILE: '/run/secrets/token' });
+  });
+
+  it('should ignore empty *_FILE variables', () => {
+    expect(resolveSecretFiles({ FOO_FILE: '' }, {}, createDeps({}))).toEqual({
+      FOO_FILE: '',
+    });
+  });
+
+  it('should throw when both FOO and FOO_FILE are set', () => {
+    expect(() =>
+      resolveSecretFiles(
+        { REDIS_URL: 'redis://cache', REDIS_URL_FILE: '/run/secrets/redis' },
+        {},
+        createDeps({}),
+      ),
+    ).toThrow(
+      "[Segredos] As variáveis 'REDIS_URL' e 'REDIS_URL_FILE' estão definidas ao mesmo tempo. Use apenas uma delas.",
+    );
+  });
+
+  it('should throw when the secret file does not exist', () => {
+    expect(() =>
+      resolveSecretFiles(
+        { MONGO_URI_FILE: '/run/secrets/mongo' },
+        {},
+        createDeps({}),
+      ),
+    ).toThrow(
+      `[Segredos] Arquivo do segredo 'MONGO_URI' não encontrado: ${join(secretsDir, 'mongo')}`,
+    );
+  });
+
+  describe('with a secrets directory', () => {
+    it('should fill variables named after each file, skipping hidden entries and folders', () => {
+      const deps = createDeps(
+        {
+          [join(secretsDir, 'db_password')]: 's3cr3t\n',
+          [join(secretsDir, 'api-token')]: 'tok',
+          [join(secretsDir, '..data')]: 'ignored',
+        },
+        [secretsDir, join(secretsDir, 'nested')],
+      );
+
+      const result = resolveSecretFiles({}, { directory: secretsDir }, deps);
+
+      expect(result).toEqual({ DB_PASSWORD: 's3cr3t', API_TOKEN: 'tok' });
+    });
+
+    it('should give priority to variables already defined', () => {
+      const deps = createDeps(
+        { [join(secretsDir, 'DB_PASSWORD')]: 'from-file' },
+        [secretsDir],
+      );
+
+      expect(
+        resolveSecretFiles(
+          { DB_PASSWORD: 'from-env' },
+          { directory: secretsDir },
+          deps,
+        ),
+      ).toEqual({ DB_PASSWORD: 'from-env' });
+    });
+
+    it('should throw when the directory does not exist', () => {
+      expect(() =>
+        resolveSecretFiles({}, { directory: secretsDir }, createDeps({})),
+      ).toThrow(
+        `[Segredos] Diretório de segredos não encontrado: ${secretsDir}`,
+      );
+    });
+  });
+});
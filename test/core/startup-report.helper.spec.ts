@@ -0,0 +1,269 @@
+import 'reflect-metadata';
+import {
+  CanActivate,
+  ClassSerializerInterceptor,
+  Controller,
+  ExceptionFilter,
+  Get,
+  INestApplication,
+  Module,
+  Post,
+  Version,
+  VERSION_NEUTRAL,
+  VersioningType,
+} from '@nestjs/common';
+import {
+  APP_FILTER,
+  APP_GUARD,
+  APP_INTERCEPTOR,
+  Reflector,
+} from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import {
+  collectGlobalComponents,
+  collectRoutes,
+  describeVersioning,
+  formatStartupReport,
+  StartupReport,
+} from '../../src/core/startup-report.helper';
+
+@Controller('users')
+class UsersController {
+  @Get()
+  findAll() {
+    return [];
+  }
+
+  @Post(':id')
+  @Version(['1', '2'])
+  update() {
+    return {};
+  }
+
+  helper() {
+    return 'not a route';
+  }
+}
+
+@Controller({ path: 'status', version: VERSION_NEUTRAL })
+class StatusController {
+  @Get(['', 'ping'])
+  status() {
+    return 'ok';
+  }
+}
+
+describe('startup-report.helper', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [UsersController, StatusController],
+    }).compile();
+    app = moduleRef.createNestApplication();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('collectRoutes', () => {
+    it('should list routes with global prefix and no versioning', () => {
+      expect(collectRoutes(app, '/api')).toEqual([
+        { method: 'GET', path: '/api/users', version: undefined },
+        { method: 'POST', path: '/api/users/:id', version: '1' },
+        { method: 'POST', path: '/api/users/:id', version: '2' },
+        { method: 'GET', path: '/api/status', version: 'neutral' },
+        { method: 'GET', path: '/api/status/ping', version: 'neutral' },
+      ]);
+    });
+
+    it('should include the URI version segment and the default version', () => {
+      const routes = collectRoutes(app, undefined, {
+        type: VersioningType.URI,
+        defaultVersion: '3',
+      });
+
+      expect(routes).toEqual([
+        { method: 'GET', path: '/v3/users', version: '3' },
+        { method: 'POST', path: '/v1/users/:id', version: '1' },
+        { method: 'POST', path: '/v2/users/:id', version: '2' },
+        { method: 'GET', path: '/status', version: 'neutral' },
+        { method: 'GET', path: '/status/ping', version: 'neutral' },
+      ]);
+    });
+
+    it('should respect a custom or disabled URI prefix', () => {
+      const custom = collectRoutes(app, undefined, {
+        type: VersioningType.URI,
+        prefix: 'version-',
+      });
+      expect(custom[1].path).toBe('/version-1/users/:id');
+
+      const disabled = collectRoutes(app, undefined, {
+        type: VersioningType.URI,
+        prefix: false,
+      });
+      expect(disabled[1].path).toBe('/1/users/:id');
+    });
+
+    it('should not add a version segment for header versioning', () => {
+      const routes = collectRoutes(app, undefined, {
+        type: VersioningType.HEADER,
+        header: 'X-Version',
+      });
+      expect(routes[1]).toEqual({
+        method: 'POST',
+        path: '/users/:id',
+        version: '1',
+      });
+    });
+
+    it('should keep only the routes accepted by the filter', () => {
+      const filter = jest.fn(
+        (_handler: object, controller: object) =>
+          controller === StatusController,
+      );
+
+      expect(collectRoutes(app, undefined, undefined, filter)).toEqual([
+        { method: 'GET', path: '/status', version: 'neutral' },
+        { method: 'GET', path: '/status/ping', version: 'neutral' },
+      ]);
+      expect(filter).toHaveBeenCalledWith(
+        UsersController.prototype.findAll,
+        UsersController,
+      );
+    });
+  });
+
+  describe('collectGlobalComponents', () => {
+    class AuthGuard implements CanActivate {
+      canActivate() {
+        return true;
+      }
+    }
+
+    class PluginGuard implements CanActivate {
+      canActivate() {
+        return true;
+      }
+    }
+
+    class ErrorFilter implements ExceptionFilter {
+      catch() {}
+    }
+
+    // Como os módulos registrados pelos plugins (ex: o do rate limiter).
+    @Module({ providers: [{ provide: APP_GUARD, useClass: PluginGuard }] })
+    class PluginModule {}
+
+    it('should list the global components of every module', async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [PluginModule],
+        providers: [
+          { provide: APP_GUARD, useClass: AuthGuard },
+          { provide: APP_FILTER, useValue: new ErrorFilter() },
+          {
+            provide: APP_INTERCEPTOR,
+            useFactory: (reflector: Reflector) =>
+              new ClassSerializerInterceptor(reflector),
+            inject: [Reflector],
+          },
+        ],
+      }).compile();
+      const globalsApp = moduleRef.createNestApplication();
+
+      expect(collectGlobalComponents(globalsApp, APP_GUARD).sort()).toEqual([
+        'AuthGuard',
+        'PluginGuard',
+      ]);
+      expect(collectGlobalComponents(globalsApp, APP_FILTER)).toEqual([
+        'ErrorFilter',
+      ]);
+      expect(collectGlobalComponents(globalsApp, APP_INTERCEPTOR)).toEqual([
+        'ClassSerializerInterceptor',
+      ]);
+      await globalsApp.close();
+    });
+  });
+
+  describe('describeVersioning', () => {
+    it('should return undefined when versioning is disabled', () => {
+      expect(describeVersioning()).toBeUndefined();
+    });
+
+    it('should describe URI versioning with its prefix', () => {
+      expect(
+        describeVersioning({
+          type: VersioningType.URI,
+          defaultVersion: ['1', VERSION_NEUTRAL],
+        }),
+      ).toEqual({ type: 'URI', prefix: 'v', defaultVersion: '1, neutral' });
+      expect(
+        describeVersioning({ type: VersioningType.URI, prefix: false }),
+      ).toEqual({ type: 'URI', prefix: undefined, defaultVersion: undefined });
+    });
+
+    it('should describe other versioning types without prefix', () => {
+      expect(
+        describeVersioning({ type: VersioningType.HEADER, header: 'X' }),
+      ).toEqual({
+        type: 'HEADER',
+        prefix: undefined,
+        defaultVersion: undefined,
+      });
+    });
+  });
+
+  describe('formatStartupReport', () => {
+    const report: StartupReport = {
+      url: 'http://localhost:3000',
+      profile: 'production',
+      starters: ['TypeORM'],
+      plugins: ['typeorm-migration', 'rate-limiter'],
+      microservices: ['TCP (localhost:3001)'],
+      globalPipes: ['ValidationPipe'],
+      globalGuards: [],
+      globalFilters: [],
+      globalInterceptors: ['ClassSerializerInterceptor'],
+      globalPrefix: '/api',
+      versioning: { type: 'URI', prefix: 'v', defaultVersion: '1' },
+      routes: [{ method: 'GET', path: '/api/v1/users', version: '1' }],
+      phases: [{ phase: 'create', durationMs: 12.345 }],
+      totalDurationMs: 20,
+    };
+
+    it('should render the summary, phases and routes as tables', () => {
+      const output = formatStartupReport(report);
+
+      expect(output).toContain('Relatório de inicialização');
+      expect(output).toContain(
+        '| Plugins (ordem)      | typeorm-migration, rate-limiter',
+      );
+      expect(output).toContain('| Microservices        | TCP (localhost:3001)');
+      expect(output).toContain('| Guards globais       | -');
+      expect(output).toContain(
+        '| Versionamento        | URI, prefixo: v, padrão: 1',
+      );
+      expect(output).toContain('| create | 12.3');
+      expect(output).toContain('| total  | 20.0');
+      expect(output).toContain('Rotas mapeadas (1)');
+      expect(output).toContain('| GET    | /api/v1/users | 1      |');
+    });
+
+    it('should render placeholders for missing values', () => {
+      const output = formatStartupReport({
+        ...report,
+        url: undefined,
+        profile: undefined,
+        globalPrefix: undefined,
+        versioning: undefined,
+        routes: [{ method: 'GET', path: '/', version: undefined }],
+      });
+
+      expect(output).toContain('| URL                  | -');
+      expect(output).toContain('| Versionamento        | -');
+      expect(output).toContain('| GET    | /    | -      |');
+    });
+  });
+});
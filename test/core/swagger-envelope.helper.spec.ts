@@ -0,0 +1,132 @@
+import 'reflect-metadata';
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  INestApplication,
+  Module,
+  Post,
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiOkResponse,
+  ApiProperty,
+  DocumentBuilder,
+  OpenAPIObject,
+  SwaggerModule,
+} from '@nestjs/swagger';
+import { ResponseObject } from '@nestjs/swagger/dist/interfaces/open-api-spec.interface';
+
+import { RawResponse } from '../../src';
+import { applySwaggerEnvelope } from '../../src/core/swagger-envelope.helper';
+
+class MetaDto {
+  @ApiProperty()
+  timestamp!: string;
+}
+
+class EnvelopeDto {
+  @ApiProperty()
+  meta!: MetaDto;
+}
+
+class UserDto {
+  @ApiProperty()
+  name!: string;
+}
+
+@Controller('users')
+class UsersController {
+  @ApiOkResponse({ type: [UserDto] })
+  @Get()
+  list() {
+    return [];
+  }
+
+  @Post()
+  create() {
+    return {};
+  }
+
+  @HttpCode(204)
+  @Delete()
+  remove() {}
+
+  @RawResponse()
+  @ApiOkResponse({ type: UserDto })
+  @Get('raw')
+  raw() {
+    return {};
+  }
+}
+
+@Module({ controllers: [UsersController] })
+class TestModule {}
+
+describe('applySwaggerEnvelope', () => {
+  let app: INestApplication;
+  let document: OpenAPIObject;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(TestModule, { logger: false });
+    document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().build(),
+      { extraModels: [EnvelopeDto] },
+    );
+
+    applySwaggerEnvelope(document, EnvelopeDto);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const getSchema = (path: string) =>
+    (document.paths[path].get?.responses as Record<string, ResponseObject>)[
+      '200'
+    ]?.content?.['application/json'].schema;
+
+  it('should embed the original schema as data in the envelope', () => {
+    expect(getSchema('/users')).toEqual({
+      allOf: [
+        { $ref: '#/components/schemas/EnvelopeDto' },
+        {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/UserDto' },
+            },
+          },
+        },
+      ],
+    });
+    expect(document.components?.schemas).toHaveProperty('EnvelopeDto');
+  });
+
+  it('should describe the envelope on success responses without a schema', () => {
+    expect(document.paths['/users'].post?.responses['201']).toEqual({
+      description: '',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EnvelopeDto' },
+        },
+      },
+    });
+  });
+
+  it('should keep the responses without content and the @RawResponse routes', () => {
+    expect(document.paths['/users'].delete?.responses['204']).toEqual({
+      description: '',
+    });
+
+    expect(document.paths['/users/raw'].get).not.toHaveProperty(
+      'x-raw-response',
+    );
+    expect(getSchema('/users/raw')).toEqual({
+      $ref: '#/components/schemas/UserDto',
+    });
+  });
+});
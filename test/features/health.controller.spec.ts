@@ -10,6 +10,7 @@ import {
   HealthController,
 } from '../../src/features/health.controller';
 import { TerminusHealthCheckOptions } from '../../src';
+import { ReadinessState } from '../../src/features/readiness.module';
 
 const mockHealthCheckService = {
   check: jest.fn(),
@@ -31,6 +32,7 @@ describe('HealthController', () => {
   const createTestingModule = async (
     testOptions: TerminusHealthCheckOptions,
     provideDbIndicator = true,
+    readiness?: ReadinessState,
   ) => {
     const dbProvider = provideDbIndicator
       ? { provide: TypeOrmHealthIndicator, useValue: mockDbHealthIndicator }
@@ -43,6 +45,9 @@ describe('HealthController', () => {
         { provide: HealthCheckService, useValue: mockHealthCheckService },
         { provide: MemoryHealthIndicator, useValue: mockMemoryHealthIndicator },
         dbProvider,
+        ...(readiness
+          ? [{ provide: ReadinessState, useValue: readiness }]
+          : []),
       ],
     });
 
@@ -193,4 +198,22 @@ describe('HealthController', () => {
     expect(mockDbHealthIndicator.pingCheck).not.toHaveBeenCalled();
     expect(dbIndicator).toBeNull();
   });
+
+  it('should include the readiness check when graceful shutdown is enabled', async () => {
+    const readiness = new ReadinessState();
+    await createTestingModule({ database: false }, true, readiness);
+
+    const checksPassed = () =>
+      (healthService.check as jest.Mock).mock.calls.at(
+        -1,
+      )[0] as HealthIndicatorFunction[];
+
+    await controller.check();
+    expect(checksPassed()).toHaveLength(1);
+    expect(checksPassed()[0]()).toEqual({ readiness: { status: 'up' } });
+
+    readiness.markNotReady();
+    await controller.check();
+    expect(checksPassed()[0]()).toEqual({ readiness: { status: 'down' } });
+  });
 });
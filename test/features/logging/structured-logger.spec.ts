@@ -0,0 +1,182 @@
+import { LogLevel } from '@nestjs/common';
+
+import {
+  StructuredLogger,
+  StructuredLoggingOptions,
+} from '../../../src/features/logging';
+import { RequestContext } from '../../../src/features/request-context';
+
+describe('StructuredLogger', () => {
+  let lines: { line: string; level: LogLevel }[];
+
+  const createLogger = (options: StructuredLoggingOptions = {}) =>
+    new StructuredLogger(options, (line, level) => lines.push({ line, level }));
+
+  const entries = () =>
+    lines.map(({ line }) => JSON.parse(line) as Record<string, unknown>);
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('should write one JSON line per entry with the level, time and context', () => {
+    createLogger().log('Aplicação iniciada', 'AppInitializer');
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].line).not.toContain('\n');
+    expect(entries()[0]).toEqual({
+      time: expect.any(String),
+      level: 'info',
+      pid: process.pid,
+      context: 'AppInitializer',
+      message: 'Aplicação iniciada',
+    });
+  });
+
+  it('should include the base fields in every entry', () => {
+    createLogger({ base: { service: 'orders' } }).warn('Atenção');
+
+    expect(entries()[0]).toMatchObject({
+      level: 'warn',
+      service: 'orders',
+      message: 'Atenção',
+    });
+  });
+
+  it('should skip the levels below the configured one', () => {
+    const logger = createLogger({ level: 'warn' });
+    logger.debug('debug');
+    logger.log('info');
+    logger.error('erro');
+    logger.fatal('fatal');
+
+    expect(lines.map(({ level }) => level)).toEqual(['error', 'fatal']);
+  });
+
+  it('should honor setLogLevels', () => {
+    const logger = createLogger();
+    logger.setLogLevels(['verbose']);
+    logger.log('ignorado');
+    logger.verbose('registrado');
+
+    expect(entries()).toEqual([
+      expect.objectContaining({ level: 'verbose', message: 'registrado' }),
+    ]);
+  });
+
+  it('should separate the stack trace from the context in errors', () => {
+    const error = new Error('Falhou');
+    createLogger().error('Falha ao conectar', error.stack, 'Database');
+
+    expect(entries()[0]).toMatchObject({
+      level: 'error',
+      context: 'Database',
+      message: 'Falha ao conectar',
+      stack: error.stack,
+    });
+  });
+
+  it('should log Error messages with their stack and keep extra params', () => {
+    const error = new Error('Falhou');
+    createLogger().error(error, { attempt: 2 }, undefined);
+
+    expect(entries()[0]).toEqual(
+      expect.objectContaining({
+        message: 'Falhou',
+        stack: error.stack,
+        params: [{ attempt: 2 }],
+      }),
+    );
+  });
+
+  it('should spread object messages and redact sensitive headers at any depth', () => {
+    createLogger({ redact: ['password'] }).log({
+      message: 'request completed',
+      headers: {
+        Authorization: 'Bearer abc',
+        cookie: 'session=1',
+        accept: 'application/json',
+      },
+      body: [{ Password: '123' }],
+    });
+
+    expect(entries()[0]).toMatchObject({
+      message: 'request completed',
+      headers: {
+        Authorization: '[REDACTED]',
+        cookie: '[REDACTED]',
+        accept: 'application/json',
+      },
+      body: [{ Password: '[REDACTED]' }],
+    });
+  });
+
+  it('should serialize bigints, dates, nested errors and circular references', () => {
+    const payload: Record<string, unknown> = {
+      total: BigInt(10),
+      at: new Date('2024-01-01T00:00:00.000Z'),
+      cause: new TypeError('inválido'),
+    };
+    payload.self = payload;
+
+    createLogger().log(payload);
+
+    expect(entries()[0]).toMatchObject({
+      total: '10',
+      at: '2024-01-01T00:00:00.000Z',
+      cause: { name: 'TypeError', message: 'inválido' },
+      self: '[Circular]',
+    });
+  });
+
+  it('should copy an object referenced twice without marking it as circular', () => {
+    const address = { city: 'Recife' };
+
+    createLogger().log({ billing: address, shipping: address });
+
+    expect(entries()[0]).toMatchObject({
+      billing: { city: 'Recife' },
+      shipping: { city: 'Recife' },
+    });
+  });
+
+  it('should not let the message fields replace the entry fields', () => {
+    const logger = createLogger({ level: 'warn', base: { service: 'orders' } });
+    RequestContext.run('req-7', () =>
+      logger.warn(
+        {
+          level: 'debug',
+          time: 'ontem',
+          pid: 0,
+          requestId: 'forjado',
+          service: 'payments',
+          event: 'retry',
+        },
+        'Payments',
+      ),
+    );
+
+    expect(entries()[0]).toEqual({
+      time: expect.not.stringMatching('ontem'),
+      level: 'warn',
+      pid: process.pid,
+      context: 'Payments',
+      requestId: 'req-7',
+      service: 'payments',
+      event: 'retry',
+    });
+  });
+
+  it('should include the current request ID', () => {
+    const logger = createLogger();
+    RequestContext.run('req-42', () => logger.log('Dentro da requisição'));
+
+    expect(entries()[0]).toMatchObject({ requestId: 'req-42' });
+  });
+
+  it('should indent the JSON with the pretty option', () => {
+    createLogger({ pretty: true }).log('Legível');
+
+    expect(lines[0].line).toContain('\n  "level": "info"');
+  });
+});
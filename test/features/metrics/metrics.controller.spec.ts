@@ -1,10 +1,17 @@
+import { HttpAdapterHost } from '@nestjs/core';
+import {
+  FastifyAdapter,
+  NestFastifyApplication,
+} from '@nestjs/platform-fastify';
 import { Test, TestingModule } from '@nestjs/testing';
 import { MetricsController } from '../../../src/features/metrics/metrics.controller';
 import { METRICS_REGISTRY } from '../../../src/features/metrics/metrics.tokens';
 
-const mockResponse = {
-  header: jest.fn(),
-  send: jest.fn(),
+const mockResponse = {};
+
+const mockHttpAdapter = {
+  setHeader: jest.fn(),
+  reply: jest.fn(),
 };
 
 const mockRegistry = {
@@ -28,6 +35,10 @@ describe('MetricsController', () => {
           provide: METRICS_REGISTRY,
           useValue: mockRegistry,
         },
+        {
+          provide: HttpAdapterHost,
+          useValue: { httpAdapter: mockHttpAdapter },
+        },
       ],
     }).compile();
 
@@ -46,21 +57,57 @@ describe('MetricsController', () => {
 
     it('should set Content-Type header from registry.contentType', async () => {
       await controller.getMetrics(mockResponse);
-      expect(mockResponse.header).toHaveBeenCalledTimes(1);
-      expect(mockResponse.header).toHaveBeenCalledWith(
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledTimes(1);
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(
+        mockResponse,
         'Content-Type',
         mockRegistry.contentType,
       );
     });
 
-    it('should send the result of registry.metrics', async () => {
+    it('should reply with the result of registry.metrics', async () => {
       const metricsResult = '# HELP test_metric Test metric';
       mockRegistry.metrics.mockResolvedValueOnce(metricsResult);
 
       await controller.getMetrics(mockResponse);
 
-      expect(mockResponse.send).toHaveBeenCalledTimes(1);
-      expect(mockResponse.send).toHaveBeenCalledWith(metricsResult);
+      expect(mockHttpAdapter.reply).toHaveBeenCalledTimes(1);
+      expect(mockHttpAdapter.reply).toHaveBeenCalledWith(
+        mockResponse,
+        metricsResult,
+        200,
+      );
+    });
+  });
+
+  describe('with Fastify', () => {
+    let app: NestFastifyApplication;
+
+    beforeAll(async () => {
+      const module = await Test.createTestingModule({
+        controllers: [MetricsController],
+        providers: [{ provide: METRICS_REGISTRY, useValue: mockRegistry }],
+      }).compile();
+
+      app = module.createNestApplication<NestFastifyApplication>(
+        new FastifyAdapter(),
+      );
+      await app.init();
+      await app.getHttpAdapter().getInstance().ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should respond with the metrics and the registry content type', async () => {
+      mockRegistry.metrics.mockResolvedValueOnce('# HELP test_metric Test');
+
+      const response = await app.inject({ method: 'GET', url: '/metrics' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe(mockRegistry.contentType);
+      expect(response.body).toBe('# HELP test_metric Test');
     });
   });
 });
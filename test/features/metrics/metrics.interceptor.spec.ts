@@ -107,7 +107,7 @@ describe('MetricsInterceptor', () => {
     });
   });
 
-  it('should use request.path if request.route.path is missing', () => {
+  it('should use a fixed label if request.route.path is missing', () => {
     const specificMockRequest = {
       method: 'POST',
       path: '/items/123',
@@ -134,11 +134,51 @@ describe('MetricsInterceptor', () => {
     expect(mockEndTimer).toHaveBeenCalledTimes(1);
     expect(mockEndTimer).toHaveBeenCalledWith({
       method: 'POST',
-      path: '/items/123',
+      path: 'unmatched',
       status_code: 201,
     });
   });
 
+  it('should use the Fastify route url and never the request url', () => {
+    const subject = new Subject();
+    (mockCallHandler.handle as jest.Mock).mockReturnValue(
+      subject.asObservable(),
+    );
+    (
+      mockExecutionContext.switchToHttp().getRequest as jest.Mock
+    ).mockReturnValueOnce({
+      method: 'GET',
+      url: '/items/123?expand=true',
+      routeOptions: { url: '/items/:id' },
+    });
+
+    interceptor.intercept(mockExecutionContext, mockCallHandler).subscribe();
+    subject.complete();
+
+    expect(mockEndTimer).toHaveBeenCalledWith({
+      method: 'GET',
+      path: '/items/:id',
+      status_code: 200,
+    });
+
+    const notFound = new Subject();
+    (mockCallHandler.handle as jest.Mock).mockReturnValue(
+      notFound.asObservable(),
+    );
+    (
+      mockExecutionContext.switchToHttp().getRequest as jest.Mock
+    ).mockReturnValueOnce({ method: 'GET', url: '/unknown', routeOptions: {} });
+
+    interceptor.intercept(mockExecutionContext, mockCallHandler).subscribe();
+    notFound.complete();
+
+    expect(mockEndTimer).toHaveBeenLastCalledWith({
+      method: 'GET',
+      path: 'unmatched',
+      status_code: 200,
+    });
+  });
+
   it('should call end timer with correct labels on error', () => {
     const specificMockRequest = {
       method: 'PUT',
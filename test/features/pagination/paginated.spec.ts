@@ -0,0 +1,217 @@
+import 'reflect-metadata';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  INestApplication,
+  Module,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ApiProperty, DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+
+import { ApiPaginatedResponse, Paginated, PaginationQuery } from '../../../src';
+import {
+  createCursorPaginated,
+  createPaginated,
+  decodeCursor,
+  encodeCursor,
+} from '../../../src/features/pagination';
+
+describe('createPaginated', () => {
+  it('should describe the page with meta and links', () => {
+    const result = createPaginated(
+      ['c', 'd'],
+      7,
+      { page: 2, limit: 2 },
+      {
+        url: '/users?status=active&page=2&limit=2',
+      },
+    );
+
+    expect(result).toEqual({
+      data: ['c', 'd'],
+      meta: { page: 2, limit: 2, totalItems: 7, totalPages: 4 },
+      links: {
+        self: '/users?status=active&page=2&limit=2',
+        first: '/users?status=active&page=1&limit=2',
+        previous: '/users?status=active&page=1&limit=2',
+        next: '/users?status=active&page=3&limit=2',
+        last: '/users?status=active&page=4&limit=2',
+      },
+    });
+  });
+
+  it('should omit the previous and next links at the edges', () => {
+    const { links } = createPaginated([], 0, {});
+
+    expect(links).toEqual({
+      self: '?page=1&limit=20',
+      first: '?page=1&limit=20',
+      last: '?page=1&limit=20',
+    });
+  });
+
+  it('should point the previous link of a page past the end to the last page', () => {
+    const { links } = createPaginated([], 4, { page: 9, limit: 2 });
+
+    expect(links.previous).toBe('?page=2&limit=2');
+    expect(links.next).toBeUndefined();
+  });
+});
+
+describe('createCursorPaginated', () => {
+  it('should link to the next cursor', () => {
+    const result = createCursorPaginated(
+      ['a'],
+      'abc',
+      { limit: 1, cursor: '' },
+      {
+        url: '/events?page=3&type=login',
+      },
+    );
+
+    expect(result).toEqual({
+      data: ['a'],
+      meta: { limit: 1, nextCursor: 'abc' },
+      links: {
+        self: '/events?type=login&cursor=&limit=1',
+        first: '/events?type=login&cursor=&limit=1',
+        next: '/events?type=login&cursor=abc&limit=1',
+      },
+    });
+  });
+
+  it('should omit the next link on the last page', () => {
+    const { links } = createCursorPaginated([], null, { cursor: 'abc' });
+
+    expect(links).toEqual({
+      self: '?cursor=abc&limit=20',
+      first: '?cursor=&limit=20',
+    });
+  });
+});
+
+describe('pagination cursors', () => {
+  it('should round-trip the values', () => {
+    expect(decodeCursor(encodeCursor(42))).toBe(42);
+    expect(decodeCursor(encodeCursor('2024-01-01'))).toBe('2024-01-01');
+  });
+
+  it('should reject invalid cursors', () => {
+    expect(() => decodeCursor('not a cursor')).toThrow(BadRequestException);
+  });
+
+  it('should reject cursors that are not a text or a number', () => {
+    for (const value of [{ $ne: null }, [1, 2], null, true]) {
+      expect(() => decodeCursor(encodeCursor(value))).toThrow(
+        BadRequestException,
+      );
+    }
+  });
+});
+
+describe('PaginationQuery', () => {
+  const pipe = new ValidationPipe({ transform: true, whitelist: true });
+  const transform = (value: Record<string, string>) =>
+    pipe.transform(value, {
+      type: 'query',
+      metatype: PaginationQuery,
+    }) as Promise<PaginationQuery>;
+
+  it('should convert the query string and apply the defaults', async () => {
+    await expect(transform({ page: '3' })).resolves.toEqual({
+      page: 3,
+      limit: 20,
+    });
+    await expect(transform({ cursor: 'abc', limit: '5' })).resolves.toEqual({
+      page: 1,
+      limit: 5,
+      cursor: 'abc',
+    });
+  });
+
+  it('should reject invalid values', async () => {
+    await expect(transform({ page: '0' })).rejects.toThrow(BadRequestException);
+    await expect(transform({ limit: '101' })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(transform({ page: 'two' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+describe('ApiPaginatedResponse', () => {
+  class UserDto {
+    @ApiProperty()
+    name!: string;
+  }
+
+  @Controller('users')
+  class UsersController {
+    @ApiPaginatedResponse(UserDto)
+    @Get()
+    list(@Query() _query: PaginationQuery): Paginated<UserDto> | undefined {
+      return undefined;
+    }
+  }
+
+  @Module({ controllers: [UsersController] })
+  class TestModule {}
+
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(TestModule, { logger: false });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should document the items, the meta and the links', () => {
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().build(),
+    );
+    const operation = document.paths['/users'].get!;
+
+    expect(operation.responses['200']).toEqual({
+      description: '',
+      content: {
+        'application/json': {
+          schema: {
+            allOf: [
+              { $ref: '#/components/schemas/Paginated' },
+              {
+                type: 'object',
+                required: ['data'],
+                properties: {
+                  data: {
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/UserDto' },
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+    });
+    expect(Object.keys(document.components?.schemas ?? {})).toEqual(
+      expect.arrayContaining([
+        'Paginated',
+        'PaginationMeta',
+        'PaginationLinks',
+        'UserDto',
+      ]),
+    );
+    expect(operation.parameters?.map((p) => 'name' in p && p.name)).toEqual([
+      'page',
+      'limit',
+      'cursor',
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { BadRequestException } from '@nestjs/common';
+import { Model, model, Query, Schema } from 'mongoose';
+
+import { paginateMongoose } from '../../../src';
+import { encodeCursor } from '../../../src/features/pagination';
+
+interface Event {
+  type: string;
+  sequence: number;
+}
+
+const EventModel: Model<Event> = model(
+  'PaginationEvent',
+  new Schema<Event>({ type: String, sequence: Number }),
+);
+
+type ExecutedQuery = Query<unknown, unknown> & { op: string };
+
+describe('paginateMongoose', () => {
+  let executed: ExecutedQuery[];
+  let documents: Partial<Event>[];
+
+  beforeEach(() => {
+    executed = [];
+    documents = [];
+    // Executa as queries sem conexão: registra a query e retorna os documentos.
+    jest.spyOn(Query.prototype, 'exec').mockImplementation(function (
+      this: Query<unknown, unknown>,
+    ) {
+      const query = this as ExecutedQuery;
+      executed.push(query);
+      return Promise.resolve(
+        query.op === 'countDocuments' ? 7 : documents,
+      ) as never;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should paginate a model by page with the filter', async () => {
+    documents = [{ sequence: 3 }, { sequence: 4 }];
+
+    const result = await paginateMongoose(
+      EventModel,
+      { page: 2, limit: 2 },
+      { filter: { type: 'login' }, url: '/events' },
+    );
+
+    const [find, count] = executed;
+    expect(find.getFilter()).toEqual({ type: 'login' });
+    expect(find.getOptions()).toMatchObject({ skip: 2, limit: 2 });
+    expect(count.op).toBe('countDocuments');
+    expect(count.getFilter()).toEqual({ type: 'login' });
+    expect(result.data).toEqual(documents);
+    expect(result.meta).toEqual({
+      page: 2,
+      limit: 2,
+      totalItems: 7,
+      totalPages: 4,
+    });
+    expect(result.links.next).toBe('/events?page=3&limit=2');
+  });
+
+  it('should paginate a query without changing it', async () => {
+    const query = EventModel.find({ type: 'logout' }).sort({ sequence: -1 });
+
+    await paginateMongoose(query, {});
+
+    expect(executed[0].getOptions()).toMatchObject({
+      sort: { sequence: -1 },
+      skip: 0,
+      limit: 20,
+    });
+    expect(executed[1].getFilter()).toEqual({ type: 'logout' });
+    expect(query.getOptions()).not.toHaveProperty('limit');
+  });
+
+  it('should paginate by cursor in the order of the cursor field', async () => {
+    documents = [{ sequence: 11 }, { sequence: 12 }, { sequence: 13 }];
+
+    const result = await paginateMongoose(
+      EventModel,
+      { limit: 2, cursor: encodeCursor(10) },
+      { cursorField: 'sequence' },
+    );
+
+    expect(executed).toHaveLength(1);
+    expect(executed[0].getFilter()).toEqual({ sequence: { $gt: 10 } });
+    expect(executed[0].getOptions()).toMatchObject({
+      sort: { sequence: 1 },
+      limit: 3,
+    });
+    expect(result.data).toEqual(documents.slice(0, 2));
+    expect(result.meta).toEqual({ limit: 2, nextCursor: encodeCursor(12) });
+  });
+
+  it('should end the cursor pagination on the last page', async () => {
+    documents = [{ sequence: 1 }];
+
+    const result = await paginateMongoose(EventModel, { cursor: '' });
+
+    expect(executed[0].getFilter()).toEqual({});
+    expect(executed[0].getOptions()).toMatchObject({ sort: { _id: 1 } });
+    expect(result.meta.nextCursor).toBeNull();
+  });
+
+  it('should reject a query sorted by another field in cursor mode', async () => {
+    const query = EventModel.find().sort({ type: 1, sequence: -1 });
+
+    await expect(
+      paginateMongoose(query, { cursor: '' }, { cursorField: 'sequence' }),
+    ).rejects.toThrow(
+      "[Paginação] A paginação por cursor ordena por 'sequence'. Remova a ordenação por 'type' da Query.",
+    );
+    expect(executed).toHaveLength(0);
+  });
+
+  it('should accept a query sorted by the cursor field', async () => {
+    await paginateMongoose(EventModel.find().sort({ _id: -1 }), { cursor: '' });
+
+    expect(executed[0].getOptions()).toMatchObject({ sort: { _id: 1 } });
+  });
+
+  it('should reject a cursor that is not a text or a number', async () => {
+    await expect(
+      paginateMongoose(EventModel, { cursor: encodeCursor({ $ne: null }) }),
+    ).rejects.toThrow(BadRequestException);
+    expect(executed).toHaveLength(0);
+  });
+});
@@ -0,0 +1,159 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+
+import { paginateTypeOrm } from '../../../src';
+import { encodeCursor } from '../../../src/features/pagination';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const users = (...ids: number[]): User[] =>
+  ids.map((id) => ({ id, name: `user-${id}` }));
+
+/**
+ * QueryBuilder em memória que registra as chamadas encadeadas.
+ */
+const createQueryBuilder = (
+  result: { items: User[]; total?: number },
+  orderBys: Record<string, string> = {},
+) => {
+  const builder = {
+    alias: 'user',
+    expressionMap: { orderBys },
+    clone: jest.fn().mockReturnThis(),
+    setFindOptions: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getMany: jest.fn(() => Promise.resolve(result.items)),
+    getManyAndCount: jest.fn(() =>
+      Promise.resolve([result.items, result.total ?? result.items.length]),
+    ),
+  };
+  return builder;
+};
+
+describe('paginateTypeOrm', () => {
+  it('should paginate a query builder by page without changing it', async () => {
+    const builder = createQueryBuilder({ items: users(3, 4), total: 5 });
+
+    const result = await paginateTypeOrm(
+      builder as unknown as SelectQueryBuilder<User>,
+      { page: 2, limit: 2 },
+      { url: '/users' },
+    );
+
+    expect(builder.clone).toHaveBeenCalled();
+    expect(builder.skip).toHaveBeenCalledWith(2);
+    expect(builder.take).toHaveBeenCalledWith(2);
+    expect(result.data).toEqual(users(3, 4));
+    expect(result.meta).toEqual({
+      page: 2,
+      limit: 2,
+      totalItems: 5,
+      totalPages: 3,
+    });
+    expect(result.links.next).toBe('/users?page=3&limit=2');
+  });
+
+  it('should apply the find options to a repository', async () => {
+    const builder = createQueryBuilder({ items: users(1) });
+    const repository = {
+      metadata: { name: 'User' },
+      createQueryBuilder: jest.fn(() => builder),
+    };
+    const findOptions = { where: { name: 'user-1' }, relations: ['roles'] };
+
+    await paginateTypeOrm(
+      repository as unknown as Repository<User>,
+      {},
+      { findOptions },
+    );
+
+    expect(repository.createQueryBuilder).toHaveBeenCalledWith('User');
+    expect(builder.setFindOptions).toHaveBeenCalledWith(findOptions);
+    expect(builder.skip).toHaveBeenCalledWith(0);
+    expect(builder.take).toHaveBeenCalledWith(20);
+  });
+
+  it('should paginate by cursor in the order of the cursor column', async () => {
+    const builder = createQueryBuilder({ items: users(11, 12, 13) });
+
+    const result = await paginateTypeOrm(
+      builder as unknown as SelectQueryBuilder<User>,
+      { limit: 2, cursor: encodeCursor(10) },
+    );
+
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      'user.id > :paginationCursor',
+      {
+        paginationCursor: 10,
+      },
+    );
+    expect(builder.orderBy).toHaveBeenCalledWith('user.id', 'ASC');
+    expect(builder.take).toHaveBeenCalledWith(3);
+    expect(result.data).toEqual(users(11, 12));
+    expect(result.meta).toEqual({ limit: 2, nextCursor: encodeCursor(12) });
+  });
+
+  it('should start the cursor pagination and end it on the last page', async () => {
+    const builder = createQueryBuilder({ items: users(1) });
+
+    const result = await paginateTypeOrm(
+      builder as unknown as SelectQueryBuilder<User>,
+      { limit: 2, cursor: '' },
+      { cursorColumn: 'name' },
+    );
+
+    expect(builder.andWhere).not.toHaveBeenCalled();
+    expect(builder.orderBy).toHaveBeenCalledWith('user.name', 'ASC');
+    expect(result.meta.nextCursor).toBeNull();
+    expect(result.links.next).toBeUndefined();
+  });
+
+  it('should reject a query builder ordered by another column in cursor mode', async () => {
+    const builder = createQueryBuilder(
+      { items: users(1) },
+      { 'user.name': 'DESC', 'user.id': 'ASC' },
+    );
+
+    await expect(
+      paginateTypeOrm(builder as unknown as SelectQueryBuilder<User>, {
+        cursor: '',
+      }),
+    ).rejects.toThrow(
+      "[Paginação] A paginação por cursor ordena por 'id'. Remova a ordenação por 'user.name' da busca.",
+    );
+    expect(builder.getMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject find options ordered by another column in cursor mode', async () => {
+    const builder = createQueryBuilder({ items: users(1) });
+    const repository = {
+      metadata: { name: 'User' },
+      createQueryBuilder: jest.fn(() => builder),
+    };
+
+    await expect(
+      paginateTypeOrm(
+        repository as unknown as Repository<User>,
+        { cursor: '' },
+        { findOptions: { order: { name: 'ASC', id: 'DESC' } } },
+      ),
+    ).rejects.toThrow("Remova a ordenação por 'name' da busca.");
+  });
+
+  it('should reject a cursor that is not a text or a number', async () => {
+    const builder = createQueryBuilder({ items: users(1) });
+
+    await expect(
+      paginateTypeOrm(builder as unknown as SelectQueryBuilder<User>, {
+        cursor: encodeCursor({ $gt: 0 }),
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(builder.andWhere).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,479 @@
+import 'reflect-metadata';
+import {
+  CanActivate,
+  Controller,
+  ExecutionContext,
+  Get,
+  HttpException,
+  INestApplication,
+  Logger,
+  Module,
+  Provider,
+} from '@nestjs/common';
+import { APP_GUARD, NestFactory, Reflector } from '@nestjs/core';
+import {
+  FastifyAdapter,
+  NestFastifyApplication,
+} from '@nestjs/platform-fastify';
+
+import {
+  AppInitializerPluginContext,
+  RateLimit,
+  RateLimiterPlugin,
+  SkipRateLimit,
+} from '../../../src';
+import { RateLimitCounter } from '../../../src/core/rate-limit-store.helper';
+import {
+  isExcludedFromGlobalLimit,
+  RateLimitGuard,
+  RateLimitState,
+  resolveRateLimitKey,
+} from '../../../src/features/rate-limit';
+
+@Controller()
+class OrdersController {
+  @Get('orders')
+  list() {
+    return 'orders';
+  }
+
+  @RateLimit({ limit: 2, windowMs: 60_000 })
+  @Get('login')
+  login() {
+    return 'login';
+  }
+
+  @RateLimit({ limit: 1, windowMs: 60_000, key: 'api-key' })
+  @Get('export')
+  export() {
+    return 'export';
+  }
+
+  @SkipRateLimit()
+  @Get('status')
+  status() {
+    return 'status';
+  }
+}
+
+@RateLimit({ limit: 5 })
+@Controller('reports')
+class ReportsController {
+  @Get()
+  list() {
+    return 'reports';
+  }
+
+  @SkipRateLimit()
+  @Get('public')
+  public() {
+    return 'public';
+  }
+}
+
+/**
+ * Guard global que rejeita as requisições para `/private` sem a chave de API.
+ */
+class ApiKeyGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ url: string; headers: Record<string, string> }>();
+    return (
+      !request.url.startsWith('/private') ||
+      request.headers['x-api-key'] === 'secret'
+    );
+  }
+}
+
+/**
+ * Controller base, cujas rotas são herdadas sem serem redeclaradas.
+ */
+class BaseHealthController {
+  @Get()
+  check() {
+    return 'ok';
+  }
+}
+
+@SkipRateLimit()
+@Controller('health')
+class HealthController extends BaseHealthController {}
+
+/**
+ * Cria um controller 'UsersController' com um limite de uma requisição, como dois
+ * módulos que declaram controllers com o mesmo nome.
+ */
+const createUsersController = (path: string) => {
+  @RateLimit({ limit: 1, windowMs: 60_000 })
+  @Controller(path)
+  class UsersController {
+    @Get()
+    list() {
+      return path;
+    }
+  }
+  return UsersController;
+};
+
+@Controller('private')
+class PrivateController {
+  @Get()
+  get() {
+    return 'private';
+  }
+}
+
+/**
+ * Cria a aplicação com o RateLimiterPlugin configurado como pelo AppInitializer.
+ */
+const createRootModule = (
+  plugin: RateLimiterPlugin,
+  providers: Provider[] = [],
+) => {
+  const context = {
+    rootModule: { imports: [], providers: [], controllers: [] },
+  } as unknown as AppInitializerPluginContext;
+  plugin.configureModule(context);
+
+  @Module({
+    imports: context.rootModule.imports,
+    controllers: [
+      OrdersController,
+      ReportsController,
+      HealthController,
+      createUsersController('admin/users'),
+      createUsersController('public/users'),
+      PrivateController,
+    ],
+    providers,
+  })
+  class TestModule {}
+
+  return TestModule;
+};
+
+type Send = (
+  path: string,
+  headers?: Record<string, string>,
+) => Promise<{ status: number; headers: Record<string, unknown> }>;
+
+const sendTimes = async (
+  send: Send,
+  path: string,
+  times: number,
+  headers?: Record<string, string>,
+) => {
+  const statuses: number[] = [];
+  for (let i = 0; i < times; i++) {
+    statuses.push((await send(path, headers)).status);
+  }
+  return statuses;
+};
+
+describe('RateLimitGuard', () => {
+  describe('with Express', () => {
+    let app: INestApplication;
+    let send: Send;
+
+    beforeAll(async () => {
+      // O limite global identifica o cliente pelo cabeçalho x-client, para que os
+      // testes não compartilhem o contador.
+      const plugin = new RateLimiterPlugin({
+        limit: 3,
+        windowMs: 60_000,
+        keyGenerator: (request) => String(request.headers['x-client']),
+      });
+      app = await NestFactory.create(
+        createRootModule(plugin, [
+          { provide: APP_GUARD, useClass: ApiKeyGuard },
+        ]),
+        { logger: false },
+      );
+      await plugin.apply(app);
+      await app.listen(0);
+      const url = await app.getUrl();
+
+      send = async (path, headers) => {
+        const response = await fetch(`${url}${path}`, { headers });
+        return {
+          status: response.status,
+          headers: Object.fromEntries(response.headers),
+        };
+      };
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should apply the route limit instead of the global one', async () => {
+      const first = await send('/login');
+
+      expect(first.headers).toMatchObject({
+        'ratelimit-limit': '2',
+        'ratelimit-remaining': '1',
+      });
+      expect(await sendTimes(send, '/login', 2)).toEqual([200, 429]);
+    });
+
+    it('should report the time until the window resets', async () => {
+      const response = await send('/login');
+
+      expect(response.status).toBe(429);
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    });
+
+    it('should count each API key separately', async () => {
+      const [first, second, other] = await Promise.all([
+        send('/export', { 'x-api-key': 'a' }),
+        send('/export', { 'x-api-key': 'a' }),
+        send('/export', { 'x-api-key': 'b' }),
+      ]);
+
+      expect([first.status, second.status].sort()).toEqual([200, 429]);
+      expect(other.status).toBe(200);
+    });
+
+    it('should apply the global limit to the routes without decorators', async () => {
+      expect(await sendTimes(send, '/orders', 4)).toEqual([200, 200, 200, 429]);
+    });
+
+    it('should count the requests rejected by an earlier global guard', async () => {
+      const client = { 'x-client': 'guarded', 'x-api-key': 'wrong' };
+
+      expect(await sendTimes(send, '/private', 4, client)).toEqual([
+        403, 403, 403, 429,
+      ]);
+    });
+
+    it('should apply the global limit to unmatched routes', async () => {
+      expect(
+        await sendTimes(send, '/missing', 4, { 'x-client': 'unmatched' }),
+      ).toEqual([404, 404, 404, 429]);
+    });
+
+    it('should not limit the skipped routes', async () => {
+      expect(await sendTimes(send, '/status', 5)).toEqual([
+        200, 200, 200, 200, 200,
+      ]);
+    });
+
+    it('should apply the controller limit and honor a skipped route in it', async () => {
+      expect(await sendTimes(send, '/reports', 6)).toEqual([
+        200, 200, 200, 200, 200, 429,
+      ]);
+      expect((await send('/reports/public')).status).toBe(200);
+    });
+
+    it('should honor a controller decorator on inherited routes', async () => {
+      expect(await sendTimes(send, '/health', 5)).toEqual([
+        200, 200, 200, 200, 200,
+      ]);
+    });
+
+    it('should keep separate counters for controllers with the same name', async () => {
+      expect(await sendTimes(send, '/admin/users', 2)).toEqual([200, 429]);
+      expect((await send('/public/users')).status).toBe(200);
+    });
+  });
+
+  describe('with Fastify', () => {
+    let app: NestFastifyApplication;
+    let send: Send;
+
+    beforeAll(async () => {
+      const plugin = new RateLimiterPlugin({ limit: 3, windowMs: 60_000 });
+      app = await NestFactory.create<NestFastifyApplication>(
+        createRootModule(plugin),
+        new FastifyAdapter(),
+        { logger: false },
+      );
+      await plugin.apply(app);
+      await app.init();
+      await app.getHttpAdapter().getInstance().ready();
+
+      send = async (url, headers) => {
+        const response = await app.inject({ method: 'GET', url, headers });
+        return { status: response.statusCode, headers: response.headers };
+      };
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should apply the route limit instead of the global one', async () => {
+      expect(await sendTimes(send, '/login', 3)).toEqual([200, 200, 429]);
+    });
+
+    it('should keep the global limit on the routes without decorators', async () => {
+      expect(await sendTimes(send, '/orders', 4)).toEqual([200, 200, 200, 429]);
+    });
+
+    it('should not limit the skipped routes', async () => {
+      expect(await sendTimes(send, '/status', 5)).toEqual([
+        200, 200, 200, 200, 200,
+      ]);
+      expect(await sendTimes(send, '/reports/public', 6)).not.toContain(429);
+      expect(await sendTimes(send, '/health', 5)).not.toContain(429);
+    });
+
+    it('should keep separate counters for controllers with the same name', async () => {
+      expect(await sendTimes(send, '/admin/users', 2)).toEqual([200, 429]);
+      expect((await send('/public/users')).status).toBe(200);
+    });
+  });
+
+  describe('canActivate', () => {
+    const createContext = (type = 'http') =>
+      ({
+        getType: () => type,
+        getHandler: () => OrdersController.prototype.login,
+        getClass: () => OrdersController,
+        switchToHttp: () => ({
+          getRequest: () => ({ ip: '10.0.0.1', headers: {} }),
+          getResponse: () => ({ header: jest.fn() }),
+        }),
+      }) as unknown as ExecutionContext;
+
+    it('should ignore non-HTTP contexts', async () => {
+      const state = new RateLimitState();
+      state.counter = { increment: jest.fn() } as unknown as RateLimitCounter;
+      const guard = new RateLimitGuard(new Reflector(), state);
+
+      await expect(guard.canActivate(createContext('rpc'))).resolves.toBe(true);
+      expect(state.counter.increment).not.toHaveBeenCalled();
+    });
+
+    it('should warn once per route when the user key falls back to the IP', async () => {
+      class ProfileController {
+        @RateLimit({ limit: 5, key: 'user' })
+        profile() {}
+      }
+      const state = new RateLimitState();
+      state.counter = new RateLimitCounter(undefined, {}, new Logger());
+      const guard = new RateLimitGuard(new Reflector(), state);
+      const warn = jest
+        .spyOn(Logger.prototype, 'warn')
+        .mockImplementation(() => undefined);
+      const context = (request: object) =>
+        ({
+          getType: () => 'http',
+          getHandler: () => ProfileController.prototype.profile,
+          getClass: () => ProfileController,
+          switchToHttp: () => ({
+            getRequest: () => ({ ip: '10.0.0.1', headers: {}, ...request }),
+            getResponse: () => ({ header: jest.fn() }),
+          }),
+        }) as unknown as ExecutionContext;
+
+      await guard.canActivate(context({ user: { id: 1 } }));
+      expect(warn).not.toHaveBeenCalled();
+
+      await guard.canActivate(context({}));
+      await guard.canActivate(context({ user: {} }));
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(
+        "[RateLimiter] A rota 'ProfileController.profile' limita por usuário, mas a requisição não tem 'request.user'; usando o IP. Autentique a requisição antes do rate limiter, em um middleware ou em um guard global.",
+      );
+      warn.mockRestore();
+    });
+
+    it('should key the route counters by controller, handler and client', async () => {
+      const state = new RateLimitState();
+      const increment = jest.fn().mockResolvedValue({
+        totalHits: 3,
+        resetTime: new Date(Date.now() + 1_000),
+      });
+      state.counter = { increment } as unknown as RateLimitCounter;
+      state.defaults = { ...state.defaults, statusCode: 503, message: 'Busy' };
+      const guard = new RateLimitGuard(new Reflector(), state);
+
+      const error = await guard
+        .canActivate(createContext())
+        .catch((e: HttpException) => e);
+
+      expect(increment).toHaveBeenCalledWith(
+        'OrdersController.login:ip:10.0.0.1',
+        60_000,
+      );
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(503);
+    });
+  });
+});
+
+describe('isExcludedFromGlobalLimit', () => {
+  it('should read the decorators of the handler and of the controller', () => {
+    expect(
+      isExcludedFromGlobalLimit(
+        OrdersController.prototype.login,
+        OrdersController,
+      ),
+    ).toBe(true);
+    expect(
+      isExcludedFromGlobalLimit(
+        OrdersController.prototype.list,
+        OrdersController,
+      ),
+    ).toBe(false);
+    expect(
+      isExcludedFromGlobalLimit(
+        BaseHealthController.prototype.check,
+        HealthController,
+      ),
+    ).toBe(true);
+    expect(
+      isExcludedFromGlobalLimit(
+        BaseHealthController.prototype.check,
+        BaseHealthController,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('resolveRateLimitKey', () => {
+  const request = {
+    ip: '10.0.0.1',
+    headers: { 'x-api-key': ['key-1', 'key-2'] },
+    user: { sub: 'auth0|42' },
+  };
+
+  it('should use the IP by default', () => {
+    expect(resolveRateLimitKey(undefined, request)).toBe('ip:10.0.0.1');
+  });
+
+  it('should use the authenticated user', () => {
+    expect(resolveRateLimitKey('user', request)).toBe('user:auth0|42');
+    expect(resolveRateLimitKey('user', { ...request, user: { id: 7 } })).toBe(
+      'user:7',
+    );
+  });
+
+  it('should use the first API key header', () => {
+    expect(resolveRateLimitKey('api-key', request)).toBe('api-key:key-1');
+  });
+
+  it('should use a custom resolver', () => {
+    expect(resolveRateLimitKey(() => 'tenant-1', request)).toBe(
+      'custom:tenant-1',
+    );
+  });
+
+  it('should fall back to the IP when the value is missing', () => {
+    expect(resolveRateLimitKey('user', { headers: {}, ip: '10.0.0.2' })).toBe(
+      'ip:10.0.0.2',
+    );
+    expect(
+      resolveRateLimitKey('api-key', {
+        headers: {},
+        socket: { remoteAddress: '10.0.0.3' },
+      }),
+    ).toBe('ip:10.0.0.3');
+    expect(resolveRateLimitKey(() => undefined, { headers: {} })).toBe(
+      'ip:unknown',
+    );
+  });
+});
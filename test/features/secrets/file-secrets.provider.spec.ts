@@ -0,0 +1,49 @@
+import { resolve } from 'path';
+
+import { FileSecretsProvider } from '../../../src/features/secrets';
+
+describe('FileSecretsProvider', () => {
+  it('should read a flat JSON file and stringify primitive values', async () => {
+    const readFile = jest
+      .fn()
+      .mockResolvedValue(
+        '{ "DATABASE_URL": "postgres://db/app", "PORT": 5432, "SSL": true, "EMPTY": null }',
+      );
+    const provider = new FileSecretsProvider('secrets.json', readFile);
+
+    await expect(provider.load()).resolves.toEqual({
+      DATABASE_URL: 'postgres://db/app',
+      PORT: '5432',
+      SSL: 'true',
+    });
+    expect(readFile).toHaveBeenCalledWith(resolve('secrets.json'));
+    expect(provider.name).toBe('file');
+  });
+
+  it('should reject invalid JSON', async () => {
+    const provider = new FileSecretsProvider('secrets.json', () =>
+      Promise.resolve('not json'),
+    );
+
+    await expect(provider.load()).rejects.toThrow(
+      `O arquivo ${resolve('secrets.json')} não contém um JSON válido.`,
+    );
+  });
+
+  it.each([
+    ['[1, 2]', 'deve ser um objeto JSON'],
+    ['{ "DB": { "USER": "app" } }', "O segredo 'DB'"],
+  ])('should reject %s', async (content, message) => {
+    const provider = new FileSecretsProvider('secrets.json', () =>
+      Promise.resolve(content),
+    );
+
+    await expect(provider.load()).rejects.toThrow(message);
+  });
+
+  it('should read the file from disk by default', async () => {
+    const provider = new FileSecretsProvider('/non-existent/secrets.json');
+
+    await expect(provider.load()).rejects.toThrow('ENOENT');
+  });
+});
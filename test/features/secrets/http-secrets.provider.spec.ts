@@ -0,0 +1,100 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+import {
+  extractKeyValueSecrets,
+  HttpSecretsProvider,
+} from '../../../src/features/secrets';
+
+describe('HttpSecretsProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: { url?: string; token?: string | string[] }[] = [];
+
+  beforeAll(async () => {
+    // Servidor local no formato da engine KV v2 do Vault.
+    server = createServer((req, res) => {
+      requests.push({ url: req.url, token: req.headers['x-vault-token'] });
+
+      if (req.headers['x-vault-token'] !== 'root') {
+        res.writeHead(403).end('{"errors":["permission denied"]}');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+        JSON.stringify({
+          data: {
+            data: { DATABASE_URL: 'postgres://app:pw@db/app', PORT: 5432 },
+            metadata: { version: 3 },
+          },
+        }),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should load the secrets from a Vault-like KV API', async () => {
+    const provider = new HttpSecretsProvider({
+      url: `${baseUrl}/v1/secret/data/my-api`,
+      token: 'root',
+    });
+
+    await expect(provider.load()).resolves.toEqual({
+      DATABASE_URL: 'postgres://app:pw@db/app',
+      PORT: '5432',
+    });
+    expect(requests.at(-1)).toEqual({
+      url: '/v1/secret/data/my-api',
+      token: 'root',
+    });
+  });
+
+  it('should fail with the response status', async () => {
+    const url = `${baseUrl}/v1/secret/data/my-api`;
+    const provider = new HttpSecretsProvider({ url, token: 'wrong' });
+
+    await expect(provider.load()).rejects.toThrow(
+      `${url} respondeu com status 403.`,
+    );
+  });
+
+  it('should send custom headers and use a custom extractor', async () => {
+    const fetchFn = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ secrets: { API_KEY: 'abc' } }),
+    });
+    const provider = new HttpSecretsProvider({
+      url: 'http://secrets.local/api',
+      token: 'tkn',
+      tokenHeader: 'Authorization',
+      headers: { 'X-Tenant': 'acme' },
+      extract: (body) => body.secrets,
+      fetchFn,
+    });
+
+    await expect(provider.load()).resolves.toEqual({ API_KEY: 'abc' });
+    expect(fetchFn).toHaveBeenCalledWith('http://secrets.local/api', {
+      headers: {
+        Accept: 'application/json',
+        Authorization: 'tkn',
+        'X-Tenant': 'acme',
+      },
+      signal: expect.any(AbortSignal),
+    });
+  });
+});
+
+describe('extractKeyValueSecrets', () => {
+  it.each([
+    [{ data: { data: { A: '1' }, metadata: {} } }, { A: '1' }],
+    [{ data: { A: '1' } }, { A: '1' }],
+    [{ A: '1' }, { A: '1' }],
+  ])('should extract %j', (body, expected) => {
+    expect(extractKeyValueSecrets(body)).toEqual(expected);
+  });
+});
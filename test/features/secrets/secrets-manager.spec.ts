@@ -0,0 +1,223 @@
+import { LoggerService } from '@nestjs/common';
+
+import { SecretsManager, SecretsProvider } from '../../../src/features/secrets';
+
+describe('SecretsManager', () => {
+  let logger: jest.Mocked<LoggerService>;
+
+  const createProvider = (
+    name: string,
+    ...results: (Record<string, string> | Error)[]
+  ): jest.Mocked<SecretsProvider> => {
+    const load = jest.fn();
+    for (const result of results) {
+      if (result instanceof Error) load.mockRejectedValueOnce(result);
+      else load.mockResolvedValueOnce(result);
+    }
+    return { name, load };
+  };
+
+  beforeEach(() => {
+    logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('validate', () => {
+    it('should validate the secrets and keep their converted values for the config', async () => {
+      const manager = new SecretsManager(logger).addProvider(
+        createProvider('http', { PORT: '3000', PASSWORD: 'x' }),
+      );
+      manager.setValidator((secrets) => ({
+        ...secrets,
+        PORT: Number(secrets.PORT),
+        NODE_ENV: 'test',
+      }));
+      await manager.load();
+
+      expect(manager.validate()).toEqual({
+        PORT: 3000,
+        PASSWORD: 'x',
+        NODE_ENV: 'test',
+      });
+      expect(manager.getConfig()).toEqual({ PORT: 3000, PASSWORD: 'x' });
+    });
+  });
+
+  describe('load', () => {
+    it('should keep the secrets of every provider, later providers winning', async () => {
+      const manager = new SecretsManager(logger)
+        .addProvider(createProvider('file', { DATABASE_URL: 'a', A: '1' }))
+        .addProvider(createProvider('http', { DATABASE_URL: 'b' }));
+
+      await manager.load();
+
+      expect(manager.validate()).toEqual({ DATABASE_URL: 'b', A: '1' });
+      expect(manager.get('DATABASE_URL')).toBe('b');
+      expect(process.env.A).toBeUndefined();
+      expect(logger.log).toHaveBeenCalledWith(
+        "[Segredos] 2 segredo(s) carregado(s) do provedor 'file'.",
+      );
+    });
+
+    it('should request and apply only the configured keys', async () => {
+      const provider = createProvider('http', { A: '1', B: '2' });
+      const manager = new SecretsManager(logger).addProvider(provider, {
+        keys: ['A'],
+      });
+
+      await manager.load();
+
+      expect(provider.load).toHaveBeenCalledWith(['A']);
+      expect(manager.validate()).toEqual({ A: '1' });
+    });
+
+    it('should fail when a required key is missing', async () => {
+      const manager = new SecretsManager(logger).addProvider(
+        createProvider('http', { A: '1' }),
+        { keys: ['A', 'B', 'C'] },
+      );
+
+      await expect(manager.load()).rejects.toThrow(
+        "[Segredos] O provedor 'http' não retornou os segredos: B, C.",
+      );
+    });
+
+    it('should fail when the provider fails', async () => {
+      const manager = new SecretsManager(logger).addProvider(
+        createProvider('http', new Error('connection refused')),
+      );
+
+      await expect(manager.load()).rejects.toThrow(
+        "[Segredos] Falha ao carregar os segredos do provedor 'http': connection refused",
+      );
+    });
+  });
+
+  describe('refresh', () => {
+    it('should apply and notify only the changed secrets', async () => {
+      const provider = createProvider(
+        'http',
+        { PASSWORD: 'old', USER: 'app' },
+        { PASSWORD: 'new', USER: 'app', EXTRA: 'x' },
+      );
+      const manager = new SecretsManager(logger).addProvider(provider);
+      const listener = jest.fn();
+      manager.onChange(listener);
+      await manager.load();
+
+      const changes = await manager.refresh(provider);
+
+      expect(changes).toEqual([
+        {
+          key: 'PASSWORD',
+          previousValue: 'old',
+          value: 'new',
+          provider: 'http',
+        },
+        {
+          key: 'EXTRA',
+          previousValue: undefined,
+          value: 'x',
+          provider: 'http',
+        },
+      ]);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(manager.get('PASSWORD')).toBe('new');
+      expect(manager.get('EXTRA')).toBe('x');
+    });
+
+    it('should keep the current values and warn when the provider fails', async () => {
+      const provider = createProvider(
+        'http',
+        { PASSWORD: 'old' },
+        new Error('timeout'),
+      );
+      const manager = new SecretsManager(logger).addProvider(provider);
+      await manager.load();
+
+      await expect(manager.refresh(provider)).resolves.toEqual([]);
+
+      expect(manager.get('PASSWORD')).toBe('old');
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "[Segredos] Falha ao recarregar os segredos do provedor 'http'. Os valores atuais foram mantidos.",
+        ),
+      );
+    });
+
+    it('should keep the current values and warn when the refreshed secrets fail the validation', async () => {
+      const provider = createProvider(
+        'http',
+        { PORT: '3000' },
+        { PORT: 'invalid' },
+      );
+      const manager = new SecretsManager(logger).addProvider(provider);
+      manager.setValidator((secrets) => {
+        if (Number.isNaN(Number(secrets.PORT))) {
+          throw new Error('PORT deve ser um número.');
+        }
+        return { PORT: Number(secrets.PORT) };
+      });
+      const listener = jest.fn();
+      manager.onChange(listener);
+      await manager.load();
+      manager.validate();
+
+      await expect(manager.refresh(provider)).resolves.toEqual([]);
+
+      expect(manager.get('PORT')).toBe('3000');
+      expect(manager.getConfig()).toEqual({ PORT: 3000 });
+      expect(listener).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        "[Segredos] Os segredos recarregados do provedor 'http' não passaram na validação da configuração. Os valores atuais foram mantidos. PORT deve ser um número.",
+      );
+    });
+
+    it('should ignore providers that were not registered', async () => {
+      const manager = new SecretsManager(logger);
+
+      await expect(manager.refresh(createProvider('unknown'))).resolves.toEqual(
+        [],
+      );
+    });
+
+    it('should stop notifying removed listeners', async () => {
+      const provider = createProvider('http', { A: '1' }, { A: '2' });
+      const manager = new SecretsManager(logger).addProvider(provider);
+      const listener = jest.fn();
+      const unsubscribe = manager.onChange(listener);
+      await manager.load();
+
+      unsubscribe();
+      await manager.refresh(provider);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startRefresh', () => {
+    it('should refresh the providers with an interval until stopped', () => {
+      jest.useFakeTimers();
+      const periodic = createProvider('http');
+      const once = createProvider('file');
+      const manager = new SecretsManager(logger)
+        .addProvider(periodic, { refreshIntervalMs: 1000 })
+        .addProvider(once);
+      const refresh = jest.spyOn(manager, 'refresh').mockResolvedValue([]);
+
+      manager.startRefresh();
+      jest.advanceTimersByTime(2500);
+
+      expect(refresh).toHaveBeenCalledTimes(2);
+      expect(refresh).toHaveBeenCalledWith(periodic);
+
+      manager.stop();
+      jest.advanceTimersByTime(5000);
+
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { Logger } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+
+import {
+  SecretsManager,
+  SecretsModule,
+  SecretsProvider,
+} from '../../../src/features/secrets';
+
+describe('SecretsModule', () => {
+  it('should expose the manager and update the ConfigService on changes without touching process.env', async () => {
+    const provider: SecretsProvider = {
+      name: 'test',
+      load: jest
+        .fn()
+        .mockResolvedValueOnce({ DB_PASSWORD: 'old' })
+        .mockResolvedValueOnce({ DB_PASSWORD: 'new' }),
+    };
+    const logger = new Logger('test');
+    jest.spyOn(logger, 'log').mockImplementation();
+    const manager = new SecretsManager(logger).addProvider(provider, {
+      refreshIntervalMs: 60_000,
+    });
+    const startRefresh = jest.spyOn(manager, 'startRefresh');
+    const stop = jest.spyOn(manager, 'stop');
+    await manager.load();
+    manager.validate();
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [() => manager.getConfig()],
+        }),
+        SecretsModule.forRoot(manager),
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    const configService = moduleRef.get(ConfigService);
+
+    expect(moduleRef.get(SecretsManager)).toBe(manager);
+    expect(startRefresh).toHaveBeenCalled();
+    expect(configService.get('DB_PASSWORD')).toBe('old');
+
+    await manager.refresh(provider);
+
+    expect(configService.get('DB_PASSWORD')).toBe('new');
+    expect(process.env.DB_PASSWORD).toBeUndefined();
+
+    await moduleRef.close();
+    expect(stop).toHaveBeenCalled();
+  });
+});
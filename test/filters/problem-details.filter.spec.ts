@@ -0,0 +1,381 @@
+import 'reflect-metadata';
+import {
+  ArgumentsHost,
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  INestApplication,
+  Module,
+  NotFoundException,
+  Post,
+  ValidationPipe,
+} from '@nestjs/common';
+import { APP_FILTER, APP_PIPE, NestFactory } from '@nestjs/core';
+import {
+  FastifyAdapter,
+  NestFastifyApplication,
+} from '@nestjs/platform-fastify';
+import { Type } from 'class-transformer';
+import { IsEmail, IsString, ValidateNested } from 'class-validator';
+import { lastValueFrom, Observable } from 'rxjs';
+
+import {
+  ProblemDetailsFilter,
+  ProblemDetailsOptions,
+  ValidationException,
+} from '../../src';
+import { RequestContext } from '../../src/features/request-context';
+
+class AddressDto {
+  @IsString()
+  city!: string;
+}
+
+class CreateUserDto {
+  @IsEmail()
+  email!: string;
+
+  @ValidateNested()
+  @Type(() => AddressDto)
+  address!: AddressDto;
+}
+
+class QueryFailedError extends Error {
+  name = 'QueryFailedError';
+  constructor(
+    message: string,
+    readonly driverError: { code?: string; number?: number },
+  ) {
+    super(message);
+  }
+}
+
+class EntityNotFoundError extends Error {
+  name = 'EntityNotFoundError';
+}
+
+@Controller()
+class UsersController {
+  @Post('users')
+  create(@Body() body: CreateUserDto) {
+    return body;
+  }
+
+  @Get('users/missing')
+  missing() {
+    throw new NotFoundException('User 42 not found');
+  }
+
+  @Get('users/entity')
+  entity() {
+    throw new EntityNotFoundError('Could not find any entity of type "User"');
+  }
+
+  @Get('users/duplicate')
+  duplicate() {
+    throw new QueryFailedError('duplicate key value violates "users_email"', {
+      code: '23505',
+    });
+  }
+
+  @Get('users/query')
+  query() {
+    throw new QueryFailedError('syntax error at or near "SELEC"', {
+      code: '42601',
+    });
+  }
+
+  @Get('users/crash')
+  crash() {
+    throw new Error('connection pool exhausted');
+  }
+}
+
+const createModule = (options: ProblemDetailsOptions) => {
+  @Module({
+    controllers: [UsersController],
+    providers: [
+      {
+        provide: APP_PIPE,
+        useValue: new ValidationPipe({
+          exceptionFactory: (errors) => new ValidationException(errors),
+        }),
+      },
+      { provide: APP_FILTER, useValue: new ProblemDetailsFilter(options) },
+    ],
+  })
+  class TestModule {}
+
+  return TestModule;
+};
+
+describe('ProblemDetailsFilter', () => {
+  describe('with Express', () => {
+    let app: INestApplication;
+    let url: string;
+
+    const send = async (path: string, init?: RequestInit) => {
+      const response = await fetch(`${url}${path}`, init);
+      return {
+        status: response.status,
+        contentType: response.headers.get('content-type'),
+        body: (await response.json()) as Record<string, unknown>,
+      };
+    };
+
+    beforeAll(async () => {
+      app = await NestFactory.create(
+        createModule({
+          typeBaseUrl: 'https://api.example.com/problems/',
+          includeStack: true,
+        }),
+        { logger: false },
+      );
+      app.use((_req: unknown, _res: unknown, next: () => void) =>
+        RequestContext.run('req-1', next),
+      );
+      await app.listen(0);
+      url = await app.getUrl();
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should describe an HttpException as problem+json', async () => {
+      const response = await send('/users/missing');
+
+      expect(response.status).toBe(404);
+      expect(response.contentType).toContain('application/problem+json');
+      expect(response.body).toEqual({
+        type: 'https://api.example.com/problems/not-found',
+        title: 'Not Found',
+        status: 404,
+        detail: 'User 42 not found',
+        instance: '/users/missing',
+        requestId: 'req-1',
+      });
+    });
+
+    it('should describe unmatched routes', async () => {
+      const response = await send('/nothing?page=1');
+
+      expect(response.body).toMatchObject({
+        status: 404,
+        instance: '/nothing?page=1',
+      });
+    });
+
+    it('should list the validation errors per field', async () => {
+      const response = await send('/users', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email: 'invalid', address: { city: 1 } }),
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        type: 'https://api.example.com/problems/validation-error',
+        title: 'Bad Request',
+        errors: [
+          { field: 'email', message: 'email must be an email' },
+          { field: 'address.city', message: 'city must be a string' },
+        ],
+      });
+    });
+
+    it('should map the TypeORM errors', async () => {
+      const [entity, duplicate, query] = await Promise.all([
+        send('/users/entity'),
+        send('/users/duplicate'),
+        send('/users/query'),
+      ]);
+
+      expect(entity.body).toMatchObject({
+        status: 404,
+        detail: 'Could not find any entity of type "User"',
+      });
+      expect(duplicate.body).toMatchObject({
+        type: 'https://api.example.com/problems/conflict',
+        status: 409,
+      });
+      expect(query.status).toBe(500);
+    });
+
+    it('should describe unknown errors with the stack outside production', async () => {
+      const response = await send('/users/crash');
+
+      expect(response.body).toMatchObject({
+        type: 'https://api.example.com/problems/internal-server-error',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'connection pool exhausted',
+        stack: expect.stringContaining('UsersController.crash'),
+      });
+    });
+  });
+
+  describe('with Fastify', () => {
+    let app: NestFastifyApplication;
+
+    beforeAll(async () => {
+      app = await NestFactory.create<NestFastifyApplication>(
+        createModule({}),
+        new FastifyAdapter(),
+        { logger: false },
+      );
+      await app.init();
+      await app.getHttpAdapter().getInstance().ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should describe the errors as problem+json', async () => {
+      const response = await app.inject({ method: 'GET', url: '/users/crash' });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.headers['content-type']).toContain(
+        'application/problem+json',
+      );
+      expect(response.json()).toEqual({
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'connection pool exhausted',
+        instance: '/users/crash',
+      });
+    });
+  });
+
+  describe('in production', () => {
+    const createHost = (type = 'http') => {
+      const response = {
+        status: jest.fn().mockReturnThis(),
+        header: jest.fn().mockReturnThis(),
+        send: jest.fn(),
+      };
+      const host = {
+        getType: () => type,
+        switchToHttp: () => ({
+          getRequest: () => ({ url: '/users' }),
+          getResponse: () => response,
+        }),
+      } as unknown as ArgumentsHost;
+
+      return {
+        host,
+        body: () => JSON.parse(response.send.mock.calls[0][0] as string),
+      };
+    };
+
+    let filter: ProblemDetailsFilter;
+
+    beforeEach(() => {
+      filter = new ProblemDetailsFilter({ includeStack: true }, 'production');
+      jest.spyOn(filter['logger'], 'error').mockImplementation();
+    });
+
+    it('should hide the internal messages and the stack', () => {
+      const { host, body } = createHost();
+
+      filter.catch(new Error('password=secret'), host);
+
+      expect(body()).toEqual({
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'An unexpected error occurred.',
+        instance: '/users',
+      });
+      expect(filter['logger'].error).toHaveBeenCalledWith(
+        'password=secret',
+        expect.any(String),
+      );
+    });
+
+    it('should use generic messages for the TypeORM errors', () => {
+      const entity = createHost();
+      const conflict = createHost();
+
+      filter.catch(new EntityNotFoundError('User 42'), entity.host);
+      filter.catch(
+        new QueryFailedError('Violation of UNIQUE KEY', { number: 2627 }),
+        conflict.host,
+      );
+
+      expect(entity.body().detail).toBe(
+        'The requested resource was not found.',
+      );
+      expect(conflict.body().detail).toBe(
+        'The request conflicts with an existing resource.',
+      );
+    });
+
+    it('should keep the messages of HttpExceptions', () => {
+      const { host, body } = createHost();
+
+      filter.catch(new BadRequestException(['name is required']), host);
+
+      expect(body()).toMatchObject({
+        type: 'about:blank',
+        detail: 'The request contains invalid fields.',
+        errors: [{ message: 'name is required' }],
+      });
+    });
+  });
+
+  it('should omit a detail that repeats the title', () => {
+    const response = {
+      status: jest.fn().mockReturnThis(),
+      header: jest.fn().mockReturnThis(),
+      send: jest.fn(),
+    };
+    const host = {
+      getType: () => 'http',
+      switchToHttp: () => ({
+        getRequest: () => ({ url: '/' }),
+        getResponse: () => response,
+      }),
+    } as unknown as ArgumentsHost;
+
+    new ProblemDetailsFilter().catch(new NotFoundException(), host);
+
+    expect(
+      JSON.parse(response.send.mock.calls[0][0] as string),
+    ).not.toHaveProperty('detail');
+  });
+
+  it('should rethrow the errors of non-HTTP contexts', async () => {
+    const error = new Error('rpc');
+    const result = new ProblemDetailsFilter().catch(error, {
+      getType: () => 'rpc',
+    } as unknown as ArgumentsHost) as Observable<never>;
+
+    await expect(lastValueFrom(result)).rejects.toBe(error);
+  });
+});
+
+describe('ValidationException', () => {
+  it('should keep the response of the default ValidationPipe', async () => {
+    const pipe = new ValidationPipe({
+      errorHttpStatusCode: 422,
+      exceptionFactory: (errors) => new ValidationException(errors, 422),
+    });
+    const defaultPipe = new ValidationPipe({ errorHttpStatusCode: 422 });
+    const value = { email: 'invalid', address: { city: 1 } };
+    const metadata = { type: 'body' as const, metatype: CreateUserDto };
+
+    const error = (await pipe
+      .transform(value, metadata)
+      .catch((e: unknown) => e)) as ValidationException;
+    const expected = (await defaultPipe
+      .transform(value, metadata)
+      .catch((e: unknown) => e)) as BadRequestException;
+
+    expect(error.getStatus()).toBe(422);
+    expect(error.getResponse()).toEqual(expected.getResponse());
+  });
+});
@@ -0,0 +1,214 @@
+import 'reflect-metadata';
+import { Readable } from 'stream';
+
+import {
+  CallHandler,
+  Controller,
+  ExecutionContext,
+  Get,
+  HttpCode,
+  INestApplication,
+  Module,
+  Post,
+  Redirect,
+  Res,
+  Sse,
+  StreamableFile,
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { interval, lastValueFrom, map, of, take } from 'rxjs';
+
+import { RawResponse, ResponseMapper } from '../../src';
+import { ResponsePatternInterceptor } from '../../src/interceptors/response-pattern.interceptor';
+
+interface Response {
+  status(code: number): this;
+  send(body: string): void;
+}
+
+@Controller('items')
+class ItemsController {
+  @Get()
+  list() {
+    return [{ id: 1 }];
+  }
+
+  @Post()
+  create() {
+    return { id: 2 };
+  }
+
+  @HttpCode(202)
+  @Post('import')
+  import() {
+    return { queued: true };
+  }
+
+  @RawResponse()
+  @Get('raw')
+  raw() {
+    return { raw: true };
+  }
+
+  @Get('internal')
+  internal() {
+    return { internal: true };
+  }
+
+  @Get('file')
+  file() {
+    return new StreamableFile(Buffer.from('file content'));
+  }
+
+  @Get('stream')
+  stream() {
+    return Readable.from(['streamed']);
+  }
+
+  @Get('manual')
+  manual(@Res() res: Response) {
+    res.status(200).send('manual');
+  }
+
+  @Get('passthrough')
+  passthrough(@Res({ passthrough: true }) _res: Response) {
+    return { passthrough: true };
+  }
+
+  @Redirect('/items')
+  @Get('old')
+  old() {
+    return { url: '/items/raw' };
+  }
+
+  @Sse('events')
+  events() {
+    return interval(1).pipe(
+      take(1),
+      map(() => ({ data: { tick: 1 } })),
+    );
+  }
+}
+
+@RawResponse()
+@Controller('legacy')
+class LegacyController {
+  @Get()
+  list() {
+    return ['legacy'];
+  }
+}
+
+@Module({ controllers: [ItemsController, LegacyController] })
+class TestModule {}
+
+describe('ResponsePatternInterceptor', () => {
+  let app: INestApplication;
+  let url: string;
+  const mapper = jest.fn<unknown, Parameters<ResponseMapper<unknown>>>(
+    (data, _context, { statusCode }) => ({ statusCode, data }),
+  );
+
+  beforeAll(async () => {
+    app = await NestFactory.create(TestModule, { logger: false });
+    app.useGlobalInterceptors(
+      new ResponsePatternInterceptor(mapper, {
+        skip: (context) =>
+          context.switchToHttp().getRequest<{ url: string }>().url ===
+          '/items/internal',
+      }),
+    );
+    await app.listen(0);
+    url = await app.getUrl();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    mapper.mockClear();
+  });
+
+  const get = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${url}${path}`, init);
+    return { status: response.status, text: await response.text() };
+  };
+
+  it('should map the responses with the status and a timestamp', async () => {
+    const response = await get('/items');
+
+    expect(JSON.parse(response.text)).toEqual({
+      statusCode: 200,
+      data: [{ id: 1 }],
+    });
+    expect(mapper).toHaveBeenCalledWith([{ id: 1 }], expect.anything(), {
+      statusCode: 200,
+      timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+    });
+  });
+
+  it('should report the status of POST routes and @HttpCode', async () => {
+    const [created, accepted] = await Promise.all([
+      get('/items', { method: 'POST' }),
+      get('/items/import', { method: 'POST' }),
+    ]);
+
+    expect(created.status).toBe(201);
+    expect(JSON.parse(created.text)).toMatchObject({ statusCode: 201 });
+    expect(accepted.status).toBe(202);
+    expect(JSON.parse(accepted.text)).toMatchObject({ statusCode: 202 });
+  });
+
+  it('should keep the responses of @RawResponse routes and controllers', async () => {
+    expect(JSON.parse((await get('/items/raw')).text)).toEqual({ raw: true });
+    expect(JSON.parse((await get('/legacy')).text)).toEqual(['legacy']);
+  });
+
+  it('should keep the responses matched by the skip predicate', async () => {
+    expect(JSON.parse((await get('/items/internal')).text)).toEqual({
+      internal: true,
+    });
+  });
+
+  it('should keep files and streams', async () => {
+    expect((await get('/items/file')).text).toBe('file content');
+    await get('/items/stream');
+
+    expect(mapper).not.toHaveBeenCalled();
+  });
+
+  it('should not map the responses written with @Res()', async () => {
+    expect((await get('/items/manual')).text).toBe('manual');
+    expect(mapper).not.toHaveBeenCalled();
+  });
+
+  it('should map the responses of @Res({ passthrough: true })', async () => {
+    expect(JSON.parse((await get('/items/passthrough')).text)).toEqual({
+      statusCode: 200,
+      data: { passthrough: true },
+    });
+  });
+
+  it('should keep redirects and server-sent events', async () => {
+    const redirect = await fetch(`${url}/items/old`, { redirect: 'manual' });
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers.get('location')).toBe('/items/raw');
+
+    expect((await get('/items/events')).text).toContain('data: {"tick":1}');
+    expect(mapper).not.toHaveBeenCalled();
+  });
+
+  it('should ignore non-HTTP contexts', async () => {
+    const interceptor = new ResponsePatternInterceptor(mapper);
+    const next: CallHandler = { handle: () => of('message') };
+
+    const result = interceptor.intercept(
+      { getType: () => 'rpc' } as ExecutionContext,
+      next,
+    );
+
+    await expect(lastValueFrom(result)).resolves.toBe('message');
+    expect(mapper).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { AddressInfo } from 'net';
+import { AppInitializerPluginContext, HttpsRedirectPlugin } from '../../src';
+
+const mockLoggerLog = jest.fn();
+jest.spyOn(Logger.prototype, 'log').mockImplementation(mockLoggerLog);
+
+describe('HttpsRedirectPlugin', () => {
+  const mockContext = { port: 8443 } as AppInitializerPluginContext;
+  let plugin: HttpsRedirectPlugin;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    plugin = new HttpsRedirectPlugin(0, { host: 'localhost' });
+  });
+
+  afterEach(async () => {
+    await plugin.onShutdown();
+  });
+
+  it('should expose a stable name', () => {
+    expect(plugin.name).toBe('https-redirect');
+  });
+
+  it('should start the redirect server after listen', async () => {
+    await plugin.afterListen(mockContext);
+
+    const server = plugin['server']!;
+    expect(server.listening).toBe(true);
+    expect((server.address() as AddressInfo).port).toBeGreaterThan(0);
+    expect(mockLoggerLog).toHaveBeenCalledWith(
+      '↪️ Redirecionando HTTP (porta 0) para HTTPS (porta 8443).',
+    );
+  });
+
+  it('should close the redirect server on shutdown', async () => {
+    await plugin.afterListen(mockContext);
+    const server = plugin['server']!;
+
+    await plugin.onShutdown();
+
+    expect(server.listening).toBe(false);
+    expect(plugin['server']).toBeUndefined();
+  });
+
+  it('should reject when the port cannot be used', async () => {
+    await plugin.afterListen(mockContext);
+    const { port } = plugin['server']!.address() as AddressInfo;
+    const conflicting = new HttpsRedirectPlugin(port, { host: 'localhost' });
+
+    await expect(conflicting.afterListen(mockContext)).rejects.toThrow(
+      'EADDRINUSE',
+    );
+  });
+
+  it('should do nothing on shutdown when the server was not started', async () => {
+    await expect(plugin.onShutdown()).resolves.toBeUndefined();
+  });
+});
@@ -1,7 +1,20 @@
 import 'reflect-metadata';
-import { INestApplication } from '@nestjs/common';
+import { Controller, Get, INestApplication } from '@nestjs/common';
+import { ModulesContainer } from '@nestjs/core';
+import fastifyRateLimit from '@fastify/rate-limit';
 import rateLimit, { Options as RateLimitOptions } from 'express-rate-limit';
-import { RateLimiterPlugin } from '../../src';
+import { createClient } from 'redis';
+import {
+  CACHE_REDIS_CLIENT,
+  RateLimiterOptions,
+  RateLimiterPlugin,
+} from '../../src';
+import { AppInitializerPluginContext } from '../../src/core';
+import {
+  RateLimit,
+  RateLimitModule,
+  SkipRateLimit,
+} from '../../src/features/rate-limit';
 
 const mockRateLimitMiddleware = jest.fn(() => 'rate_limit_middleware_instance');
 jest.mock('express-rate-limit', () => ({
@@ -11,6 +24,51 @@ jest.mock('express-rate-limit', () => ({
 
 const mockedRateLimit = rateLimit as unknown as jest.Mock;
 
+const mockRedisClient = {
+  isOpen: true,
+  on: jest.fn(),
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+};
+jest.mock('redis', () => ({
+  createClient: jest.fn(() => mockRedisClient),
+}));
+
+@Controller('auth')
+class AuthController {
+  @RateLimit({ limit: 5 })
+  @Get('login/:provider')
+  login() {}
+
+  @Get('me')
+  me() {}
+}
+
+@SkipRateLimit()
+@Controller('status')
+class StatusController {
+  @Get()
+  status() {}
+}
+
+/**
+ * Simula o ModulesContainer da aplicação com os controllers informados.
+ */
+const createModulesContainer = (...controllers: object[]) =>
+  new Map([
+    [
+      'AppModule',
+      {
+        controllers: new Map(
+          controllers.map((controller) => [
+            controller,
+            { metatype: controller },
+          ]),
+        ),
+      },
+    ],
+  ]);
+
 describe('RateLimiterPlugin', () => {
   let mockApp: INestApplication;
   let mockAppUse: jest.Mock;
@@ -21,6 +79,8 @@ describe('RateLimiterPlugin', () => {
     mockAppUse = jest.fn();
     mockApp = {
       use: mockAppUse,
+      get: () => createModulesContainer(),
+      getHttpAdapter: () => ({ getType: () => 'express' }),
     } as unknown as INestApplication;
   });
 
@@ -29,6 +89,10 @@ describe('RateLimiterPlugin', () => {
     expect(plugin).toBeDefined();
   });
 
+  it('should expose a stable name', () => {
+    expect(new RateLimiterPlugin().name).toBe('rate-limiter');
+  });
+
   it('should initialize with default options if none are provided', () => {
     const plugin = new RateLimiterPlugin();
     const expectedDefaults: Partial<RateLimitOptions> = {
@@ -46,7 +110,7 @@ describe('RateLimiterPlugin', () => {
   });
 
   it('should override default options with provided options', () => {
-    const customOptions: Partial<RateLimitOptions> = {
+    const customOptions: RateLimiterOptions = {
       windowMs: 10 * 60 * 1000,
       limit: 50,
       message: 'Custom rate limit message',
@@ -64,16 +128,49 @@ describe('RateLimiterPlugin', () => {
     expect(plugin['options']).toEqual(expect.objectContaining(expectedMerged));
   });
 
-  it('should call app.use once in apply method', () => {
+  it('should reject a limit that is not a number', () => {
+    expect(
+      () =>
+        new RateLimiterPlugin({
+          limit: (() => 10) as unknown as number,
+        }),
+    ).toThrow("[RateLimiter] A opção 'limit' precisa ser um número.");
+  });
+
+  it('should register the rate limit guard in the root module', () => {
+    const plugin = new RateLimiterPlugin({ limit: 20, windowMs: 1_000 });
+    const context = {
+      rootModule: { imports: [], providers: [], controllers: [] },
+    } as unknown as AppInitializerPluginContext;
+
+    plugin.configureModule(context);
+
+    expect(context.rootModule.imports).toEqual([
+      expect.objectContaining({ module: RateLimitModule }),
+    ]);
+    expect(plugin['state'].defaults).toEqual({
+      limit: 20,
+      windowMs: 1_000,
+      statusCode: 429,
+      message:
+        'Too many requests from this IP, please try again after 15 minutes',
+      standardHeaders: true,
+    });
+  });
+
+  it('should use memory counters for the route limits without a store', async () => {
     const plugin = new RateLimiterPlugin();
-    plugin.apply(mockApp);
-    expect(mockAppUse).toHaveBeenCalledTimes(1);
+    await plugin.apply(mockApp);
+
+    const { counter } = plugin['state'];
+    await counter!.increment('key', 1_000);
+    expect((await counter!.increment('key', 1_000)).totalHits).toBe(2);
   });
 
-  it('should call rateLimit function with stored options', () => {
-    const customOptions: Partial<RateLimitOptions> = { limit: 75 };
+  it('should call rateLimit function with stored options', async () => {
+    const customOptions: RateLimiterOptions = { limit: 75 };
     const plugin = new RateLimiterPlugin(customOptions);
-    plugin.apply(mockApp);
+    await plugin.apply(mockApp);
 
     expect(mockedRateLimit).toHaveBeenCalledTimes(1);
     expect(mockedRateLimit).toHaveBeenCalledWith(
@@ -88,10 +185,256 @@ describe('RateLimiterPlugin', () => {
     );
   });
 
-  it('should call app.use with the result of the rateLimit function', () => {
-    const plugin = new RateLimiterPlugin();
-    plugin.apply(mockApp);
+  it('should apply the global limit with app.use', async () => {
+    await new RateLimiterPlugin().apply(mockApp);
 
     expect(mockAppUse).toHaveBeenCalledWith(mockRateLimitMiddleware);
   });
+
+  it('should skip the routes with their own limit and honor a custom skip', async () => {
+    mockApp = {
+      use: mockAppUse,
+      get: () => createModulesContainer(AuthController, StatusController),
+      getHttpAdapter: () => ({ getType: () => 'express' }),
+    } as unknown as INestApplication;
+    const customSkip = jest.fn(
+      (request: { path: string }) => request.path === '/health',
+    );
+    const plugin = new RateLimiterPlugin({ skip: customSkip });
+    plugin.configureModule({
+      rootModule: { imports: [] },
+      globalPrefix: 'api',
+    } as unknown as AppInitializerPluginContext);
+
+    await plugin.apply(mockApp);
+    const [{ skip }] = mockedRateLimit.mock.calls[0];
+
+    expect(skip({ method: 'GET', path: '/api/auth/login/github' }, {})).toBe(
+      true,
+    );
+    expect(skip({ method: 'HEAD', path: '/api/auth/login/github/' }, {})).toBe(
+      true,
+    );
+    expect(skip({ method: 'POST', path: '/api/auth/login/github' }, {})).toBe(
+      false,
+    );
+    expect(skip({ method: 'GET', path: '/api/auth/me' }, {})).toBe(false);
+    expect(skip({ method: 'GET', path: '/api/status' }, {})).toBe(true);
+    expect(skip({ method: 'GET', path: '/health' }, {})).toBe(true);
+    expect(customSkip).not.toHaveBeenCalledWith(
+      { method: 'GET', path: '/api/status' },
+      {},
+    );
+  });
+
+  it('should give a distinct counter scope to controllers with the same name', async () => {
+    const createController = () => {
+      @Controller()
+      class UsersController {}
+      return UsersController;
+    };
+    const [first, second] = [createController(), createController()];
+    mockApp = {
+      use: mockAppUse,
+      get: () => createModulesContainer(first, second, first),
+      getHttpAdapter: () => ({ getType: () => 'express' }),
+    } as unknown as INestApplication;
+    const plugin = new RateLimiterPlugin();
+
+    await plugin.apply(mockApp);
+
+    const { scopes } = plugin['state'];
+    expect(scopes.get(first)).toBe('UsersController');
+    expect(scopes.get(second)).toBe('UsersController#2');
+  });
+
+  describe('with the Redis store', () => {
+    const sharedClient = { isReady: true, eval: jest.fn() };
+
+    const mockAppWithProviders = (providers: Map<unknown, unknown>) => {
+      mockApp = {
+        use: mockAppUse,
+        getHttpAdapter: () => ({ getType: () => 'express' }),
+        get: (type: unknown) =>
+          type === ModulesContainer
+            ? createModulesContainer()
+            : {
+                get: (token: unknown) => {
+                  if (!providers.has(token)) throw new Error('not found');
+                  return providers.get(token);
+                },
+              },
+      } as unknown as INestApplication;
+    };
+
+    const getStoreCounter = () => {
+      const [{ store }] = mockedRateLimit.mock.calls[0];
+      return store;
+    };
+
+    it('should reuse the Redis connection from withCaching', async () => {
+      mockAppWithProviders(new Map([[CACHE_REDIS_CLIENT, sharedClient]]));
+      const plugin = new RateLimiterPlugin({
+        store: { type: 'redis', prefix: 'api:' },
+      });
+
+      await plugin.apply(mockApp);
+
+      expect(plugin['options'].store).toBeUndefined();
+      const store = getStoreCounter();
+      expect(store.localKeys).toBe(false);
+
+      sharedClient.eval.mockResolvedValue([1, 1000]);
+      store.init({ windowMs: 1000 });
+      await store.increment('ip');
+      expect(sharedClient.eval).toHaveBeenCalledWith(expect.any(String), {
+        keys: ['api:ip'],
+        arguments: ['1000'],
+      });
+      expect(createClient).not.toHaveBeenCalled();
+    });
+
+    it('should use the given client', async () => {
+      mockAppWithProviders(new Map());
+      await new RateLimiterPlugin({
+        store: { type: 'redis', client: sharedClient },
+      }).apply(mockApp);
+
+      expect(getStoreCounter()).toBeDefined();
+    });
+
+    it('should connect to the given URL in the background and disconnect on shutdown', async () => {
+      mockRedisClient.connect.mockRejectedValue(new Error('ECONNREFUSED'));
+      mockAppWithProviders(new Map());
+      const plugin = new RateLimiterPlugin({
+        store: { type: 'redis', url: 'redis://redis:6379' },
+      });
+
+      await plugin.apply(mockApp);
+
+      expect(createClient).toHaveBeenCalledWith({
+        url: 'redis://redis:6379',
+        disableOfflineQueue: true,
+      });
+      expect(mockRedisClient.on).toHaveBeenCalledWith(
+        'error',
+        expect.any(Function),
+      );
+      expect(mockRedisClient.connect).toHaveBeenCalled();
+
+      await plugin.onShutdown();
+      expect(mockRedisClient.disconnect).toHaveBeenCalled();
+    });
+
+    it('should log the Redis connection failures once per outage', async () => {
+      mockRedisClient.connect.mockRejectedValue(new Error('ECONNREFUSED'));
+      mockAppWithProviders(new Map());
+      const plugin = new RateLimiterPlugin({
+        store: { type: 'redis', url: 'redis://redis:6379' },
+      });
+      const errorSpy = jest
+        .spyOn(plugin['logger'], 'error')
+        .mockImplementation(() => undefined);
+
+      await plugin.apply(mockApp);
+      const listeners = Object.fromEntries(
+        mockRedisClient.on.mock.calls as [string, (error?: Error) => void][],
+      );
+      listeners.error(new Error('ECONNREFUSED'));
+      listeners.error(new Error('ECONNREFUSED'));
+
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[RateLimiter] Falha na conexão com o Redis do store: ECONNREFUSED',
+      );
+
+      listeners.ready();
+      listeners.error(new Error('Socket closed unexpectedly'));
+
+      expect(errorSpy).toHaveBeenCalledTimes(2);
+      expect(errorSpy).toHaveBeenLastCalledWith(
+        '[RateLimiter] Falha na conexão com o Redis do store: Socket closed unexpectedly',
+      );
+    });
+
+    it('should fail when no Redis connection is available', async () => {
+      mockAppWithProviders(new Map());
+      const plugin = new RateLimiterPlugin({ store: { type: 'redis' } });
+
+      await expect(plugin.apply(mockApp)).rejects.toThrow(
+        "[RateLimiter] Nenhuma conexão com o Redis disponível para o store do rate limiter. Use '.withCaching()' ou informe 'store.url'.",
+      );
+    });
+
+    it('should keep a custom express-rate-limit store', async () => {
+      const store = { increment: jest.fn(), decrement: jest.fn() };
+      const plugin = new RateLimiterPlugin({
+        store: store as unknown as RateLimitOptions['store'],
+      });
+      await plugin.apply(mockApp);
+
+      expect(getStoreCounter()).toBe(store);
+      await expect(plugin.onShutdown()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('with Fastify', () => {
+    let mockRegister: jest.Mock;
+
+    beforeEach(() => {
+      mockRegister = jest.fn();
+      mockApp = {
+        use: mockAppUse,
+        register: mockRegister,
+        get: () => createModulesContainer(StatusController),
+        getHttpAdapter: () => ({ getType: () => 'fastify' }),
+      } as unknown as INestApplication;
+    });
+
+    it('should register @fastify/rate-limit with equivalent options', async () => {
+      const plugin = new RateLimiterPlugin({
+        windowMs: 60_000,
+        limit: 10,
+        message: 'Slow down',
+      });
+      await plugin.apply(mockApp);
+
+      expect(mockAppUse).not.toHaveBeenCalled();
+      expect(mockedRateLimit).not.toHaveBeenCalled();
+      expect(mockRegister).toHaveBeenCalledWith(
+        fastifyRateLimit,
+        expect.objectContaining({ global: true, max: 10, timeWindow: 60_000 }),
+      );
+
+      const [, options] = mockRegister.mock.calls[0];
+      expect(options.errorResponseBuilder()).toEqual({
+        statusCode: 429,
+        error: 'Too Many Requests',
+        message: 'Slow down',
+      });
+    });
+
+    it('should let the routes with their own limit through the global one', async () => {
+      await new RateLimiterPlugin().apply(mockApp);
+
+      const [, { allowList }] = mockRegister.mock.calls[0];
+      expect(allowList({ method: 'GET', url: '/status?verbose=1' })).toBe(true);
+      expect(allowList({ method: 'GET', url: '/orders' })).toBe(false);
+    });
+
+    it('should register the Redis store with @fastify/rate-limit', async () => {
+      const plugin = new RateLimiterPlugin({
+        store: {
+          type: 'redis',
+          client: { isReady: true, eval: jest.fn() },
+        },
+      });
+      await plugin.apply(mockApp);
+
+      const [, options] = mockRegister.mock.calls[0];
+      expect(options.store).toBeInstanceOf(Function);
+      expect(new options.store({}).child({})).toBeDefined();
+      expect(plugin['options'].store).toBeUndefined();
+    });
+  });
 });
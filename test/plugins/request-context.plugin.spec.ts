@@ -0,0 +1,272 @@
+import 'reflect-metadata';
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Injectable,
+  Logger,
+  Module,
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  FastifyAdapter,
+  NestFastifyApplication,
+} from '@nestjs/platform-fastify';
+
+import { AppInitializerPluginContext, RequestContextPlugin } from '../../src';
+import {
+  RequestContext,
+  RequestContextLogger,
+  RequestContextModule,
+} from '../../src/features/request-context';
+
+@Injectable()
+class GreetingService {
+  private readonly logger = new Logger(GreetingService.name);
+
+  constructor(private readonly context: RequestContext) {}
+
+  async greet() {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.logger.log('greeting');
+    return { requestId: this.context.requestId };
+  }
+}
+
+@Controller()
+class GreetingController {
+  constructor(private readonly service: GreetingService) {}
+
+  @Get('greet')
+  greet() {
+    return this.service.greet();
+  }
+}
+
+@Module({
+  imports: [RequestContextModule],
+  controllers: [GreetingController],
+  providers: [GreetingService],
+})
+class TestModule {}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe('RequestContextPlugin', () => {
+  let output: string[];
+
+  beforeEach(() => {
+    output = [];
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      output.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should expose a stable name and run before the request logger', () => {
+    const plugin = new RequestContextPlugin();
+
+    expect(plugin.name).toBe('request-context');
+    expect(plugin.before).toEqual(['request-logger', 'rate-limiter']);
+  });
+
+  it('should register the RequestContextModule', () => {
+    const context = {
+      rootModule: { imports: [], providers: [], controllers: [] },
+    } as unknown as AppInitializerPluginContext;
+
+    new RequestContextPlugin().configureModule(context);
+
+    expect(context.rootModule.imports).toEqual([RequestContextModule]);
+  });
+
+  describe('with Express', () => {
+    let app: INestApplication;
+    let url: string;
+
+    beforeAll(async () => {
+      app = await NestFactory.create(TestModule, { logger: false });
+      new RequestContextPlugin({
+        header: 'X-Correlation-Id',
+        logger: true,
+      }).apply(app);
+      await app.listen(0);
+      url = await app.getUrl();
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should propagate the received ID and echo it in the response', async () => {
+      const response = await fetch(`${url}/greet`, {
+        headers: { 'x-correlation-id': 'abc-123' },
+      });
+
+      expect(response.headers.get('x-correlation-id')).toBe('abc-123');
+      await expect(response.json()).resolves.toEqual({ requestId: 'abc-123' });
+      expect(output.join('')).toContain('[GreetingService] [abc-123] greeting');
+    });
+
+    it('should generate an ID when the header is missing or invalid', async () => {
+      const [missing, invalid] = await Promise.all([
+        fetch(`${url}/greet`),
+        fetch(`${url}/greet`, {
+          headers: { 'x-correlation-id': 'bad id\twith spaces' },
+        }),
+      ]);
+
+      const ids = [
+        ((await missing.json()) as { requestId: string }).requestId,
+        ((await invalid.json()) as { requestId: string }).requestId,
+      ];
+      expect(ids[0]).toMatch(UUID);
+      expect(ids[1]).toMatch(UUID);
+      expect(ids[0]).not.toBe(ids[1]);
+      expect(invalid.headers.get('x-correlation-id')).toBe(ids[1]);
+    });
+  });
+
+  describe('with Fastify', () => {
+    let app: NestFastifyApplication;
+
+    beforeAll(async () => {
+      app = await NestFactory.create<NestFastifyApplication>(
+        TestModule,
+        new FastifyAdapter(),
+        { logger: false },
+      );
+      new RequestContextPlugin({
+        generateId: () => 'generated',
+        logger: true,
+      }).apply(app);
+      await app.init();
+      await app.getHttpAdapter().getInstance().ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should propagate the ID through an onRequest hook', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/greet',
+        headers: { 'x-request-id': 'fastify-1' },
+      });
+
+      expect(response.headers['x-request-id']).toBe('fastify-1');
+      expect(response.json()).toEqual({ requestId: 'fastify-1' });
+      expect(output.join('')).toContain('[fastify-1] greeting');
+    });
+
+    it('should use the configured ID generator', async () => {
+      const response = await app.inject({ method: 'GET', url: '/greet' });
+
+      expect(response.json()).toEqual({ requestId: 'generated' });
+    });
+  });
+
+  it('should keep the application logger by default', () => {
+    const app = {
+      useLogger: jest.fn(),
+      use: jest.fn(),
+      getHttpAdapter: () => ({ getType: () => 'express' }),
+    } as unknown as INestApplication;
+
+    new RequestContextPlugin().apply(app);
+
+    expect(app.useLogger).not.toHaveBeenCalled();
+    expect(app.use).toHaveBeenCalledTimes(1);
+  });
+  it('should leave the request ID to the structured logger when it is enabled', () => {
+    const app = {
+      useLogger: jest.fn(),
+      use: jest.fn(),
+      getHttpAdapter: () => ({ getType: () => 'express' }),
+    } as unknown as INestApplication;
+    const plugin = new RequestContextPlugin({ logger: true });
+
+    plugin.configureModule({
+      rootModule: { imports: [], providers: [], controllers: [] },
+      structuredLogging: {},
+    } as unknown as AppInitializerPluginContext);
+    plugin.apply(app);
+
+    expect(app.useLogger).not.toHaveBeenCalled();
+  });
+});
+
+describe('RequestContext', () => {
+  const context = new RequestContext();
+
+  it('should isolate the values of concurrent requests', async () => {
+    const run = (id: string) =>
+      RequestContext.run(id, async () => {
+        context.set('user', `user-${id}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return [context.requestId, context.get('user')];
+      });
+
+    await expect(Promise.all([run('a'), run('b')])).resolves.toEqual([
+      ['a', 'user-a'],
+      ['b', 'user-b'],
+    ]);
+  });
+
+  it('should return undefined outside a request', () => {
+    context.set('user', 'ignored');
+
+    expect(context.requestId).toBeUndefined();
+    expect(context.get('user')).toBeUndefined();
+    expect(RequestContext.currentRequestId()).toBeUndefined();
+  });
+});
+
+describe('RequestContextLogger', () => {
+  let output: string[];
+
+  beforeEach(() => {
+    output = [];
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      output.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not change lines logged outside a request', () => {
+    new RequestContextLogger({ colors: false }).log('startup', 'Bootstrap');
+
+    expect(output.join('')).toContain('[Bootstrap] startup');
+  });
+
+  it('should add the request ID to JSON logs', () => {
+    RequestContext.run('json-1', () =>
+      new RequestContextLogger({ json: true }).log('hello', 'Ctx'),
+    );
+
+    expect(JSON.parse(output.join(''))).toEqual(
+      expect.objectContaining({
+        message: 'hello',
+        context: 'Ctx',
+        requestId: 'json-1',
+      }),
+    );
+  });
+
+  it('should colorize the request ID when colors are enabled', () => {
+    RequestContext.run('color-1', () =>
+      new RequestContextLogger({ colors: true }).log('hello', 'Ctx'),
+    );
+
+    expect(output.join('')).toMatch(/\[Ctx\] .*\[color-1\] .*hello/);
+  });
+});
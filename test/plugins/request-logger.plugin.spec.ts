@@ -1,46 +1,331 @@
 import 'reflect-metadata';
-import { INestApplication } from '@nestjs/common';
-import morgan from 'morgan';
-import { RequestLoggerPlugin } from '../../src';
-
-const mockMorganMiddleware = jest.fn(() => 'morgan_dev_middleware');
-jest.mock('morgan', () => jest.fn(() => mockMorganMiddleware));
-
-const mockedMorgan = morgan as unknown as jest.Mock;
+import { EventEmitter } from 'events';
+import { INestApplication, Logger } from '@nestjs/common';
+import {
+  AppInitializerPluginContext,
+  RequestLogEntry,
+  RequestLoggerOptions,
+  RequestLoggerPlugin,
+} from '../../src';
+import { RequestContext } from '../../src/features/request-context';
 
 describe('RequestLoggerPlugin', () => {
-  let plugin: RequestLoggerPlugin;
   let mockApp: INestApplication;
   let mockAppUse: jest.Mock;
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  /**
+   * Aplica o plugin e simula uma requisição no middleware do Express.
+   */
+  const runExpressRequest = (
+    options: RequestLoggerOptions,
+    request: Partial<Record<string, unknown>> = {},
+    statusCode = 200,
+  ) => {
+    const plugin = new RequestLoggerPlugin(options);
+    plugin.apply(mockApp);
+
+    const [middleware] = mockAppUse.mock.calls[0];
+    const req = {
+      method: 'GET',
+      url: '/users?page=2',
+      headers: {},
+      httpVersion: '1.1',
+      socket: { remoteAddress: '10.0.0.1' },
+      ...request,
+    };
+    const res = Object.assign(new EventEmitter(), {
+      statusCode,
+      getHeader: (name: string) => (name === 'content-length' ? 15 : undefined),
+    });
+    const next = jest.fn();
+
+    middleware(req, res, next);
+    expect(next).toHaveBeenCalled();
+    res.emit('finish');
+    return req;
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
+    logSpy = jest
+      .spyOn(Logger.prototype, 'log')
+      .mockImplementation(() => undefined);
+    warnSpy = jest
+      .spyOn(Logger.prototype, 'warn')
+      .mockImplementation(() => undefined);
 
     mockAppUse = jest.fn();
     mockApp = {
       use: mockAppUse,
+      getHttpAdapter: () => ({ getType: () => 'express' }),
     } as unknown as INestApplication;
+  });
 
-    plugin = new RequestLoggerPlugin();
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
   });
 
-  it('should be defined', () => {
-    expect(plugin).toBeDefined();
+  it('should expose a stable name', () => {
+    expect(new RequestLoggerPlugin().name).toBe('request-logger');
   });
 
-  it('should call app.use once', () => {
-    plugin.apply(mockApp);
-    expect(mockAppUse).toHaveBeenCalledTimes(1);
+  describe('formats', () => {
+    it('should log the dev format through the Nest logger by default', () => {
+      runExpressRequest({});
+
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^GET \/users\?page=2 200 \d+\.\d{3} ms - 15$/),
+      );
+    });
+
+    it('should log the Apache combined format', () => {
+      runExpressRequest(
+        { format: 'combined' },
+        {
+          originalUrl: '/api/users',
+          headers: { 'user-agent': 'curl/8.0', referer: 'http://app' },
+        },
+      );
+
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^10\.0\.0\.1 - - \[\d{2}\/\w{3}\/\d{4}:\d{2}:\d{2}:\d{2} \+0000\] "GET \/api\/users HTTP\/1\.1" 200 15 "http:\/\/app" "curl\/8\.0"$/,
+        ),
+      );
+    });
+
+    it('should log one object per request with the json format', () => {
+      RequestContext.run('req-1', () => {
+        runExpressRequest(
+          { format: 'json' },
+          {
+            method: 'POST',
+            originalUrl: '/api/orders',
+            headers: {
+              authorization: 'Bearer abc',
+              Cookie: 'sid=1',
+              accept: 'application/json',
+            },
+          },
+          201,
+        );
+      });
+
+      expect(logSpy).toHaveBeenCalledWith({
+        message: 'request completed',
+        method: 'POST',
+        url: '/api/orders',
+        statusCode: 201,
+        durationMs: expect.any(Number),
+        requestId: 'req-1',
+        remoteAddress: '10.0.0.1',
+        contentLength: '15',
+        httpVersion: '1.1',
+        headers: {
+          authorization: '[REDACTED]',
+          Cookie: '[REDACTED]',
+          accept: 'application/json',
+        },
+      });
+    });
+
+    it('should use a custom format function', () => {
+      const format = jest.fn((entry: RequestLogEntry) => `${entry.method}!`);
+      runExpressRequest({ format });
+
+      expect(format).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'GET', statusCode: 200 }),
+      );
+      expect(logSpy).toHaveBeenCalledWith('GET!');
+    });
+
+    it('should default to json when structured logging is enabled', () => {
+      const plugin = new RequestLoggerPlugin();
+      plugin.configureModule({
+        structuredLogging: {},
+      } as AppInitializerPluginContext);
+
+      expect(plugin['format']).toBe('json');
+    });
+
+    it('should keep an explicit format over the structured logging default', () => {
+      const plugin = new RequestLoggerPlugin({ format: 'combined' });
+      plugin.configureModule({
+        structuredLogging: {},
+      } as AppInitializerPluginContext);
+
+      expect(plugin['format']).toBe('combined');
+    });
   });
 
-  it('should call morgan function once with "dev"', () => {
-    plugin.apply(mockApp);
-    expect(mockedMorgan).toHaveBeenCalledTimes(1);
-    expect(mockedMorgan).toHaveBeenCalledWith('dev');
+  describe('skip rules', () => {
+    it.each(['/health', '/api/v1/health/live', '/metrics?format=json'])(
+      'should skip %s by default',
+      (url) => {
+        runExpressRequest({}, { url });
+        expect(logSpy).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should not skip paths that only start with a default pattern', () => {
+      runExpressRequest({}, { url: '/healthy' });
+      expect(logSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the configured paths and their subpaths', () => {
+      runExpressRequest({ skipPaths: ['/internal/'] }, { url: '/internal/x' });
+      expect(logSpy).not.toHaveBeenCalled();
+    });
+
+    it('should log health checks when skipPaths replaces the defaults', () => {
+      runExpressRequest({ skipPaths: [/^\/static/] }, { url: '/health' });
+      expect(logSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the configured methods', () => {
+      runExpressRequest({ skipMethods: ['options'] }, { method: 'OPTIONS' });
+      expect(logSpy).not.toHaveBeenCalled();
+    });
   });
 
-  it('should call app.use with the result of morgan("dev")', () => {
-    plugin.apply(mockApp);
-    expect(mockAppUse).toHaveBeenCalledWith(mockMorganMiddleware);
+  describe('sampling', () => {
+    let randomSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+      randomSpy.mockRestore();
+    });
+
+    it('should drop successful requests outside the sample', () => {
+      runExpressRequest({ sampleRate: 0.5 });
+      expect(logSpy).not.toHaveBeenCalled();
+    });
+
+    it('should keep successful requests inside the sample', () => {
+      runExpressRequest({ sampleRate: 0.6 });
+      expect(logSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should always log failed requests', () => {
+      runExpressRequest({ sampleRate: 0 }, {}, 500);
+      expect(logSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('slow requests', () => {
+    it('should log a warning when the request exceeds the threshold', () => {
+      runExpressRequest({ slowThresholdMs: 0, sampleRate: 0 });
+
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/ms - 15 \(lenta: acima de 0ms\)$/),
+      );
+    });
+
+    it('should flag slow requests in object formats', () => {
+      runExpressRequest({ format: 'json', slowThresholdMs: 0 });
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'request completed',
+          slow: true,
+          slowThresholdMs: 0,
+        }),
+      );
+    });
+
+    it('should log below the threshold as usual', () => {
+      runExpressRequest({ slowThresholdMs: 60_000 });
+
+      expect(warnSpy).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('with Fastify', () => {
+    let hooks: Record<string, (...args: any[]) => unknown>;
+
+    beforeEach(() => {
+      hooks = {};
+      mockApp = {
+        use: mockAppUse,
+        getHttpAdapter: () => ({
+          getType: () => 'fastify',
+          getInstance: () => ({
+            addHook: (name: string, hook: (...args: any[]) => unknown) => {
+              hooks[name] = hook;
+            },
+          }),
+        }),
+      } as unknown as INestApplication;
+    });
+
+    const runFastifyRequest = async (
+      options: RequestLoggerOptions,
+      request: Record<string, unknown>,
+      reply: Record<string, unknown>,
+    ) => {
+      new RequestLoggerPlugin(options).apply(mockApp);
+      RequestContext.run('req-2', () => hooks.onRequest(request, {}, () => {}));
+      await hooks.onResponse(request, reply);
+    };
+
+    it('should log requests through an onResponse hook', async () => {
+      await runFastifyRequest(
+        {},
+        { method: 'GET', url: '/users?page=2', headers: {} },
+        { statusCode: 200, elapsedTime: 12.3456 },
+      );
+
+      expect(mockAppUse).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith('GET /users?page=2 200 12.346 ms');
+    });
+
+    it('should log an object with the request ID in the json format', async () => {
+      await runFastifyRequest(
+        { format: 'json' },
+        {
+          method: 'GET',
+          url: '/users',
+          headers: { cookie: 'session=1', 'x-api-key': 'key' },
+          ip: '127.0.0.1',
+          raw: { httpVersion: '2.0' },
+        },
+        {
+          statusCode: 404,
+          elapsedTime: 1.23456,
+          getHeader: () => '42',
+        },
+      );
+
+      expect(logSpy).toHaveBeenCalledWith({
+        message: 'request completed',
+        method: 'GET',
+        url: '/users',
+        statusCode: 404,
+        durationMs: 1.235,
+        requestId: 'req-2',
+        remoteAddress: '127.0.0.1',
+        contentLength: '42',
+        httpVersion: '2.0',
+        headers: { cookie: '[REDACTED]', 'x-api-key': '[REDACTED]' },
+      });
+    });
+
+    it('should skip the default paths', async () => {
+      await runFastifyRequest(
+        {},
+        { method: 'GET', url: '/metrics', headers: {} },
+        { statusCode: 200, elapsedTime: 1 },
+      );
+
+      expect(logSpy).not.toHaveBeenCalled();
+    });
   });
 });
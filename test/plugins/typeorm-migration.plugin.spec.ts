@@ -1,7 +1,7 @@
 import 'reflect-metadata';
 import { INestApplication, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
-import { TypeOrmMigrationPlugin } from '../../src';
+import { AppInitializerPluginContext, TypeOrmMigrationPlugin } from '../../src';
 
 const mockDataSource = {
   runMigrations: jest.fn(),
@@ -11,6 +11,8 @@ const mockApp = {
   get: jest.fn(),
 } as unknown as INestApplication;
 
+const mockContext = { app: mockApp } as AppInitializerPluginContext;
+
 const mockLoggerLog = jest.fn();
 const mockLoggerError = jest.fn();
 jest.spyOn(Logger.prototype, 'log').mockImplementation(mockLoggerLog);
@@ -31,19 +33,23 @@ describe('TypeOrmMigrationPlugin', () => {
     expect(plugin).toBeDefined();
   });
 
+  it('should expose a stable name', () => {
+    expect(plugin.name).toBe('typeorm-migration');
+  });
+
   it('should get DataSource from the application', async () => {
-    await plugin.apply(mockApp);
+    await plugin.afterCreate(mockContext);
     expect(mockApp.get).toHaveBeenCalledTimes(1);
     expect(mockApp.get).toHaveBeenCalledWith(DataSource);
   });
 
   it('should call runMigrations on the DataSource', async () => {
-    await plugin.apply(mockApp);
+    await plugin.afterCreate(mockContext);
     expect(mockDataSource.runMigrations).toHaveBeenCalledTimes(1);
   });
 
   it('should log start and success messages', async () => {
-    await plugin.apply(mockApp);
+    await plugin.afterCreate(mockContext);
     expect(mockLoggerLog).toHaveBeenCalledWith(
       'Iniciando execução das migrations do banco de dados...',
     );
@@ -59,7 +65,7 @@ describe('TypeOrmMigrationPlugin', () => {
       throw getError;
     });
 
-    await expect(plugin.apply(mockApp)).rejects.toThrow(getError);
+    await expect(plugin.afterCreate(mockContext)).rejects.toThrow(getError);
     expect(mockDataSource.runMigrations).not.toHaveBeenCalled();
     expect(mockLoggerError).toHaveBeenCalledTimes(1);
     expect(mockLoggerError).toHaveBeenCalledWith(
@@ -75,7 +81,9 @@ describe('TypeOrmMigrationPlugin', () => {
     const migrationError = new Error('Migration failed');
     mockDataSource.runMigrations.mockRejectedValue(migrationError);
 
-    await expect(plugin.apply(mockApp)).rejects.toThrow(migrationError);
+    await expect(plugin.afterCreate(mockContext)).rejects.toThrow(
+      migrationError,
+    );
     expect(mockDataSource.runMigrations).toHaveBeenCalledTimes(1);
     expect(mockLoggerError).toHaveBeenCalledTimes(1);
     expect(mockLoggerError).toHaveBeenCalledWith(
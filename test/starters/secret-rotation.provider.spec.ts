@@ -0,0 +1,88 @@
+import { FactoryProvider, Logger } from '@nestjs/common';
+
+import { SecretsManager, SecretsProvider } from '../../src/features/secrets';
+import { createSecretRotationProvider } from '../../src/starters/secret-rotation.provider';
+
+describe('createSecretRotationProvider', () => {
+  const resource = { name: 'resource' };
+  let provider: SecretsProvider;
+  let manager: SecretsManager;
+  let reconnect: jest.Mock;
+
+  const create = () =>
+    createSecretRotationProvider({
+      name: 'TypeORM',
+      key: 'DATABASE_URL',
+      target: 'RESOURCE',
+      reconnect,
+    }) as FactoryProvider;
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    provider = {
+      name: 'test',
+      load: jest
+        .fn()
+        .mockResolvedValueOnce({ DATABASE_URL: 'old', OTHER: 'a' })
+        .mockResolvedValueOnce({ DATABASE_URL: 'new', OTHER: 'b' }),
+    };
+    manager = new SecretsManager(new Logger('test')).addProvider(provider);
+    reconnect = jest.fn().mockResolvedValue(undefined);
+    await manager.load();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should inject the target and the optional SecretsManager', () => {
+    expect(create()).toMatchObject({
+      provide: 'SECRET_ROTATION_TYPEORM',
+      inject: ['RESOURCE', { token: SecretsManager, optional: true }],
+    });
+  });
+
+  it('should reconnect the target when the watched secret changes', async () => {
+    const log = jest.spyOn(Logger.prototype, 'log');
+    create().useFactory(resource, manager);
+
+    await manager.refresh(provider);
+    await new Promise(process.nextTick);
+
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    expect(reconnect).toHaveBeenCalledWith(resource, 'new');
+    expect(log).toHaveBeenCalledWith(
+      "[Segredos] TypeORM reconectado com o novo valor de 'DATABASE_URL'.",
+    );
+  });
+
+  it('should log the failure when the reconnection fails', async () => {
+    const error = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    reconnect.mockRejectedValue(new Error('auth failed'));
+    create().useFactory(resource, manager);
+
+    await manager.refresh(provider);
+    await new Promise(process.nextTick);
+
+    expect(error).toHaveBeenCalledWith(
+      "[Segredos] Falha ao reconectar o TypeORM com o novo valor de 'DATABASE_URL'.",
+      expect.stringContaining('auth failed'),
+    );
+  });
+
+  it('should stop watching when the module is destroyed', async () => {
+    const watcher = create().useFactory(resource, manager);
+
+    watcher.onModuleDestroy();
+    await manager.refresh(provider);
+
+    expect(reconnect).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing without a SecretsManager', () => {
+    const watcher = create().useFactory(resource, undefined);
+
+    expect(() => watcher.onModuleDestroy()).not.toThrow();
+  });
+});